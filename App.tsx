@@ -1,81 +1,173 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { SetupView } from './components/SetupView';
 import { PracticeView } from './components/PracticeView';
 import { VocabularyView } from './components/VocabularyView';
-import { AppMode, PracticeSession, VocabularyItem, TokenUsage } from './types';
+import { AnalyticsView } from './components/AnalyticsView';
+import { DictationView } from './components/DictationView';
+import { AppMode, PracticeSession, VocabularyItem, TokenUsage, ReviewGrade, AIContentConfig, TranslationDirection, LanguageSettings, DEFAULT_LANGUAGE_SETTINGS, DictationResult } from './types';
+import { scheduleReview } from './services/scheduler';
+import { createLemmaIndex, normalizeWord } from './services/lemmatizer';
+import { getStrings } from './services/i18n';
+import { loadSessions, saveSession, deleteSession, loadWords, saveWord, saveWords, deleteWord, getSetting } from './services/storage';
+
+// Fire-and-forget write; the in-memory state is already up to date
+const persist = (task: Promise<unknown>, what: string) => {
+  task.catch(err => console.error(`Failed to ${what}`, err));
+};
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.SETUP);
   const [session, setSession] = useState<PracticeSession | null>(null);
   const [history, setHistory] = useState<PracticeSession[]>([]);
   const [savedWords, setSavedWords] = useState<VocabularyItem[]>([]);
+  const [language, setLanguage] = useState<LanguageSettings>(DEFAULT_LANGUAGE_SETTINGS);
+  // True while a generated story is still streaming into the practice view
+  const [isStreaming, setIsStreaming] = useState(false);
+  const cancelStreamRef = useRef<(() => void) | null>(null);
+
+  const reloadData = () => {
+    loadSessions()
+      .then(setHistory)
+      .catch(err => console.error("Failed to load history", err));
+
+    loadWords()
+      .then(setSavedWords)
+      .catch(err => console.error("Failed to load saved words", err));
+
+    getSetting<LanguageSettings>('language')
+      .then(saved => setLanguage({ ...DEFAULT_LANGUAGE_SETTINGS, ...saved }))
+      .catch(err => console.error("Failed to load language settings", err));
+  };
 
-  // Load from local storage on mount
+  // Load from IndexedDB on mount (migrates the old localStorage data on first run)
   useEffect(() => {
-    const storedHistory = localStorage.getItem('lf_history');
-    if (storedHistory) setHistory(JSON.parse(storedHistory));
-    
-    const storedWords = localStorage.getItem('lf_saved_words');
-    if (storedWords) setSavedWords(JSON.parse(storedWords));
+    reloadData();
   }, []);
 
-  // Save to local storage on change
-  useEffect(() => {
-    localStorage.setItem('lf_history', JSON.stringify(history));
-  }, [history]);
-
-  useEffect(() => {
-    localStorage.setItem('lf_saved_words', JSON.stringify(savedWords));
-  }, [savedWords]);
-
-
-  const startSession = (title: string, text: string, vocabulary: VocabularyItem[], usage: TokenUsage) => {
+  const startSession = (title: string, text: string, vocabulary: VocabularyItem[], usage: TokenUsage, direction: TranslationDirection, config?: AIContentConfig) => {
+    setIsStreaming(false);
+    cancelStreamRef.current = null;
     setSession({
       id: Date.now().toString(),
       title,
       text,
       vocabulary,
       date: Date.now(),
+      config,
+      direction,
+      nativeLanguage: language.native,
       initialUsage: usage,
       lookupUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 }
     });
     setMode(AppMode.PRACTICE);
   };
 
+  // Show the story while it is being written; startSession replaces it with the final content
+  const handleStreamPreview = (title: string, text: string, cancel: () => void) => {
+    cancelStreamRef.current = cancel;
+    setIsStreaming(true);
+    setSession(prev => ({
+      id: prev?.id || Date.now().toString(),
+      title,
+      text,
+      vocabulary: [],
+      date: prev?.date || Date.now(),
+      initialUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 },
+      lookupUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 }
+    }));
+    setMode(AppMode.PRACTICE);
+  };
+
+  const handleStreamFailed = () => {
+    cancelStreamRef.current = null;
+    setIsStreaming(false);
+    setSession(null);
+    setMode(AppMode.SETUP);
+  };
+
   const handleFinishSession = (finishedSession: PracticeSession) => {
       setHistory(prev => [finishedSession, ...prev]);
+      persist(saveSession(finishedSession), "save session");
+  };
+
+  // A dictation run is its own history entry over the source session's text
+  const handleFinishDictation = (source: PracticeSession, dictation: DictationResult, lookupUsage: TokenUsage, lookupSavedUsage: TokenUsage) => {
+      handleFinishSession({
+          id: Date.now().toString(),
+          title: source.title,
+          text: source.text,
+          vocabulary: source.vocabulary,
+          date: Date.now(),
+          config: source.config,
+          direction: source.direction,
+          nativeLanguage: source.nativeLanguage,
+          // Generating the text was already counted on the source session
+          initialUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 },
+          lookupUsage,
+          lookupSavedUsage,
+          dictation
+      });
   };
 
   const handleDeleteSession = (sessionId: string) => {
     if (window.confirm("Are you sure you want to delete this session?")) {
       setHistory(prev => prev.filter(s => s.id !== sessionId));
+      persist(deleteSession(sessionId), "delete session");
     }
   };
 
   const handleReviewSession = (pastSession: PracticeSession) => {
       setSession(pastSession);
-      setMode(AppMode.REVIEW);
+      setMode(pastSession.dictation ? AppMode.DICTATION : AppMode.REVIEW);
   };
 
+  // Only the card for this exact word is removed; "running" with a saved "run"
+  // points at that card instead of deleting it or adding a second one
   const handleToggleSaveWord = (word: VocabularyItem) => {
-    setSavedWords(prev => {
-      const exists = prev.some(w => w.word === word.word);
-      if (exists) {
-        return prev.filter(w => w.word !== word.word);
-      }
-      return [...prev, word];
-    });
+    const existing = createLemmaIndex(savedWords, w => w.word).find(word.word);
+    if (!existing) {
+      handleAddManualWord(word);
+    } else if (normalizeWord(existing.word) === normalizeWord(word.word)) {
+      handleRemoveSavedWord(existing.word);
+    } else {
+      alert(getStrings(language).lookup.savedAs(existing.word));
+    }
   };
 
   const handleAddManualWord = (word: VocabularyItem) => {
-    setSavedWords(prev => [word, ...prev]);
+    const saved = { ...word, savedAt: Date.now() };
+    setSavedWords(prev => [saved, ...prev]);
+    persist(saveWord(saved), "save word");
+  };
+  
+  // Bulk import: new words go on top (in file order), updated ones keep their place
+  const handleImportWords = (words: VocabularyItem[]) => {
+    const now = Date.now();
+    const stamped = words.map((w, idx) => w.savedAt ? w : { ...w, savedAt: now - idx });
+    const byWord = new Map(stamped.map(w => [w.word, w]));
+    setSavedWords(prev => {
+      const existing = new Set(prev.map(w => w.word));
+      return [...stamped.filter(w => !existing.has(w.word)), ...prev.map(w => byWord.get(w.word) || w)];
+    });
+    persist(saveWords(stamped), "import words");
   };
   
   const handleRemoveSavedWord = (wordStr: string) => {
       setSavedWords(prev => prev.filter(w => w.word !== wordStr));
+      persist(deleteWord(wordStr), "delete word");
+  };
+
+  const handleGradeWord = (wordStr: string, grade: ReviewGrade) => {
+      const word = savedWords.find(w => w.word === wordStr);
+      if (!word) return;
+      const graded = { ...word, review: scheduleReview(word.review, grade) };
+      setSavedWords(prev => prev.map(w => w.word === wordStr ? graded : w));
+      persist(saveWord(graded), "save review");
   };
 
   const handleExitPractice = () => {
+    // Leaving while the story is still streaming cancels the generation
+    cancelStreamRef.current?.();
     setMode(AppMode.SETUP);
     setSession(null);
   };
@@ -85,11 +177,17 @@ const App: React.FC = () => {
       {mode === AppMode.SETUP && (
         <SetupView 
             onStart={startSession} 
+            onStreamPreview={handleStreamPreview}
+            onStreamFailed={handleStreamFailed}
             history={history}
             onReview={handleReviewSession}
             onDeleteSession={handleDeleteSession}
             savedWordsCount={savedWords.length}
             onOpenVocabulary={() => setMode(AppMode.VOCABULARY)}
+            onOpenAnalytics={() => setMode(AppMode.ANALYTICS)}
+            onDataImported={reloadData}
+            language={language}
+            onLanguageChange={setLanguage}
         />
       )}
 
@@ -100,7 +198,20 @@ const App: React.FC = () => {
           onToggleSave={handleToggleSaveWord}
           onExit={handleExitPractice}
           onFinishSession={handleFinishSession}
+          onFinishDictation={(dictation, lookupUsage, lookupSavedUsage) => handleFinishDictation(session, dictation, lookupUsage, lookupSavedUsage)}
           readOnly={mode === AppMode.REVIEW}
+          isStreaming={isStreaming}
+          language={language}
+        />
+      )}
+
+      {mode === AppMode.DICTATION && session && (
+        <DictationView
+          session={session}
+          savedWords={savedWords}
+          onToggleSave={handleToggleSaveWord}
+          onExit={handleExitPractice}
+          language={language}
         />
       )}
 
@@ -109,7 +220,20 @@ const App: React.FC = () => {
             savedWords={savedWords}
             onRemove={handleRemoveSavedWord}
             onAdd={handleAddManualWord}
+            onImport={handleImportWords}
+            onGrade={handleGradeWord}
+            onExit={() => setMode(AppMode.SETUP)}
+            language={language}
+        />
+      )}
+
+      {mode === AppMode.ANALYTICS && (
+        <AnalyticsView 
+            history={history}
+            savedWords={savedWords}
+            onReview={handleReviewSession}
             onExit={() => setMode(AppMode.SETUP)}
+            language={language}
         />
       )}
     </div>
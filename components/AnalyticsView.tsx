@@ -0,0 +1,250 @@
+import React, { useMemo } from 'react';
+import { PracticeSession, VocabularyItem, LanguageSettings } from '../types';
+import {
+  scoreTrend, sessionsPerWeek, scoreByDifficulty, scoreByTopic, practiceStreaks,
+  vocabularyGrowth, weakestCategories, progressSummary, CEFR_LEVELS, CefrBucket, GroupScore
+} from '../services/analytics';
+import { getStrings } from '../services/i18n';
+import { ArrowLeft, BarChart3, Flame, Trophy, TrendingUp, TrendingDown, CalendarDays, Layers, AlertTriangle } from 'lucide-react';
+
+interface AnalyticsViewProps {
+  history: PracticeSession[];
+  savedWords: VocabularyItem[];
+  onReview: (session: PracticeSession) => void;
+  onExit: () => void;
+  language: LanguageSettings;
+}
+
+const CEFR_COLORS: Record<CefrBucket, string> = {
+  A1: '#bbf7d0', A2: '#4ade80', B1: '#bfdbfe', B2: '#3b82f6', C1: '#e9d5ff', C2: '#9333ea', Other: '#e5e7eb'
+};
+
+const shortDate = (time: number) => new Date(time).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+const scoreTone = (score: number) => score >= 80 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-400' : 'bg-red-400';
+
+const Card: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode; className?: string }> = ({ title, icon, children, className = '' }) => (
+  <div className={`bg-white rounded-2xl border border-gray-100 shadow-sm p-6 ${className}`}>
+    <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2 text-sm uppercase tracking-wide">{icon} {title}</h3>
+    {children}
+  </div>
+);
+
+const Empty: React.FC<{ text: string }> = ({ text }) => (
+  <div className="h-40 flex items-center justify-center text-sm text-gray-400">{text}</div>
+);
+
+// Score line over the scored sessions, oldest on the left; points open the session
+const ScoreChart: React.FC<{ history: PracticeSession[]; onReview: (session: PracticeSession) => void }> = ({ history, onReview }) => {
+  const points = useMemo(() => scoreTrend(history), [history]);
+  if (points.length === 0) return <Empty text="Finish a session to see your scores here." />;
+
+  const width = 600;
+  const height = 180;
+  const pad = 24;
+  const x = (idx: number) => points.length === 1 ? width / 2 : pad + (idx / (points.length - 1)) * (width - pad * 2);
+  const y = (score: number) => pad + (1 - score / 100) * (height - pad * 2);
+  const line = points.map((p, idx) => `${idx === 0 ? 'M' : 'L'}${x(idx)},${y(p.score)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48">
+      {[0, 50, 80, 100].map(mark => (
+        <g key={mark}>
+          <line x1={pad} x2={width - pad} y1={y(mark)} y2={y(mark)} stroke={mark === 80 ? '#bbf7d0' : '#f3f4f6'} strokeDasharray={mark === 80 ? '4 4' : undefined} />
+          <text x={0} y={y(mark) + 4} fontSize="10" fill="#9ca3af">{mark}</text>
+        </g>
+      ))}
+      <path d={line} fill="none" stroke="#2563eb" strokeWidth="2.5" strokeLinejoin="round" />
+      {points.map((p, idx) => {
+        const session = history.find(s => s.id === p.sessionId);
+        return (
+          <circle
+            key={p.sessionId}
+            cx={x(idx)}
+            cy={y(p.score)}
+            r="5"
+            fill="white"
+            stroke="#2563eb"
+            strokeWidth="2"
+            className="cursor-pointer hover:fill-blue-600"
+            onClick={() => session && onReview(session)}
+          >
+            <title>{`${p.title} • ${shortDate(p.date)} • ${p.score}/100`}</title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+};
+
+const WeeklyChart: React.FC<{ history: PracticeSession[] }> = ({ history }) => {
+  const weeks = useMemo(() => sessionsPerWeek(history), [history]);
+  const max = Math.max(1, ...weeks.map(w => w.count));
+
+  return (
+    <div className="flex items-end gap-1.5 h-40">
+      {weeks.map(w => (
+        <div key={w.weekStart} className="flex-1 flex flex-col items-center justify-end h-full group" title={`Week of ${shortDate(w.weekStart)}: ${w.count}`}>
+          <span className="text-[10px] font-bold text-gray-500 mb-1 opacity-0 group-hover:opacity-100">{w.count}</span>
+          <div className={`w-full rounded-t-md ${w.count ? 'bg-blue-500' : 'bg-gray-100'}`} style={{ height: `${Math.max(4, (w.count / max) * 100)}%` }} />
+          <span className="text-[9px] text-gray-400 mt-1 whitespace-nowrap">{shortDate(w.weekStart)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const GroupBars: React.FC<{ groups: GroupScore[]; empty: string }> = ({ groups, empty }) => {
+  if (groups.length === 0) return <Empty text={empty} />;
+  return (
+    <div className="space-y-3">
+      {groups.map(g => (
+        <div key={g.label}>
+          <div className="flex justify-between text-xs mb-1">
+            <span className="font-bold text-gray-700 truncate pr-2">{g.label}</span>
+            <span className="text-gray-400 shrink-0">{g.average} avg • {g.sessions} session{g.sessions === 1 ? '' : 's'}</span>
+          </div>
+          <div className="w-full bg-gray-100 h-2.5 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${scoreTone(g.average)}`} style={{ width: `${g.average}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Stacked bars of the cumulative deck size, split by CEFR level
+const VocabularyChart: React.FC<{ savedWords: VocabularyItem[] }> = ({ savedWords }) => {
+  const weeks = useMemo(() => vocabularyGrowth(savedWords), [savedWords]);
+  if (savedWords.length === 0) return <Empty text="Save words while practising to grow your deck." />;
+
+  const levels: CefrBucket[] = [...CEFR_LEVELS, 'Other'];
+  const total = (totals: Record<CefrBucket, number>) => levels.reduce((sum, level) => sum + totals[level], 0);
+  const max = Math.max(1, ...weeks.map(w => total(w.totals)));
+  const latest = weeks[weeks.length - 1].totals;
+
+  return (
+    <>
+      <div className="flex items-end gap-1.5 h-40">
+        {weeks.map(w => (
+          <div key={w.weekStart} className="flex-1 flex flex-col justify-end h-full" title={`${shortDate(w.weekStart)}: ${total(w.totals)} words`}>
+            <div className="w-full flex flex-col-reverse rounded-t-md overflow-hidden" style={{ height: `${(total(w.totals) / max) * 100}%` }}>
+              {levels.map(level => w.totals[level] > 0 && (
+                <div key={level} style={{ height: `${(w.totals[level] / total(w.totals)) * 100}%`, backgroundColor: CEFR_COLORS[level] }} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 mt-4">
+        {levels.filter(level => latest[level] > 0).map(level => (
+          <span key={level} className="flex items-center gap-1.5 text-xs text-gray-600">
+            <span className="w-3 h-3 rounded" style={{ backgroundColor: CEFR_COLORS[level] }} />
+            <span className="font-bold">{level}</span> {latest[level]}
+          </span>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, savedWords, onReview, onExit, language }) => {
+  const t = getStrings(language);
+  const summary = useMemo(() => progressSummary(history), [history]);
+  const streaks = useMemo(() => practiceStreaks(history), [history]);
+  const byDifficulty = useMemo(() => scoreByDifficulty(history), [history]);
+  const byTopic = useMemo(() => scoreByTopic(history), [history]);
+  const mistakes = useMemo(() => weakestCategories(history), [history]);
+  const maxWeight = Math.max(1, ...mistakes.map(m => m.weight));
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col font-sans">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center gap-4 sticky top-0 z-10 shadow-sm">
+        <button onClick={onExit} className="p-2 hover:bg-gray-100 rounded-full text-gray-600 transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h1 className="font-bold text-gray-900 text-xl flex items-center gap-2">
+          <BarChart3 className="w-6 h-6 text-blue-600" /> Progress
+        </h1>
+      </header>
+
+      <div className="flex-1 max-w-5xl mx-auto w-full p-4 md:p-8 space-y-6">
+        {/* Headline numbers */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white p-4 rounded-2xl border border-gray-100">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Sessions</span>
+            <div className="text-3xl font-black mt-1">{summary.sessions}</div>
+            <span className="text-xs text-gray-400">{summary.scored} scored</span>
+          </div>
+          <div className="bg-white p-4 rounded-2xl border border-gray-100">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Average Score</span>
+            <div className="text-3xl font-black mt-1">{summary.scored ? summary.averageScore : '–'}</div>
+            {summary.recentChange !== 0 && (
+              <span className={`text-xs font-bold flex items-center gap-1 ${summary.recentChange > 0 ? 'text-green-600' : 'text-red-500'}`}>
+                {summary.recentChange > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                {summary.recentChange > 0 ? '+' : ''}{summary.recentChange} last 5
+              </span>
+            )}
+          </div>
+          <div className="bg-white p-4 rounded-2xl border border-gray-100">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Current Streak</span>
+            <div className="text-3xl font-black mt-1 flex items-center gap-2">
+              {streaks.current} <Flame className={`w-6 h-6 ${streaks.current ? 'text-orange-500' : 'text-gray-200'}`} />
+            </div>
+            <span className="text-xs text-gray-400">day{streaks.current === 1 ? '' : 's'} in a row</span>
+          </div>
+          <div className="bg-white p-4 rounded-2xl border border-gray-100">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Longest Streak</span>
+            <div className="text-3xl font-black mt-1 flex items-center gap-2">
+              {streaks.longest} <Trophy className="w-6 h-6 text-yellow-500" />
+            </div>
+            <span className="text-xs text-gray-400">{streaks.activeDays} active day{streaks.activeDays === 1 ? '' : 's'}</span>
+          </div>
+        </div>
+
+        <Card title="Score Over Time" icon={<TrendingUp className="w-4 h-4 text-blue-600" />}>
+          <ScoreChart history={history} onReview={onReview} />
+        </Card>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card title="Sessions per Week" icon={<CalendarDays className="w-4 h-4 text-blue-600" />}>
+            <WeeklyChart history={history} />
+          </Card>
+          <Card title="Vocabulary Growth" icon={<Layers className="w-4 h-4 text-purple-600" />}>
+            <VocabularyChart savedWords={savedWords} />
+          </Card>
+          <Card title="Score by Difficulty" icon={<BarChart3 className="w-4 h-4 text-green-600" />}>
+            <GroupBars groups={byDifficulty} empty="No scored sessions yet." />
+          </Card>
+          <Card title="Score by Topic" icon={<BarChart3 className="w-4 h-4 text-green-600" />}>
+            <GroupBars groups={byTopic} empty="No scored sessions yet." />
+          </Card>
+        </div>
+
+        <Card title="Weakest Categories" icon={<AlertTriangle className="w-4 h-4 text-red-500" />}>
+          {mistakes.length === 0 ? (
+            <Empty text="Feedback from your evaluations will be grouped here." />
+          ) : (
+            <div className="space-y-4">
+              {mistakes.map(m => (
+                <div key={m.category}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="font-bold text-gray-700">{t.mistakes.categories[m.category]}</span>
+                    <span className="text-gray-400">{m.count}× in {m.sessions} session{m.sessions === 1 ? '' : 's'}</span>
+                  </div>
+                  <div className="w-full bg-gray-100 h-2 rounded-full overflow-hidden mb-1.5" title="Weighted by severity">
+                    <div className="h-full rounded-full bg-red-400" style={{ width: `${(m.weight / maxWeight) * 100}%` }} />
+                  </div>
+                  <ul className="text-xs text-gray-500 space-y-0.5">
+                    {m.examples.map((example, idx) => <li key={idx} className="truncate">• {example}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { BackupBundle, ImportMode, ImportPreview, createBackup, parseBackup, previewImport, applyImport } from '../services/backup';
+import { loadSessions, loadWords } from '../services/storage';
+import { downloadFile, dateStamp } from '../services/fileUtils';
+import { Download, Upload, Loader2, X, GitMerge, Replace } from 'lucide-react';
+
+interface DataBackupPanelProps {
+  onImported: () => void;
+}
+
+export const DataBackupPanel: React.FC<DataBackupPanelProps> = ({ onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pending, setPending] = useState<{ bundle: BackupBundle; preview: ImportPreview; fileName: string } | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const bundle = await createBackup();
+      downloadFile(`linguaflow-backup-${dateStamp()}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Export failed");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const bundle = parseBackup(await file.text());
+      const [sessions, words] = await Promise.all([loadSessions(), loadWords()]);
+      setPending({ bundle, preview: previewImport(bundle, sessions, words), fileName: file.name });
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Could not read backup file");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    if (mode === 'replace' && !confirm("Replace ALL sessions and saved words with this backup? This cannot be undone.")) return;
+
+    setIsBusy(true);
+    try {
+      const [sessions, words] = await Promise.all([loadSessions(), loadWords()]);
+      await applyImport(pending.bundle, mode, sessions, words);
+      setPending(null);
+      onImported();
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Import failed");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-gray-800 mb-1">Backup & Restore</h3>
+      <p className="text-xs text-gray-500 mb-3">Sessions, vocabulary and prompts in one JSON file. API keys are not included.</p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="py-3 rounded-xl border border-gray-200 text-sm font-bold text-gray-700 hover:border-blue-300 hover:text-blue-600 disabled:opacity-50 flex items-center justify-center gap-2 transition-all"
+        >
+          {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="py-3 rounded-xl border border-gray-200 text-sm font-bold text-gray-700 hover:border-green-300 hover:text-green-600 disabled:opacity-50 flex items-center justify-center gap-2 transition-all"
+        >
+          <Upload className="w-4 h-4" /> Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChosen} />
+      </div>
+
+      {pending && (
+        <div className="mt-4 bg-gray-50 border border-gray-200 rounded-xl p-4 animate-in fade-in">
+          <div className="flex justify-between items-start mb-3">
+            <div>
+              <p className="text-sm font-bold text-gray-800 truncate">{pending.fileName}</p>
+              {pending.bundle.exportedAt > 0 && (
+                <p className="text-xs text-gray-400">Exported {new Date(pending.bundle.exportedAt).toLocaleString()}</p>
+              )}
+            </div>
+            <button onClick={() => setPending(null)} className="p-1 hover:bg-gray-200 rounded-full">
+              <X className="w-4 h-4 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+            <div className="bg-white rounded-lg p-3 border border-gray-100">
+              <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Sessions</span>
+              <span className="font-black text-gray-900 text-lg">{pending.preview.sessions.total}</span>
+              <span className="block text-xs text-gray-500">{pending.preview.sessions.new} new • {pending.preview.sessions.duplicates} already here</span>
+            </div>
+            <div className="bg-white rounded-lg p-3 border border-gray-100">
+              <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Words</span>
+              <span className="font-black text-gray-900 text-lg">{pending.preview.words.total}</span>
+              <span className="block text-xs text-gray-500">{pending.preview.words.new} new • {pending.preview.words.duplicates} already here</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => handleImport('merge')}
+              disabled={isBusy}
+              className="py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50 flex items-center justify-center gap-2"
+              title="Add new sessions and words, keep everything already here"
+            >
+              <GitMerge className="w-4 h-4" /> Merge
+            </button>
+            <button
+              onClick={() => handleImport('replace')}
+              disabled={isBusy}
+              className="py-2.5 rounded-xl border border-red-200 text-red-600 hover:bg-red-50 text-sm font-bold disabled:opacity-50 flex items-center justify-center gap-2"
+              title={pending.preview.hasSettings ? "Replace data and prompts with the backup" : "Replace data with the backup"}
+            >
+              <Replace className="w-4 h-4" /> Replace
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { PracticeSession, VocabularyItem, DictationEntry, DictationResult, TokenUsage, LanguageSettings } from '../types';
+import { splitSentences } from '../services/sentences';
+import { gradeDictation, diffDictation, dictationScore } from '../services/dictation';
+import { DiffSegment } from '../services/textDiff';
+import { speak, sourceLocale, isSpeechSupported } from '../services/speech';
+import { lookupWordCached } from '../services/aiService';
+import { createLemmaIndex, normalizeWord } from '../services/lemmatizer';
+import { getStrings } from '../services/i18n';
+import { X, Headphones, Volume2, CheckCircle, ArrowRight, BookmarkPlus, BookmarkCheck, Loader2, Trophy } from 'lucide-react';
+
+interface DictationViewProps {
+  session: PracticeSession;
+  savedWords: VocabularyItem[];
+  onToggleSave: (word: VocabularyItem) => void;
+  onExit: () => void;
+  // Absent when looking back at a finished run
+  onFinish?: (result: DictationResult, lookupUsage: TokenUsage, lookupSavedUsage: TokenUsage) => void;
+  language: LanguageSettings;
+}
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  responseTokens: a.responseTokens + b.responseTokens,
+  totalTokens: a.totalTokens + b.totalTokens
+});
+
+const scoreClass = (score: number) =>
+  score >= 80 ? 'bg-green-100 text-green-700' : score >= 50 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700';
+
+// What was typed wrong struck through, followed by the words of the sentence
+const renderDiff = (segments: DiffSegment[]) => segments.map((s, idx) => {
+  if (s.type === 'equal') return <React.Fragment key={idx}>{s.after}</React.Fragment>;
+  return (
+    <React.Fragment key={idx}>
+      {s.before && <span className="bg-red-100 text-red-700 line-through decoration-red-400 rounded px-0.5">{s.before}</span>}
+      {s.after && <span className="bg-green-100 text-green-800 rounded px-0.5">{s.after}</span>}
+    </React.Fragment>
+  );
+});
+
+export const DictationView: React.FC<DictationViewProps> = ({ session, savedWords, onToggleSave, onExit, onFinish, language }) => {
+  const t = getStrings(language);
+  const locale = sourceLocale(session.direction, session.nativeLanguage);
+  const sentences = useMemo(() => splitSentences(session.text).map(s => s.trim()).filter(Boolean), [session.text]);
+
+  const [entries, setEntries] = useState<DictationEntry[]>(session.dictation?.entries || []);
+  const [index, setIndex] = useState(0);
+  const [typed, setTyped] = useState('');
+  const [showResults, setShowResults] = useState(!!session.dictation);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  // Missed words are looked up on demand before they are saved
+  const [lookedUp, setLookedUp] = useState<Record<string, VocabularyItem>>({});
+  const [loadingWord, setLoadingWord] = useState<string | null>(null);
+  const [lookupUsage, setLookupUsage] = useState<TokenUsage>(EMPTY_USAGE);
+  const [lookupSavedUsage, setLookupSavedUsage] = useState<TokenUsage>(EMPTY_USAGE);
+
+  const current = entries[index];
+  const isLast = index === sentences.length - 1;
+
+  const play = (sentence: string) => {
+    stopRef.current?.();
+    setIsPlaying(true);
+    const stop = speak(sentence, {
+      locale,
+      onEnd: () => {
+        if (stopRef.current !== stop) return;
+        stopRef.current = null;
+        setIsPlaying(false);
+      }
+    });
+    stopRef.current = stop;
+  };
+
+  // Each new sentence plays once by itself
+  useEffect(() => {
+    if (showResults || !sentences[index]) return;
+    play(sentences[index]);
+  }, [index, showResults]);
+
+  useEffect(() => {
+    return () => stopRef.current?.();
+  }, []);
+
+  const handleCheck = () => {
+    if (!typed.trim()) return;
+    const entry = gradeDictation(sentences[index], typed);
+    setEntries(prev => {
+      const next = [...prev];
+      next[index] = entry;
+      return next;
+    });
+  };
+
+  const handleNext = () => {
+    if (isLast) {
+      stopRef.current?.();
+      setShowResults(true);
+      return;
+    }
+    setTyped('');
+    setIndex(index + 1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Enter' || e.shiftKey) return;
+    e.preventDefault();
+    if (current) handleNext();
+    else handleCheck();
+  };
+
+  const savedIndex = useMemo(() => createLemmaIndex(savedWords, w => w.word), [savedWords]);
+  const vocabIndex = useMemo(() => createLemmaIndex(session.vocabulary, v => v.word), [session.vocabulary]);
+  const findSaved = (word: string) => savedIndex.find(word);
+
+  const handleToggleWord = async (word: string, sentence: string) => {
+    const saved = findSaved(word);
+    if (saved) {
+      // A card saved under another form ("leave" for "left") is not this word's to remove
+      if (normalizeWord(saved.word) === normalizeWord(word)) onToggleSave(saved);
+      else alert(t.lookup.savedAs(saved.word));
+      return;
+    }
+
+    const key = word.toLowerCase();
+    const known = lookedUp[key] || vocabIndex.find(word);
+    if (known) {
+      onToggleSave({ ...known, context: known.context || sentence });
+      return;
+    }
+
+    setLoadingWord(word);
+    try {
+      const { usage, savedUsage, cached, source, ...result } = await lookupWordCached(word, session.text, { direction: session.direction, nativeLanguage: session.nativeLanguage, sentence });
+      const item = { ...result, context: sentence };
+      setLookedUp(prev => ({ ...prev, [key]: item }));
+      if (cached) {
+        if (savedUsage) setLookupSavedUsage(prev => addUsage(prev, savedUsage));
+      } else if (usage) {
+        setLookupUsage(prev => addUsage(prev, usage));
+      }
+      onToggleSave(item);
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || t.dictation.lookupFailed);
+    } finally {
+      setLoadingWord(null);
+    }
+  };
+
+  const handleSave = () => {
+    onFinish?.({ entries, score: dictationScore(entries) }, lookupUsage, lookupSavedUsage);
+    onExit();
+  };
+
+  const renderMissedWords = (words: string[], sentence: string) => (
+    <div className="flex flex-wrap gap-2">
+      {words.map(word => (
+        <button
+          key={word}
+          onClick={() => handleToggleWord(word, sentence)}
+          disabled={loadingWord !== null}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white border border-gray-200 text-sm font-medium text-slate-700 hover:border-yellow-300 hover:bg-yellow-50 transition-all disabled:opacity-60"
+          title={t.dictation.saveWord}
+        >
+          {loadingWord === word ? (
+            <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+          ) : findSaved(word) ? (
+            <BookmarkCheck className="w-4 h-4 text-yellow-500" />
+          ) : (
+            <BookmarkPlus className="w-4 h-4 text-gray-400" />
+          )}
+          {word}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderEntry = (entry: DictationEntry) => (
+    <div className="space-y-3">
+      <div className="flex gap-2 text-xs font-bold">
+        <span className={`px-2 py-0.5 rounded ${scoreClass(entry.wordAccuracy)}`}>{t.dictation.words} {entry.wordAccuracy}%</span>
+        <span className={`px-2 py-0.5 rounded ${scoreClass(entry.charAccuracy)}`}>{t.dictation.characters} {entry.charAccuracy}%</span>
+      </div>
+      <p className="text-gray-900 font-serif leading-relaxed">{renderDiff(diffDictation(entry.sentence, entry.typed))}</p>
+      <p className="text-sm text-gray-500 font-serif">{entry.sentence}</p>
+      {entry.missedWords.length > 0 && (
+        <div>
+          <span className="block text-xs font-black text-gray-400 uppercase tracking-wider mb-2">{t.dictation.missedWords}</span>
+          {renderMissedWords(entry.missedWords, entry.sentence)}
+        </div>
+      )}
+    </div>
+  );
+
+  const score = dictationScore(entries);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-50 flex flex-col font-sans text-slate-900">
+      <header className="bg-white border-b border-gray-100 px-4 py-3 md:px-6 md:py-4 flex items-center justify-between shrink-0 h-16">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="bg-blue-50 text-blue-600 p-2 rounded-lg">
+            <Headphones className="w-5 h-5" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="font-bold text-gray-800 text-lg truncate max-w-xs md:max-w-md">{t.dictation.title}</h1>
+            <p className="text-xs text-gray-400 truncate">{session.title}</p>
+          </div>
+        </div>
+        <button onClick={onExit} className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <div className="p-4 md:p-10 max-w-2xl mx-auto">
+          {!isSpeechSupported() && !showResults ? (
+            <div className="bg-white rounded-2xl border border-gray-100 p-8 text-center text-gray-500">{t.dictation.notSupported}</div>
+          ) : showResults ? (
+            <div className="space-y-6 animate-in fade-in">
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 text-center">
+                <Trophy className="w-10 h-10 text-yellow-500 mx-auto mb-3" />
+                <h2 className="text-xl font-bold text-gray-900 mb-1">{t.dictation.results}</h2>
+                <p className="text-gray-500 text-sm">{t.dictation.score}</p>
+                <div className={`inline-block mt-2 text-3xl font-black px-4 py-1 rounded-xl ${scoreClass(score)}`}>{score}</div>
+              </div>
+
+              {entries.map((entry, i) => entry && (
+                <div key={i} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                  <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">{t.dictation.sentenceOf(i + 1, sentences.length)}</span>
+                  {renderEntry(entry)}
+                </div>
+              ))}
+
+              <div className="flex gap-3 pt-2">
+                <button onClick={onExit} className="flex-1 py-4 font-bold text-gray-600 hover:bg-white hover:shadow rounded-xl transition-all border border-gray-200">
+                  {t.common.cancel}
+                </button>
+                {onFinish && (
+                  <button onClick={handleSave} className="flex-1 py-4 bg-slate-900 hover:bg-black text-white font-bold rounded-xl shadow-lg transition-all">
+                    {t.dictation.saveToHistory}
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between text-xs font-bold text-gray-400 uppercase tracking-widest">
+                <span>{t.dictation.sentenceOf(index + 1, sentences.length)}</span>
+                <span>{t.dictation.listenHint}</span>
+              </div>
+              <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${(index / sentences.length) * 100}%` }} />
+              </div>
+
+              <div className="flex justify-center">
+                <button
+                  onClick={() => play(sentences[index])}
+                  className={`w-20 h-20 rounded-full flex items-center justify-center shadow-lg transition-all hover:scale-105 ${isPlaying ? 'bg-blue-600 text-white' : 'bg-white text-blue-600 border border-blue-100'}`}
+                  title={current ? t.dictation.replay : t.dictation.play}
+                >
+                  <Volume2 className={`w-8 h-8 ${isPlaying ? 'animate-pulse' : ''}`} />
+                </button>
+              </div>
+
+              <textarea
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={t.dictation.placeholder}
+                readOnly={!!current} // Enter still moves on once checked
+                autoFocus
+                className={`w-full h-32 p-4 rounded-xl border border-gray-200 shadow-sm focus:ring-4 focus:ring-blue-100 focus:border-blue-400 outline-none resize-none text-lg leading-relaxed text-gray-800 placeholder:text-gray-300 transition-all font-serif ${current ? 'bg-gray-50' : 'bg-white'}`}
+              />
+
+              {current && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 animate-in fade-in slide-in-from-bottom-2">
+                  {renderEntry(current)}
+                </div>
+              )}
+
+              <button
+                onClick={current ? handleNext : handleCheck}
+                disabled={!current && !typed.trim()}
+                className="w-full bg-slate-900 hover:bg-black disabled:opacity-50 text-white py-4 rounded-xl font-bold shadow-xl transition-all flex items-center justify-center gap-3"
+              >
+                {current ? (
+                  <>{isLast ? t.dictation.seeResults : t.dictation.next} <ArrowRight className="w-5 h-5" /></>
+                ) : (
+                  <><CheckCircle className="w-5 h-5" /> {t.dictation.check}</>
+                )}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictionaryMode, DictionarySettings, DEFAULT_DICTIONARY_SETTINGS } from '../types';
+import { getDictionarySettings, saveDictionarySettings, parseDictionary, importDictionary, removeImportedDictionary, countImportedEntries } from '../services/dictionary';
+import { BookOpen, Upload, Loader2, Trash2 } from 'lucide-react';
+
+const MODE_LABELS: Record<DictionaryMode, string> = {
+  'first': 'Dictionary first',
+  'fallback': 'When AI fails',
+  'off': 'Off'
+};
+
+const MODE_HINTS: Record<DictionaryMode, string> = {
+  'first': 'Words found in the dictionary are answered instantly and cost no tokens. Use the ✨ button in the popover to ask the AI for the meaning in context.',
+  'fallback': 'Words are explained by the AI; the dictionary answers when there is no API key, no network or the server fails.',
+  'off': 'Every lookup goes to the AI.'
+};
+
+// Offline English–Vietnamese dictionary: lookup mode and an optional imported dictionary file.
+// Changes apply immediately, like the backup panel.
+export const DictionaryPanel: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [settings, setSettings] = useState<DictionarySettings>(DEFAULT_DICTIONARY_SETTINGS);
+  const [importedCount, setImportedCount] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    getDictionarySettings().then(setSettings);
+    countImportedEntries().then(setImportedCount).catch(() => setImportedCount(0));
+  }, []);
+
+  const handleMode = async (mode: DictionaryMode) => {
+    const next = { ...settings, mode };
+    setSettings(next);
+    try {
+      await saveDictionarySettings(next);
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Failed to save dictionary settings");
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const entries = parseDictionary(await file.text());
+      if (!entries.length) throw new Error("No dictionary entries found. Use a JSON list, a StarDict tab file (word<TAB>meaning) or an \"@word /ipa/\" text dictionary.");
+      setImportedCount(await importDictionary(entries, file.name));
+      setSettings(await getDictionarySettings());
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Could not read dictionary file");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove the imported dictionary (${importedCount.toLocaleString()} words)? The built-in word list stays available.`)) return;
+    setIsBusy(true);
+    try {
+      await removeImportedDictionary();
+      setImportedCount(0);
+      setSettings(await getDictionarySettings());
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Failed to remove the dictionary");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-1">
+          <BookOpen className="w-4 h-4 text-gray-400" /> Offline Dictionary
+      </label>
+      <div className="grid grid-cols-3 gap-2 mb-2">
+          {(Object.keys(MODE_LABELS) as DictionaryMode[]).map(mode => (
+              <button
+                  key={mode}
+                  onClick={() => handleMode(mode)}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold border transition-all
+                      ${settings.mode === mode ? 'bg-blue-600 text-white border-blue-600 shadow' : 'bg-white text-gray-600 border-gray-200 hover:border-blue-300'}
+                  `}
+              >
+                  {MODE_LABELS[mode]}
+              </button>
+          ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+          {MODE_HINTS[settings.mode]} Used when translating English with Vietnamese as your native language.
+      </p>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-xl p-3 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+              {settings.customName && importedCount > 0 ? (
+                  <>
+                      <p className="text-sm font-bold text-gray-800 truncate">{settings.customName}</p>
+                      <p className="text-xs text-gray-500">{importedCount.toLocaleString()} words • checked before the built-in list</p>
+                  </>
+              ) : (
+                  <>
+                      <p className="text-sm font-bold text-gray-800">Built-in word list</p>
+                      <p className="text-xs text-gray-500">Common words only. Import a full dictionary (JSON, StarDict tab file or "@word" text) for better coverage.</p>
+                  </>
+              )}
+          </div>
+          <div className="flex gap-1 shrink-0">
+              {settings.customName && importedCount > 0 && (
+                  <button
+                      onClick={handleRemove}
+                      disabled={isBusy}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40"
+                      title="Remove imported dictionary"
+                  >
+                      <Trash2 className="w-4 h-4" />
+                  </button>
+              )}
+              <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isBusy}
+                  className="py-2 px-3 rounded-lg border border-gray-200 bg-white text-xs font-bold text-gray-700 hover:border-green-300 hover:text-green-600 disabled:opacity-50 flex items-center gap-1.5 transition-all"
+              >
+                  {isBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />} Import
+              </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".json,.txt,.tab,.dict,application/json,text/plain" className="hidden" onChange={handleFileChosen} />
+      </div>
+    </div>
+  );
+};
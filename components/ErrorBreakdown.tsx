@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { TranslationError, ErrorSeverity, LanguageSettings } from '../types';
+import { highlightSpans } from '../services/errorHighlights';
+import { getStrings } from '../services/i18n';
+import { AlertTriangle } from 'lucide-react';
+
+interface ErrorBreakdownProps {
+  source: string;
+  translation: string;
+  errors: TranslationError[];
+  language: LanguageSettings;
+}
+
+const SEVERITY_STYLES: Record<ErrorSeverity, { mark: string; badge: string }> = {
+  critical: { mark: 'bg-red-100 decoration-red-500', badge: 'bg-red-100 text-red-700' },
+  major: { mark: 'bg-orange-100 decoration-orange-500', badge: 'bg-orange-100 text-orange-700' },
+  minor: { mark: 'bg-yellow-100 decoration-yellow-500', badge: 'bg-yellow-100 text-yellow-700' }
+};
+
+// Tagged mistakes, highlighted in the original and in the learner's translation.
+// Hovering or tapping a mistake (in either text or in the list) picks out its pair.
+export const ErrorBreakdown: React.FC<ErrorBreakdownProps> = ({ source, translation, errors, language }) => {
+  const t = getStrings(language);
+  const [active, setActive] = useState<number | null>(null);
+
+  const renderText = (text: string, spans: string[]) => highlightSpans(text, spans).map((segment, idx) => {
+    if (segment.errorIndex === null) return <React.Fragment key={idx}>{segment.text}</React.Fragment>;
+    const errorIndex = segment.errorIndex;
+    const error = errors[errorIndex];
+    return (
+      <mark
+        key={idx}
+        className={`rounded px-0.5 underline decoration-2 underline-offset-4 cursor-pointer transition-all text-inherit ${SEVERITY_STYLES[error.severity].mark} ${active === errorIndex ? 'ring-2 ring-slate-900' : ''}`}
+        onMouseEnter={() => setActive(errorIndex)}
+        onMouseLeave={() => setActive(null)}
+        onClick={() => setActive(active === errorIndex ? null : errorIndex)}
+        title={`${t.mistakes.categories[error.category]}: ${error.suggestion}`}
+      >
+        {segment.text}
+      </mark>
+    );
+  });
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+      <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-orange-500" />
+        {t.mistakes.title(errors.length)}
+      </h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6 text-sm leading-relaxed font-serif">
+        <div className="bg-slate-50 rounded-xl p-4">
+          <span className="block text-xs font-black text-blue-600 uppercase mb-2 font-sans">{t.mistakes.original}</span>
+          <p className="text-gray-800 whitespace-pre-wrap">{renderText(source, errors.map(e => e.sourceSpan))}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-4">
+          <span className="block text-xs font-black text-green-600 uppercase mb-2 font-sans">{t.practice.yourTranslation}</span>
+          <p className="text-gray-800 whitespace-pre-wrap">{renderText(translation, errors.map(e => e.userSpan))}</p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {errors.map((error, idx) => (
+          <li
+            key={idx}
+            className={`p-3 rounded-xl border transition-all ${active === idx ? 'border-slate-900 bg-slate-50' : 'border-gray-100'}`}
+            onMouseEnter={() => setActive(idx)}
+            onMouseLeave={() => setActive(null)}
+          >
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-900 text-white px-1.5 py-0.5 rounded">{t.mistakes.categories[error.category]}</span>
+              <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${SEVERITY_STYLES[error.severity].badge}`}>{t.mistakes.severities[error.severity]}</span>
+            </div>
+            <p className="text-sm font-serif">
+              {error.userSpan
+                ? <span className="text-red-600 line-through decoration-red-300">{error.userSpan}</span>
+                : <span className="text-gray-400 italic font-sans text-xs">{t.mistakes.missing}</span>}
+              {error.suggestion && <> <span className="text-gray-300">→</span> <span className="text-green-700 font-medium">{error.suggestion}</span></>}
+            </p>
+            {error.sourceSpan && <p className="text-xs text-gray-400 mt-1">“{error.sourceSpan}”</p>}
+            {error.explanation && <p className="text-xs text-gray-600 mt-1">{error.explanation}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,7 +1,12 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { VocabularyItem, TokenUsage } from '../types';
-import { lookupWordContext } from '../services/aiService';
-import { X, Bookmark, BookmarkCheck, Loader2, Sparkles } from 'lucide-react';
+import { VocabularyItem, TokenUsage, TranslationDirection, NativeLanguage, LanguageSettings } from '../types';
+import { lookupWordCached, isAbortError, CacheHit, LookupSource } from '../services/aiService';
+import { segmentSentences, sentenceAt } from '../services/segmenter';
+import { createLemmaIndex, sameLemma, normalizeWord } from '../services/lemmatizer';
+import { createPhraseMatcher, PhraseMatch } from '../services/phraseMatcher';
+import { getStrings } from '../services/i18n';
+import { SpeakButton } from './SpeakButton';
+import { X, Bookmark, BookmarkCheck, Loader2, Sparkles, Volume2, RefreshCw, Zap, BookOpen } from 'lucide-react';
 
 interface InteractiveTextProps {
   text: string;
@@ -9,7 +14,16 @@ interface InteractiveTextProps {
   savedWords: VocabularyItem[];
   onToggleSave: (word: VocabularyItem) => void;
   onTokenUsage?: (usage: TokenUsage) => void;
+  // Cost the lookup cache avoided
+  onTokensSaved?: (usage: TokenUsage) => void;
   viewMode?: 'PARAGRAPH' | 'SENTENCE';
+  direction?: TranslationDirection;
+  nativeLanguage?: NativeLanguage;
+  // Read-aloud: locale of the text, the word being spoken (offsets into text) and per-sentence playback
+  speechLocale?: string;
+  spokenRange?: { start: number; end: number } | null;
+  onSpeakRange?: (start: number, end: number) => void;
+  language: LanguageSettings;
 }
 
 export const InteractiveText: React.FC<InteractiveTextProps> = ({ 
@@ -18,25 +32,47 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
   savedWords,
   onToggleSave,
   onTokenUsage,
-  viewMode = 'PARAGRAPH'
+  onTokensSaved,
+  viewMode = 'PARAGRAPH',
+  direction = 'en-vi',
+  nativeLanguage,
+  speechLocale,
+  spokenRange,
+  onSpeakRange,
+  language
 }) => {
+  const t = getStrings(language);
   const [selectedWord, setSelectedWord] = useState<VocabularyItem | null>(null);
   const [loadingWord, setLoadingWord] = useState<string | null>(null);
   const [popoverPosition, setPopoverPosition] = useState<{ x: number, y: number } | null>(null);
+  // Where the shown lookup came from; null for the session vocabulary
+  const [lookupOrigin, setLookupOrigin] = useState<{ source: LookupSource; cached?: CacheHit } | null>(null);
   
   // Selection State
   const [selection, setSelection] = useState<{ text: string; x: number; y: number } | null>(null);
   
   const containerRef = useRef<HTMLDivElement>(null);
+  const lookupAbortRef = useRef<AbortController | null>(null);
 
-  // Normalize vocabulary for easier lookup
-  const vocabMap = useMemo(() => {
-    const map = new Map<string, VocabularyItem>();
-    vocabulary.forEach(item => {
-      map.set(item.word.toLowerCase(), item);
-    });
-    return map;
-  }, [vocabulary]);
+  // Abort any in-flight lookup; its tokens are never reported
+  const cancelLookup = () => {
+    lookupAbortRef.current?.abort();
+    lookupAbortRef.current = null;
+    setLoadingWord(null);
+  };
+
+  useEffect(() => {
+    return () => lookupAbortRef.current?.abort();
+  }, []);
+
+  // Vocabulary and saved words by lemma, so "running" and "ran" find "run"
+  const vocabIndex = useMemo(() => createLemmaIndex(vocabulary, item => item.word), [vocabulary]);
+  const savedIndex = useMemo(() => createLemmaIndex(savedWords, item => item.word), [savedWords]);
+  // Multi-word entries of the session and the deck; the session's explanation wins
+  const phraseMatcher = useMemo(() => {
+    const vocabWords = new Set(vocabulary.map(item => normalizeWord(item.word)));
+    return createPhraseMatcher([...vocabulary, ...savedWords.filter(item => !vocabWords.has(normalizeWord(item.word)))], item => item.word);
+  }, [vocabulary, savedWords]);
 
   // Handle outside click
   useEffect(() => {
@@ -45,6 +81,9 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
       if (target.closest('.vocab-popover') || target.closest('.selection-popup')) return;
 
       if (containerRef.current && !containerRef.current.contains(target)) {
+        lookupAbortRef.current?.abort();
+        lookupAbortRef.current = null;
+        setLoadingWord(null);
         setSelectedWord(null);
         setSelection(null);
       }
@@ -101,19 +140,16 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
     } as any, true);
   };
 
-  // Helper to find the sentence containing the word index
-  const findSentence = (fullText: string, targetWord: string): string => {
-      // Simple sentence splitter
-      const sentences = fullText.match(/[^.!?]+[.!?]+/g) || [fullText];
-      for (const sentence of sentences) {
-          if (sentence.toLowerCase().includes(targetWord.toLowerCase())) {
-              return sentence.trim();
-          }
-      }
-      return "";
+  // Sentence around a clicked word; without its offset (a selection), the first sentence containing it
+  const findSentence = (fullText: string, targetWord: string, offset?: number): string => {
+      if (offset !== undefined) return sentenceAt(fullText, offset)?.text.trim() || "";
+      const target = targetWord.toLowerCase();
+      const found = segmentSentences(fullText).find(sentence => sentence.text.toLowerCase().includes(target));
+      return found ? found.text.trim() : "";
   };
 
-  const handleWordClick = async (clickedText: string, event: React.MouseEvent, isManual = false) => {
+  // offset: where the clicked word starts in the text; entry: the vocabulary item a matched phrase stands for
+  const handleWordClick = async (clickedText: string, event: React.MouseEvent, isManual = false, offset?: number, entry?: VocabularyItem) => {
     if(!isManual) event.stopPropagation();
     
     // Position logic
@@ -132,49 +168,85 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
     const cleanText = clickedText.trim().replace(/[.,!?;:"()]+/g, '').toLowerCase();
     
     // Extract context sentence
-    const currentContext = findSentence(text, clickedText);
+    const currentContext = findSentence(text, clickedText, offset);
+
+    // A new click supersedes any lookup still in flight
+    lookupAbortRef.current?.abort();
+    lookupAbortRef.current = null;
 
     // 1. Check pre-fetched vocabulary
-    if (vocabMap.has(cleanText)) {
-      const cached = vocabMap.get(cleanText)!;
+    const known = entry || vocabIndex.find(cleanText);
+    if (known) {
+      const cached = known;
       // Inject context if missing
+      setLookupOrigin(null);
       setSelectedWord({ ...cached, context: cached.context || currentContext });
       return;
     }
 
-    // 2. Fetch
+    // 2. Lookup cache, then the model
+    await runLookup(clickedText, currentContext);
+  };
+
+  const runLookup = async (clickedText: string, currentContext: string, forceRefresh = false) => {
+    const controller = new AbortController();
+    lookupAbortRef.current = controller;
     setLoadingWord(clickedText);
     setSelectedWord(null);
     try {
-      const result = await lookupWordContext(clickedText, text);
+      const { usage, savedUsage, cached, source, ...result } = await lookupWordCached(clickedText, text, { signal: controller.signal, direction, nativeLanguage, sentence: currentContext, forceRefresh });
       // Inject context
-      const resultWithContext = { ...result, context: currentContext };
-      setSelectedWord(resultWithContext);
-      
-      if (onTokenUsage && result.usage) {
-          onTokenUsage(result.usage);
+      setSelectedWord({ ...result, context: currentContext });
+      setLookupOrigin({ source, cached });
+
+      if (cached) {
+          if (onTokensSaved && savedUsage) onTokensSaved(savedUsage);
+      } else if (onTokenUsage && usage) {
+          onTokenUsage(usage);
       }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Lookup failed", err);
+      setLookupOrigin(null);
       setSelectedWord({
         word: clickedText,
-        definition: "Unable to translate. Check connection.",
-        translation: "Lỗi",
+        definition: t.lookup.failed,
+        translation: t.lookup.error,
         type: "Unknown",
         context: currentContext
       });
     } finally {
-      setLoadingWord(null);
+      if (lookupAbortRef.current === controller) {
+        lookupAbortRef.current = null;
+        setLoadingWord(null);
+      }
     }
   };
 
-  const isSaved = (item: VocabularyItem) => {
-    return savedWords.some(w => w.word === item.word);
+  const isSaved = (item: VocabularyItem) => !!savedIndex.find(item.word);
+
+  // The saved card when it is filed under another form ("run" for "running")
+  const savedAsOtherForm = (item: VocabularyItem) => {
+    const saved = savedIndex.find(item.word);
+    return saved && normalizeWord(saved.word) !== normalizeWord(item.word) ? saved : undefined;
   };
 
-  const renderTextSegment = (segment: string, idx: number) => {
-    const tokens = segment.split(/([a-zA-ZÀ-ÿ0-9'-]+)/g);
+  const isWordToken = (token: string) => /[\p{L}\p{N}]/u.test(token);
+
+  const renderTextSegment = (segment: string, segmentStart: number) => {
+    // Unicode classes so Vietnamese letters (đ, ư, ơ, ạ...) stay inside their word
+    const tokens = segment.split(/([\p{L}\p{M}\p{N}'-]+)/gu);
     const elements: React.ReactNode[] = [];
+
+    // Offset of each token in the full text, for the read-aloud highlight
+    const tokenStarts: number[] = [];
+    tokens.reduce((offset, token) => { tokenStarts.push(offset); return offset + token.length; }, segmentStart);
+    const isSpoken = (from: number, to: number) =>
+      !!spokenRange && tokenStarts[from] < spokenRange.end && tokenStarts[to] + tokens[to].length > spokenRange.start;
+    const spokenClass = 'bg-amber-200 text-slate-900';
+
+    const phraseAt = new Map<number, PhraseMatch<VocabularyItem>>();
+    phraseMatcher.match(tokens).forEach(match => match.tokens.forEach(token => phraseAt.set(token, match)));
     
     for (let i = 0; i < tokens.length; i++) {
       const token = tokens[i];
@@ -183,70 +255,44 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
         continue;
       }
       
-      if (!/[a-zA-Z0-9]/.test(token)) {
+      if (!isWordToken(token)) {
         elements.push(<span key={i} className="text-gray-600">{token}</span>);
         continue;
       }
 
-      // Phrase Detection
-      let matchFound = false;
-      for (let len = 4; len >= 2; len--) {
-        let phraseParts = [token];
-        let nextTokenIdx = i + 1;
-        
-        while (phraseParts.length < len && nextTokenIdx < tokens.length) {
-          const nextTok = tokens[nextTokenIdx];
-          if (/[a-zA-Z0-9]/.test(nextTok)) {
-            phraseParts.push(nextTok);
-          }
-          nextTokenIdx++;
-        }
-
-        const phraseStr = phraseParts.join(" ").toLowerCase(); 
-
-        if (vocabMap.has(phraseStr)) {
-          let displayStr = "";
-          let tempIdx = i;
-          let wordsFound = 0;
-          while (wordsFound < len && tempIdx < tokens.length) {
-             displayStr += tokens[tempIdx];
-             if (/[a-zA-Z0-9]/.test(tokens[tempIdx])) {
-               wordsFound++;
-             }
-             tempIdx++;
-          }
-
-          elements.push(
-            <span
-              key={`phrase-${i}`}
-              onClick={(e) => handleWordClick(phraseStr, e)}
-              className="cursor-pointer bg-blue-50 text-blue-700 border-b border-blue-300 hover:bg-blue-100 rounded px-1 mx-0.5 transition-all"
-            >
-              {displayStr}
-            </span>
-          );
-          
-          i = tempIdx - 1; 
-          matchFound = true;
-          break;
-        }
+      // Matched phrase: its words are drawn together, words in a gap ("turn [the lights] off") stay on their own
+      const phrase = phraseAt.get(i);
+      if (phrase) {
+        let last = i;
+        while (phraseAt.get(last + 2) === phrase && phrase.tokens.includes(last + 2)) last += 2;
+        elements.push(
+          <span
+            key={`phrase-${i}`}
+            onClick={(e) => handleWordClick(tokens.slice(i, last + 1).join(''), e, false, tokenStarts[i], phrase.item)}
+            className={`cursor-pointer bg-blue-50 text-blue-700 border-b border-blue-300 hover:bg-blue-100 rounded px-1 mx-0.5 transition-all ${isSpoken(i, last) ? spokenClass : ''}`}
+            title={phrase.item.word}
+          >
+            {tokens.slice(i, last + 1).join('')}
+          </span>
+        );
+        i = last;
+        continue;
       }
 
-      if (matchFound) continue;
-
       const cleanToken = token.toLowerCase();
-      const isVocab = vocabMap.has(cleanToken);
+      const isVocab = !!vocabIndex.find(cleanToken);
 
       elements.push(
         <span
           key={i}
-          onClick={(e) => handleWordClick(token, e)}
+          onClick={(e) => handleWordClick(token, e, false, tokenStarts[i])}
           className={`cursor-pointer transition-colors duration-150 rounded px-0.5 mx-0.5
             ${isVocab 
               ? 'border-b border-dashed border-blue-400 text-blue-900 font-medium hover:bg-blue-100' 
               : 'hover:bg-gray-200 text-gray-800'
             }
-            ${selectedWord?.word.toLowerCase() === cleanToken ? 'bg-yellow-200 !border-yellow-600' : ''}
+            ${selectedWord && sameLemma(selectedWord.word, cleanToken) ? 'bg-yellow-200 !border-yellow-600' : ''}
+            ${isSpoken(i, i) ? spokenClass : ''}
           `}
         >
           {token}
@@ -256,16 +302,16 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
     return elements;
   };
 
-  // Determine text segments based on mode
+  // Determine text segments based on mode, with their offsets in the full text
   const segments = useMemo(() => {
-      if (viewMode === 'SENTENCE') {
-           // Split by sentence delimiters but keep them. 
-           // Simple regex approx: Split by .!? followed by space or end of string.
-           return text.match(/[^.!?]+[.!?]+(\s|$)|[^.!?]+$/g) || [text];
-      } else {
-          // Split by paragraphs
-          return text.split('\n');
-      }
+      if (viewMode === 'SENTENCE') return segmentSentences(text);
+      // Paragraphs
+      let cursor = 0;
+      return text.split('\n').map(part => {
+          const start = cursor;
+          cursor += part.length + 1;
+          return { text: part, start };
+      });
   }, [text, viewMode]);
 
   // Estimate tokens for selection: roughly words + prompt overhead
@@ -286,10 +332,10 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
           >
             <div className="px-3 py-2 flex items-center gap-2 font-bold text-sm">
                 <Sparkles className="w-4 h-4 text-yellow-300" />
-                Translate
+                {t.lookup.translateSelection}
             </div>
             <div className="bg-gray-800 px-3 py-2 flex items-center text-xs text-gray-400 border-l border-gray-700">
-                ~{estimateSelectionCost} tokens
+                {t.lookup.approxTokens(estimateSelectionCost)}
             </div>
           </button>
       )}
@@ -297,14 +343,25 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
       {/* Text Rendering Loop */}
       <div className="space-y-4">
         {segments.map((segment, idx) => {
-            if (!segment.trim()) return null;
+            if (!segment.text.trim()) return null;
             return (
                 <div key={idx} className={`${viewMode === 'SENTENCE' ? 'bg-slate-50 p-4 rounded-xl border border-gray-100' : 'mb-6'}`}>
                     {viewMode === 'SENTENCE' && (
-                        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1 select-none">Sentence {idx + 1}</div>
+                        <div className="flex items-center justify-between mb-1">
+                            <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest select-none">{t.practice.sentenceNumber(idx + 1)}</div>
+                            {onSpeakRange && (
+                                <button
+                                    onClick={() => onSpeakRange(segment.start, segment.start + segment.text.length)}
+                                    className="p-1 text-gray-300 hover:text-blue-600 rounded transition-colors print:hidden"
+                                    title={t.lookup.readSentence}
+                                >
+                                    <Volume2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
                     )}
                     <p className="text-lg md:text-xl leading-9 book-text text-gray-800 text-justify">
-                        {renderTextSegment(segment, idx)}
+                        {renderTextSegment(segment.text, segment.start)}
                     </p>
                 </div>
             );
@@ -324,7 +381,14 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
           {loadingWord ? (
             <div className="p-6 flex items-center justify-center gap-3 text-blue-600 bg-white rounded-xl">
               <Loader2 className="w-5 h-5 animate-spin" />
-              <span className="font-medium">Searching "{loadingWord}"...</span>
+              <span className="font-medium">{t.lookup.searching(loadingWord)}</span>
+              <button
+                onClick={cancelLookup}
+                className="ml-auto p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                title={t.lookup.cancelLookup}
+              >
+                <X className="w-4 h-4" />
+              </button>
             </div>
           ) : selectedWord && (
             <div className="flex flex-col overflow-hidden rounded-xl">
@@ -345,11 +409,56 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
                         /{selectedWord.pronunciation}/
                       </div>
                    )}
-                  <span className="inline-block text-cyan-300 text-xs font-bold uppercase tracking-wider mt-2">
-                    {selectedWord.type}
-                  </span>
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className="inline-block text-cyan-300 text-xs font-bold uppercase tracking-wider">
+                      {selectedWord.type}
+                    </span>
+                    {lookupOrigin?.source === 'dictionary' && (
+                      <span
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider bg-white/10 text-emerald-300 px-1.5 py-0.5 rounded"
+                        title={t.lookup.dictionaryHint}
+                      >
+                        <BookOpen className="w-3 h-3" /> {t.lookup.dictionary}
+                      </span>
+                    )}
+                    {lookupOrigin?.source === 'ai' && (
+                      <span
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider bg-white/10 text-sky-300 px-1.5 py-0.5 rounded"
+                        title={t.lookup.aiHint}
+                      >
+                        <Sparkles className="w-3 h-3" /> {t.lookup.ai}
+                      </span>
+                    )}
+                    {lookupOrigin?.cached && (
+                      <span
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider bg-white/10 text-amber-300 px-1.5 py-0.5 rounded"
+                        title={lookupOrigin.cached === 'exact' ? t.lookup.cachedHint : t.lookup.cachedOtherTextHint}
+                      >
+                        <Zap className="w-3 h-3" /> {lookupOrigin.cached === 'exact' ? t.lookup.cached : t.lookup.cachedOtherText}
+                      </span>
+                    )}
+                  </div>
                 </div>
                 <div className="flex gap-1">
+                  {speechLocale && (
+                    <SpeakButton
+                      text={selectedWord.word}
+                      locale={speechLocale}
+                      className="p-2 hover:bg-white/10 rounded-full text-gray-300"
+                      iconClassName="w-5 h-5"
+                    />
+                  )}
+                  <button
+                    onClick={() => runLookup(selectedWord.word, selectedWord.context || findSentence(text, selectedWord.word), true)}
+                    className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                    title={lookupOrigin?.source === 'dictionary' ? t.lookup.askAi : t.lookup.lookUpAgain}
+                  >
+                    {lookupOrigin?.source === 'dictionary' ? (
+                      <Sparkles className="w-5 h-5 text-gray-300" />
+                    ) : (
+                      <RefreshCw className="w-5 h-5 text-gray-300" />
+                    )}
+                  </button>
                   <button 
                     onClick={() => onToggleSave(selectedWord)}
                     className="p-2 hover:bg-white/10 rounded-full transition-colors"
@@ -367,12 +476,18 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
               </div>
               
               <div className="p-5 bg-white">
+                {savedAsOtherForm(selectedWord) && (
+                  <p className="mb-4 flex items-center gap-1.5 text-xs font-medium text-yellow-800 bg-yellow-50 border border-yellow-100 rounded-lg px-2.5 py-1.5">
+                    <BookmarkCheck className="w-3.5 h-3.5 text-yellow-500 shrink-0" />
+                    {t.lookup.savedAs(savedAsOtherForm(selectedWord)!.word)}
+                  </p>
+                )}
                 <div className="mb-4">
-                  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Định nghĩa</p>
+                  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.lookup.definition}</p>
                   <p className="text-gray-800 font-serif leading-relaxed">{selectedWord.definition}</p>
                 </div>
                 <div>
-                  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Dịch</p>
+                  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.lookup.translation}</p>
                   <p className="text-lg text-blue-700 font-bold">{selectedWord.translation}</p>
                 </div>
               </div>
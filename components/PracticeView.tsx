@@ -1,8 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { PracticeSession, VocabularyItem, EvaluationResult, TokenUsage } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { PracticeSession, VocabularyItem, EvaluationResult, SentenceEvaluation, TokenUsage, LanguageSettings, DictationResult } from '../types';
 import { InteractiveText } from './InteractiveText';
-import { evaluateFullTranslation } from '../services/aiService';
-import { ArrowLeft, CheckCircle, Star, BookOpen, RefreshCw, Trophy, Target, ArrowRight, Download, Eye, BookmarkPlus, BookmarkCheck, Database, X, ChevronUp, Split, AlignLeft } from 'lucide-react';
+import { TranslationDiff } from './TranslationDiff';
+import { SentenceTranslator } from './SentenceTranslator';
+import { ErrorBreakdown } from './ErrorBreakdown';
+import { SpeechControls, PlaybackState } from './SpeechControls';
+import { DictationView } from './DictationView';
+import { VoiceInputButton } from './VoiceInputButton';
+import { splitSentences, aggregateSentenceEvaluations } from '../services/sentences';
+import { evaluateFullTranslation, isAbortError, PartialEvaluation } from '../services/aiService';
+import { getStrings } from '../services/i18n';
+import { speak, pauseSpeaking, resumeSpeaking, sourceLocale, targetLocale } from '../services/speech';
+import { appendTranscript } from '../services/recognition';
+import { createLemmaIndex } from '../services/lemmatizer';
+import { ArrowLeft, CheckCircle, Star, BookOpen, RefreshCw, Trophy, Target, Download, Eye, BookmarkPlus, BookmarkCheck, Database, X, ChevronUp, Split, AlignLeft, Loader2, Headphones } from 'lucide-react';
 
 interface PracticeViewProps {
   session: PracticeSession;
@@ -10,47 +21,55 @@ interface PracticeViewProps {
   onToggleSave: (word: VocabularyItem) => void;
   onExit: () => void;
   onFinishSession: (session: PracticeSession) => void;
+  onFinishDictation: (dictation: DictationResult, lookupUsage: TokenUsage, lookupSavedUsage: TokenUsage) => void;
   readOnly?: boolean;
+  isStreaming?: boolean;
+  language: LanguageSettings;
 }
 
-const DiffView: React.FC<{ user: string; corrected: string }> = ({ user, corrected }) => {
-  return (
-    <div className="flex flex-col gap-4 text-base leading-relaxed">
-      <div className="bg-red-50/50 p-4 rounded-xl border border-red-100">
-        <span className="block text-xs font-black text-red-500 uppercase mb-2">Your Translation</span>
-        <p className="text-gray-800 font-serif">{user}</p>
-      </div>
-      <div className="flex justify-center -my-3 z-10 print:hidden opacity-50">
-        <ArrowRight className="w-5 h-5 rotate-90 text-gray-400" />
-      </div>
-      <div className="bg-green-50/50 p-4 rounded-xl border border-green-100">
-         <span className="block text-xs font-black text-green-600 uppercase mb-2">Suggestion</span>
-         <p className="text-gray-900 font-serif font-medium">{corrected}</p>
-      </div>
-    </div>
-  );
-};
-
 export const PracticeView: React.FC<PracticeViewProps> = ({ 
   session, 
   savedWords, 
   onToggleSave, 
   onExit,
   onFinishSession,
-  readOnly = false
+  onFinishDictation,
+  readOnly = false,
+  isStreaming = false,
+  language
 }) => {
+  // Interface strings follow the current setting; AI calls use the language the session was created with
+  const t = getStrings(language);
   const [translation, setTranslation] = useState(session.userTranslation || '');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [result, setResult] = useState<EvaluationResult | null>(session.evaluation || null);
+  const [partialResult, setPartialResult] = useState<PartialEvaluation | null>(null);
+  const evaluationAbortRef = useRef<AbortController | null>(null);
   const [lookupUsage, setLookupUsage] = useState<TokenUsage>(session.lookupUsage);
-  const [viewMode, setViewMode] = useState<'PARAGRAPH' | 'SENTENCE'>('PARAGRAPH');
+  const [lookupSavedUsage, setLookupSavedUsage] = useState<TokenUsage>(session.lookupSavedUsage || { promptTokens: 0, responseTokens: 0, totalTokens: 0 });
+  const [viewMode, setViewMode] = useState<'PARAGRAPH' | 'SENTENCE'>(session.sentenceEvaluations ? 'SENTENCE' : 'PARAGRAPH');
+  // Sentence-by-sentence mode: one input and one evaluation per source sentence
+  const [translationMode, setTranslationMode] = useState<'FULL' | 'SENTENCE'>(session.sentenceEvaluations ? 'SENTENCE' : 'FULL');
+  const [sentenceEvaluations, setSentenceEvaluations] = useState<SentenceEvaluation[] | undefined>(session.sentenceEvaluations);
   
+  // Read-aloud of the source text; spokenRange is the word being read
+  const speechLocale = sourceLocale(session.direction, session.nativeLanguage);
+  const [playback, setPlayback] = useState<PlaybackState>('idle');
+  const [spokenRange, setSpokenRange] = useState<{ start: number; end: number } | null>(null);
+  const stopSpeechRef = useRef<(() => void) | null>(null);
+
+  // Spoken translation: final phrases go into the textarea, the interim one is previewed below it
+  const [interimTranscript, setInterimTranscript] = useState('');
+
+  // Dictation runs over the same text in an overlay, so the translation draft survives
+  const [showDictation, setShowDictation] = useState(false);
+
   // Mobile Result Sheet State
   const [showResultSheet, setShowResultSheet] = useState(false);
 
-  const isSaved = (word: VocabularyItem) => {
-    return savedWords.some(w => w.word === word.word);
-  };
+  // Any saved form counts: "run" saved marks "running" too
+  const savedIndex = useMemo(() => createLemmaIndex(savedWords, w => w.word), [savedWords]);
+  const isSaved = (word: VocabularyItem) => !!savedIndex.find(word.word);
 
   useEffect(() => {
     if (readOnly && session.evaluation) {
@@ -58,6 +77,38 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
     }
   }, [readOnly, session]);
 
+  // Cancel a pending evaluation and stop reading when leaving the view
+  useEffect(() => {
+    return () => {
+      evaluationAbortRef.current?.abort();
+      stopSpeechRef.current?.();
+    };
+  }, []);
+
+  const stopReading = () => {
+    stopSpeechRef.current?.();
+    stopSpeechRef.current = null;
+    setPlayback('idle');
+    setSpokenRange(null);
+  };
+
+  // Reads session.text[start, end) aloud, highlighting each word as it is spoken
+  const readRange = (start: number, end: number) => {
+    stopReading();
+    setPlayback('playing');
+    const stop = speak(session.text.slice(start, end), {
+      locale: speechLocale,
+      onWord: (wordStart, wordEnd) => setSpokenRange({ start: start + wordStart, end: start + wordEnd }),
+      onEnd: () => {
+        if (stopSpeechRef.current !== stop) return;
+        stopSpeechRef.current = null;
+        setPlayback('idle');
+        setSpokenRange(null);
+      }
+    });
+    stopSpeechRef.current = stop;
+  };
+
   const handleTokenUpdate = (newUsage: TokenUsage) => {
     setLookupUsage(prev => ({
         promptTokens: prev.promptTokens + newUsage.promptTokens,
@@ -66,28 +117,59 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
     }));
   };
 
+  const handleTokensSaved = (saved: TokenUsage) => {
+    setLookupSavedUsage(prev => ({
+        promptTokens: prev.promptTokens + saved.promptTokens,
+        responseTokens: prev.responseTokens + saved.responseTokens,
+        totalTokens: prev.totalTokens + saved.totalTokens
+    }));
+  };
+
   const handleSubmit = async () => {
     if (!translation.trim()) return;
     setIsSubmitting(true);
+    setPartialResult(null);
+    const controller = new AbortController();
+    evaluationAbortRef.current = controller;
     try {
-      const evaluation = await evaluateFullTranslation(session.text, translation);
+      const evaluation = await evaluateFullTranslation(session.text, translation, { signal: controller.signal, direction: session.direction, nativeLanguage: session.nativeLanguage, onPartial: setPartialResult });
       setResult({ ...evaluation, difficultWords: evaluation.difficultWords || [] });
       setShowResultSheet(true); // Open sheet on success
     } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert(error.message || "Evaluation failed");
+      alert(error.message || t.practice.evaluationFailed);
     } finally {
+      evaluationAbortRef.current = null;
       setIsSubmitting(false);
+      setPartialResult(null);
     }
   };
 
+  const sentences = useMemo(() => splitSentences(session.text).map(s => s.trim()).filter(Boolean), [session.text]);
+
+  const handleSentencesComplete = (entries: SentenceEvaluation[]) => {
+    setSentenceEvaluations(entries);
+    setTranslation(entries.map(e => e.userTranslation).join(' '));
+    setResult(aggregateSentenceEvaluations(entries));
+    setShowResultSheet(true);
+  };
+
+  const switchTranslationMode = (mode: 'FULL' | 'SENTENCE') => {
+    setTranslationMode(mode);
+    // Line the source up with the inputs
+    setViewMode(mode === 'SENTENCE' ? 'SENTENCE' : 'PARAGRAPH');
+  };
+
   const handleFinish = () => {
     if (result) {
         onFinishSession({
             ...session,
             userTranslation: translation,
             evaluation: result,
+            sentenceEvaluations: translationMode === 'SENTENCE' ? sentenceEvaluations : undefined,
             lookupUsage: lookupUsage,
+            lookupSavedUsage: lookupSavedUsage,
             evaluationUsage: result.usage
         });
     }
@@ -99,16 +181,21 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
     <div className="space-y-6 pb-10">
       
       <div className="text-center md:hidden">
-          <h2 className="text-xl font-bold text-gray-900 mb-2">Review Results</h2>
-          <p className="text-gray-500 text-sm">Review the correction and new vocabulary below.</p>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t.practice.reviewResults}</h2>
+          <p className="text-gray-500 text-sm">{t.practice.reviewHint}</p>
       </div>
 
+      {/* Tagged mistakes, highlighted in both texts */}
+      {result!.errors && result!.errors.length > 0 && (
+          <ErrorBreakdown source={session.text} translation={translation} errors={result!.errors} language={language} />
+      )}
+
       {/* 1. Improvements */}
-      {result!.keyImprovements.length > 0 && (
+      {result!.keyImprovements?.length > 0 && (
           <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
             <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2">
                 <span className="bg-red-100 text-red-600 w-6 h-6 flex items-center justify-center rounded text-xs">!</span>
-                Key Improvements
+                {t.practice.keyImprovements}
             </h3>
             <ul className="space-y-3">
                 {result!.keyImprovements.map((imp, i) => (
@@ -121,12 +208,37 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
         </div>
       )}
 
+      {/* Per-sentence results (sentence-by-sentence mode) */}
+      {translationMode === 'SENTENCE' && sentenceEvaluations && sentenceEvaluations.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+            <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2">
+                <Split className="w-4 h-4 rotate-90 text-blue-600" />
+                {t.practice.sentenceBySentence}
+            </h3>
+            <div className="space-y-6">
+                {sentenceEvaluations.map((entry, i) => (
+                    <div key={i} className="border-t border-gray-100 pt-4 first:border-0 first:pt-0">
+                        <div className="flex justify-between items-start gap-3 mb-2">
+                            <p className="text-sm text-gray-500 font-serif"><span className="text-gray-300 font-bold mr-2">{i+1}.</span>{entry.source}</p>
+                            {entry.evaluation.score !== undefined && (
+                                <span className={`shrink-0 text-xs font-black px-2 py-0.5 rounded ${entry.evaluation.score >= 80 ? 'bg-green-100 text-green-700' : entry.evaluation.score >= 50 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'}`}>
+                                    {entry.evaluation.score}
+                                </span>
+                            )}
+                        </div>
+                        <TranslationDiff user={entry.userTranslation} corrected={entry.evaluation.correctedTranslation} language={language} />
+                    </div>
+                ))}
+            </div>
+          </div>
+      )}
+
       {/* 2. Advanced Vocab List */}
       {result!.difficultWords && result!.difficultWords.length > 0 && (
           <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
               <div className="px-8 py-4 bg-purple-50 border-b border-purple-100 flex justify-between items-center">
                   <h3 className="font-bold text-purple-900 flex items-center gap-2">
-                      <Star className="w-4 h-4" /> Advanced Vocabulary
+                      <Star className="w-4 h-4" /> {t.practice.advancedVocabulary}
                   </h3>
               </div>
               <div className="divide-y divide-gray-50">
@@ -142,7 +254,7 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
                               </div>
                           </div>
                           <button onClick={() => onToggleSave(word)} className="text-gray-300 hover:text-yellow-500 transition-colors">
-                              {savedWords.some(w => w.word === word.word) ? <BookmarkCheck className="w-5 h-5 text-yellow-500" /> : <BookmarkPlus className="w-5 h-5" />}
+                              {isSaved(word) ? <BookmarkCheck className="w-5 h-5 text-yellow-500" /> : <BookmarkPlus className="w-5 h-5" />}
                           </button>
                       </div>
                   ))}
@@ -154,10 +266,10 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
       {!readOnly && (
           <div className="flex gap-3 pt-4 print:hidden">
                 <button onClick={() => { setResult(null); setShowResultSheet(false); }} className="flex-1 py-4 font-bold text-gray-600 hover:bg-white hover:shadow rounded-xl transition-all border border-gray-200">
-                    Keep Editing
+                    {t.practice.keepEditing}
                 </button>
                 <button onClick={handleFinish} className="flex-1 py-4 bg-slate-900 hover:bg-black text-white font-bold rounded-xl shadow-lg transition-all">
-                    Finish Session
+                    {t.practice.finishSession}
                 </button>
           </div>
       )}
@@ -175,23 +287,47 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
           </button>
           <div className="min-w-0">
             <h1 className="font-bold text-gray-800 text-lg truncate max-w-xs md:max-w-md">{session.title}</h1>
+            {isStreaming && (
+                <div className="flex items-center gap-1 text-xs font-medium text-blue-600">
+                    <Loader2 className="w-3 h-3 animate-spin" /> {t.common.writingStory}
+                </div>
+            )}
           </div>
         </div>
         
         <div className="flex items-center gap-2">
+            <button
+              onClick={() => { stopReading(); setShowDictation(true); }}
+              disabled={isStreaming}
+              className="p-2 rounded-lg bg-gray-100 text-gray-400 hover:text-blue-600 transition-all disabled:opacity-50"
+              title={isStreaming ? t.practice.availableWhenComplete : t.dictation.start}
+            >
+              <Headphones className="w-4 h-4" />
+            </button>
+
+            <SpeechControls
+              locale={speechLocale}
+              state={playback}
+              onPlay={() => readRange(0, session.text.length)}
+              onPause={() => { pauseSpeaking(); setPlayback('paused'); }}
+              onResume={() => { resumeSpeaking(); setPlayback('playing'); }}
+              onStop={stopReading}
+              language={language}
+            />
+
             {/* View Mode Toggle */}
             <div className="flex bg-gray-100 p-1 rounded-lg mr-2">
                 <button 
                     onClick={() => setViewMode('PARAGRAPH')}
                     className={`p-1.5 rounded-md transition-all ${viewMode === 'PARAGRAPH' ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
-                    title="Paragraph View"
+                    title={t.practice.paragraphView}
                 >
                     <AlignLeft className="w-4 h-4" />
                 </button>
                 <button 
                     onClick={() => setViewMode('SENTENCE')}
                     className={`p-1.5 rounded-md transition-all ${viewMode === 'SENTENCE' ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
-                    title="Sentence View"
+                    title={t.practice.sentenceView}
                 >
                     <Split className="w-4 h-4 rotate-90" />
                 </button>
@@ -199,7 +335,7 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
 
             <div className="bg-yellow-50 text-yellow-700 px-3 py-1.5 rounded-full text-xs font-bold border border-yellow-100 flex items-center gap-2 uppercase tracking-wide">
                 <Star className="w-3 h-3 fill-yellow-500 text-yellow-500" />
-                <span className="hidden md:inline">{savedWords.length} Saved</span>
+                <span className="hidden md:inline">{t.practice.saved(savedWords.length)}</span>
                 <span className="md:hidden">{savedWords.length}</span>
             </div>
         </div>
@@ -216,7 +352,7 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
           <div className="p-4 md:p-10 max-w-3xl mx-auto pb-10">
             <div className="mb-4 flex items-center gap-2 text-xs font-black text-blue-600 uppercase tracking-widest bg-blue-50 w-fit px-3 py-1 rounded print:hidden sticky top-0 z-10">
               <BookOpen className="w-3 h-3" />
-              Source Text
+              {t.practice.sourceText}
             </div>
             
             <InteractiveText 
@@ -225,7 +361,14 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
               savedWords={savedWords}
               onToggleSave={onToggleSave}
               onTokenUsage={readOnly ? undefined : handleTokenUpdate}
+              onTokensSaved={readOnly ? undefined : handleTokensSaved}
               viewMode={viewMode}
+              direction={session.direction}
+              nativeLanguage={session.nativeLanguage}
+              speechLocale={speechLocale}
+              spokenRange={spokenRange}
+              onSpeakRange={isStreaming ? undefined : readRange}
+              language={language}
             />
 
             {/* In Mobile Result Mode, Show Diff Comparison here inside the main scroll view */}
@@ -233,9 +376,9 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
                 <div className="mt-8 border-t border-gray-100 pt-8 block md:hidden pb-20">
                     <div className="mb-6 flex items-center gap-2 text-xs font-black text-green-600 uppercase tracking-widest bg-green-50 w-fit px-3 py-1 rounded">
                         <Target className="w-3 h-3" />
-                        Correction
+                        {t.practice.correction}
                     </div>
-                    <DiffView user={translation} corrected={result.correctedTranslation} />
+                    <TranslationDiff user={translation} corrected={result.correctedTranslation} language={language} />
                 </div>
             )}
           </div>
@@ -251,36 +394,116 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
             {/* 1. Writing Mode */}
             {(!result && !readOnly) && (
               <div className="flex flex-col h-full animate-in fade-in duration-500">
-                <div className="mb-2 flex items-center gap-2 text-xs font-black text-green-600 uppercase tracking-widest bg-green-50 w-fit px-3 py-1 rounded">
-                  <Target className="w-3 h-3" />
-                  Your Translation
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-xs font-black text-green-600 uppercase tracking-widest bg-green-50 w-fit px-3 py-1 rounded">
+                    <Target className="w-3 h-3" />
+                    {t.practice.yourTranslation}
+                  </div>
+                  <div className="flex bg-gray-100 p-0.5 rounded-lg text-xs font-bold">
+                    <button
+                      onClick={() => switchTranslationMode('FULL')}
+                      disabled={isSubmitting}
+                      className={`px-2.5 py-1 rounded-md transition-all ${translationMode === 'FULL' ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
+                    >
+                      {t.practice.fullText}
+                    </button>
+                    <button
+                      onClick={() => switchTranslationMode('SENTENCE')}
+                      disabled={isSubmitting || isStreaming}
+                      className={`px-2.5 py-1 rounded-md transition-all disabled:opacity-50 ${translationMode === 'SENTENCE' ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
+                      title={isStreaming ? t.practice.availableWhenComplete : t.practice.oneSentenceAtATime}
+                    >
+                      {t.practice.sentenceBySentence}
+                    </button>
+                  </div>
                 </div>
-                
+
+                {translationMode === 'SENTENCE' ? (
+                  <SentenceTranslator
+                    sentences={sentences}
+                    initial={sentenceEvaluations}
+                    disabled={isStreaming}
+                    direction={session.direction}
+                    nativeLanguage={session.nativeLanguage}
+                    onComplete={handleSentencesComplete}
+                    language={language}
+                  />
+                ) : (
+                <>
                 <div className="flex-1 relative mb-4">
                   <textarea
                     value={translation}
                     onChange={(e) => setTranslation(e.target.value)}
-                    placeholder="Translate the text above..."
-                    className="w-full h-full p-4 rounded-xl border border-gray-200 shadow-sm focus:ring-4 focus:ring-green-100 focus:border-green-400 outline-none resize-none text-base md:text-lg leading-relaxed bg-white text-gray-800 placeholder:text-gray-300 transition-all font-serif"
+                    placeholder={session.direction === 'vi-en' ? t.practice.translateIntoEnglishPlaceholder : t.practice.translatePlaceholder}
+                    className="w-full h-full p-4 pb-14 rounded-xl border border-gray-200 shadow-sm focus:ring-4 focus:ring-green-100 focus:border-green-400 outline-none resize-none text-base md:text-lg leading-relaxed bg-white text-gray-800 placeholder:text-gray-300 transition-all font-serif"
                     disabled={isSubmitting}
                   />
+                  <div className="absolute left-4 right-3 bottom-3 flex items-center justify-end gap-3 pointer-events-none">
+                    {interimTranscript && (
+                      <span className="flex-1 min-w-0 truncate text-gray-400 italic font-serif">{interimTranscript}</span>
+                    )}
+                    <div className="pointer-events-auto">
+                      <VoiceInputButton
+                        locale={targetLocale(session.direction, session.nativeLanguage)}
+                        onFinal={(text) => setTranslation(prev => appendTranscript(prev, text))}
+                        onInterim={setInterimTranscript}
+                        disabled={isSubmitting}
+                        language={language}
+                      />
+                    </div>
+                  </div>
                 </div>
 
-                <button
-                  onClick={handleSubmit}
-                  disabled={!translation.trim() || isSubmitting}
-                  className="w-full bg-slate-900 hover:bg-black disabled:opacity-50 text-white py-3 md:py-4 rounded-xl font-bold shadow-xl transition-all flex items-center justify-center gap-3 shrink-0"
-                >
-                  {isSubmitting ? (
-                    <>
-                      <RefreshCw className="w-5 h-5 animate-spin" /> Checking...
-                    </>
-                  ) : (
-                    <>
-                      <CheckCircle className="w-5 h-5" /> Submit & Check
-                    </>
+                {/* Feedback streaming in while the evaluation is being written */}
+                {isSubmitting && partialResult && !!(partialResult.correctedTranslation || partialResult.keyImprovements?.length) && (
+                  <div className="mb-4 max-h-48 overflow-y-auto bg-white rounded-xl border border-gray-100 shadow-sm p-4 text-sm space-y-3 animate-in fade-in shrink-0">
+                    {partialResult.correctedTranslation && (
+                      <div>
+                        <span className="block text-xs font-black text-green-600 uppercase mb-1">{t.practice.suggestion}</span>
+                        <p className="text-gray-900 font-serif">{partialResult.correctedTranslation}</p>
+                      </div>
+                    )}
+                    {partialResult.keyImprovements && partialResult.keyImprovements.length > 0 && (
+                      <ul className="space-y-1">
+                        {partialResult.keyImprovements.map((imp, i) => (
+                          <li key={i} className="flex gap-2 text-slate-700">
+                            <span className="text-gray-300 font-bold">{i+1}.</span>
+                            {imp}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={handleSubmit}
+                    disabled={!translation.trim() || isSubmitting || isStreaming}
+                    className="flex-1 bg-slate-900 hover:bg-black disabled:opacity-50 text-white py-3 md:py-4 rounded-xl font-bold shadow-xl transition-all flex items-center justify-center gap-3"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <RefreshCw className="w-5 h-5 animate-spin" /> {t.practice.checking}
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle className="w-5 h-5" /> {t.practice.submitCheck}
+                      </>
+                    )}
+                  </button>
+                  {isSubmitting && (
+                    <button
+                      onClick={() => evaluationAbortRef.current?.abort()}
+                      className="px-4 md:px-6 bg-white text-gray-600 hover:text-red-600 hover:bg-red-50 border border-gray-200 rounded-xl font-bold transition-all flex items-center gap-2"
+                      title={t.practice.cancelEvaluation}
+                    >
+                      <X className="w-5 h-5" /> <span className="hidden md:inline">{t.common.cancel}</span>
+                    </button>
                   )}
-                </button>
+                </div>
+                </>
+                )}
               </div>
             )}
 
@@ -291,7 +514,7 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
                     <div className="hidden md:block animate-in slide-in-from-bottom-4 duration-500">
                          {/* Desktop Diff View inside panel */}
                          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 md:p-8 mb-6">
-                            <DiffView user={translation} corrected={result.correctedTranslation} />
+                            <TranslationDiff user={translation} corrected={result.correctedTranslation} language={language} />
                          </div>
                          {renderResultDetails()}
                     </div>
@@ -309,13 +532,24 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
                 >
                     <div className="flex items-center gap-3">
                         <CheckCircle className="w-6 h-6 text-green-400" />
-                        <span className="font-bold">Check Results</span>
+                        <span className="font-bold">{t.practice.checkResults}</span>
                     </div>
-                    <span className="font-bold text-sm bg-white/10 px-3 py-1 rounded-lg flex items-center gap-1">Details <ChevronUp className="w-4 h-4" /></span>
+                    <span className="font-bold text-sm bg-white/10 px-3 py-1 rounded-lg flex items-center gap-1">{t.practice.details} <ChevronUp className="w-4 h-4" /></span>
                 </button>
             </div>
         )}
 
+        {showDictation && (
+            <DictationView
+              session={session}
+              savedWords={savedWords}
+              onToggleSave={onToggleSave}
+              onExit={() => setShowDictation(false)}
+              onFinish={onFinishDictation}
+              language={language}
+            />
+        )}
+
         {/* Mobile Result Bottom Sheet */}
         {showResultSheet && result && (
             <>
@@ -323,7 +557,7 @@ export const PracticeView: React.FC<PracticeViewProps> = ({
                 <div className="fixed bottom-0 left-0 right-0 bg-gray-50 rounded-t-3xl z-50 h-[85vh] md:hidden shadow-2xl flex flex-col animate-in slide-in-from-bottom duration-300">
                      <div className="p-4 bg-white border-b border-gray-100 rounded-t-3xl flex items-center justify-between sticky top-0 shrink-0">
                          <div className="w-12 h-1 bg-gray-200 rounded-full absolute left-1/2 -translate-x-1/2 top-2" />
-                         <span className="font-bold text-gray-900 mt-2 ml-2">Correction</span>
+                         <span className="font-bold text-gray-900 mt-2 ml-2">{t.practice.correction}</span>
                          <button onClick={() => setShowResultSheet(false)} className="p-2 bg-gray-100 rounded-full mt-2">
                              <X className="w-5 h-5" />
                          </button>
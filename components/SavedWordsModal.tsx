@@ -1,6 +1,8 @@
 import React from 'react';
 import { VocabularyItem } from '../types';
-import { X, Trash2, Volume2 } from 'lucide-react';
+import { X, Trash2 } from 'lucide-react';
+import { SpeakButton } from './SpeakButton';
+import { wordLocale } from '../services/speech';
 
 interface SavedWordsModalProps {
   isOpen: boolean;
@@ -40,6 +42,7 @@ export const SavedWordsModal: React.FC<SavedWordsModalProps> = ({ isOpen, onClos
                     <div>
                         <h3 className="font-bold text-lg text-blue-900 flex items-center gap-2">
                             {item.word}
+                            <SpeakButton text={item.word} locale={wordLocale(item.word)} title="Listen" className="text-gray-300 hover:text-blue-600" />
                             {item.cefr && (
                                 <span className={`text-[10px] px-1.5 py-0.5 rounded text-white font-bold
                                     ${['C1', 'C2'].includes(item.cefr) ? 'bg-red-500' : 'bg-green-500'}
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EvaluationResult, SentenceEvaluation, TranslationDirection, NativeLanguage, LanguageSettings } from '../types';
+import { evaluateFullTranslation, isAbortError } from '../services/aiService';
+import { getStrings } from '../services/i18n';
+import { TranslationDiff } from './TranslationDiff';
+import { CheckCircle, RefreshCw, X, ChevronLeft, ChevronRight, Trophy } from 'lucide-react';
+
+interface SentenceTranslatorProps {
+  sentences: string[];
+  // Earlier results for the same sentences (after "Keep Editing")
+  initial?: SentenceEvaluation[];
+  disabled?: boolean;
+  direction?: TranslationDirection;
+  nativeLanguage?: NativeLanguage;
+  onComplete: (entries: SentenceEvaluation[]) => void;
+  language: LanguageSettings;
+}
+
+const scoreColor = (score?: number) =>
+  score === undefined ? 'bg-gray-300' : score >= 80 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-400' : 'bg-red-400';
+
+export const SentenceTranslator: React.FC<SentenceTranslatorProps> = ({ sentences, initial, disabled = false, direction = 'en-vi', nativeLanguage, onComplete, language }) => {
+  const t = getStrings(language);
+  const matchesInitial = !!initial && initial.length === sentences.length && initial.every((e, idx) => e.source === sentences[idx]);
+
+  const [drafts, setDrafts] = useState<string[]>(() => sentences.map((_, idx) => matchesInitial ? initial![idx].userTranslation : ''));
+  const [evaluations, setEvaluations] = useState<(EvaluationResult | undefined)[]>(() => sentences.map((_, idx) => matchesInitial ? initial![idx].evaluation : undefined));
+  const [current, setCurrent] = useState(() => {
+    const firstOpen = matchesInitial ? initial!.findIndex(e => !e.evaluation) : 0;
+    return Math.max(0, firstOpen);
+  });
+  const [isChecking, setIsChecking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel a pending check when leaving
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const evaluatedCount = evaluations.filter(Boolean).length;
+  const allDone = evaluatedCount === sentences.length;
+  const evaluation = evaluations[current];
+  const draft = drafts[current] || '';
+
+  const updateDraft = (value: string) => {
+    setDrafts(prev => prev.map((d, idx) => idx === current ? value : d));
+    // An edited answer needs checking again
+    if (evaluation) setEvaluations(prev => prev.map((e, idx) => idx === current ? undefined : e));
+  };
+
+  const goTo = (idx: number) => {
+    if (idx < 0 || idx >= sentences.length || isChecking) return;
+    setCurrent(idx);
+  };
+
+  // Prefer the next unchecked sentence after this one, then wrap around
+  const goToNextOpen = () => {
+    const after = evaluations.findIndex((e, idx) => !e && idx > current);
+    goTo(after >= 0 ? after : evaluations.findIndex(e => !e));
+  };
+
+  const handleCheck = async () => {
+    if (!draft.trim()) return;
+    const idx = current;
+    setIsChecking(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const result = await evaluateFullTranslation(sentences[idx], draft, { signal: controller.signal, direction, nativeLanguage });
+      setEvaluations(prev => prev.map((e, i) => i === idx ? { ...result, difficultWords: result.difficultWords || [] } : e));
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(error.message || t.practice.evaluationFailed);
+    } finally {
+      abortRef.current = null;
+      setIsChecking(false);
+    }
+  };
+
+  const handleFinish = () => {
+    onComplete(sentences.map((source, idx) => ({
+      source,
+      userTranslation: drafts[idx].trim(),
+      evaluation: evaluations[idx]!
+    })));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Progress */}
+      <div className="mb-4 shrink-0">
+        <div className="flex justify-between items-center text-xs font-bold text-gray-500 mb-2">
+          <span>{t.practice.sentenceOf(current + 1, sentences.length)}</span>
+          <span>{t.practice.checkedCount(evaluatedCount)}</span>
+        </div>
+        <div className="flex gap-1">
+          {sentences.map((_, idx) => (
+            <button
+              key={idx}
+              onClick={() => goTo(idx)}
+              className={`h-2 flex-1 rounded-full transition-all ${scoreColor(evaluations[idx]?.score)} ${evaluations[idx] ? '' : 'opacity-40'} ${idx === current ? 'ring-2 ring-offset-1 ring-slate-900' : ''}`}
+              title={`${t.practice.sentenceNumber(idx + 1)}${evaluations[idx]?.score !== undefined ? ` • ${evaluations[idx]!.score}/100` : ''}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-4 mb-4">
+        {/* Source sentence */}
+        <div className="bg-blue-50/50 border border-blue-100 rounded-xl p-4">
+          <span className="block text-xs font-black text-blue-600 uppercase mb-1">{t.practice.translate}</span>
+          <p className="text-gray-900 font-serif text-lg leading-relaxed">{sentences[current]}</p>
+        </div>
+
+        <textarea
+          value={draft}
+          onChange={e => updateDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              if (evaluation) goToNextOpen();
+              else handleCheck();
+            }
+          }}
+          placeholder={t.practice.sentencePlaceholder}
+          className="w-full h-28 p-4 rounded-xl border border-gray-200 shadow-sm focus:ring-4 focus:ring-green-100 focus:border-green-400 outline-none resize-none text-base md:text-lg leading-relaxed bg-white text-gray-800 placeholder:text-gray-300 transition-all font-serif"
+          disabled={isChecking || disabled}
+        />
+
+        {evaluation && (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 space-y-3 animate-in fade-in">
+            {evaluation.score !== undefined && (
+              <div className="flex items-center gap-2">
+                <span className={`w-2.5 h-2.5 rounded-full ${scoreColor(evaluation.score)}`} />
+                <span className="font-black text-gray-900">{evaluation.score}/100</span>
+              </div>
+            )}
+            <TranslationDiff user={draft} corrected={evaluation.correctedTranslation} language={language} />
+            {evaluation.keyImprovements?.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {evaluation.keyImprovements.map((imp, i) => (
+                  <li key={i} className="flex gap-2 text-slate-700">
+                    <span className="text-gray-300 font-bold">{i+1}.</span>
+                    {imp}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2 shrink-0">
+        <button
+          onClick={() => goTo(current - 1)}
+          disabled={current === 0 || isChecking}
+          className="px-3 bg-white text-gray-600 hover:bg-gray-50 border border-gray-200 rounded-xl disabled:opacity-40"
+          title={t.practice.previousSentence}
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+
+        {isChecking ? (
+          <>
+            <div className="flex-1 bg-slate-900 opacity-50 text-white py-3 md:py-4 rounded-xl font-bold flex items-center justify-center gap-3">
+              <RefreshCw className="w-5 h-5 animate-spin" /> {t.practice.checking}
+            </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 bg-white text-gray-600 hover:text-red-600 hover:bg-red-50 border border-gray-200 rounded-xl font-bold transition-all"
+              title={t.practice.cancelEvaluation}
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </>
+        ) : allDone ? (
+          <button
+            onClick={handleFinish}
+            className="flex-1 bg-green-600 hover:bg-green-700 text-white py-3 md:py-4 rounded-xl font-bold shadow-xl transition-all flex items-center justify-center gap-3"
+          >
+            <Trophy className="w-5 h-5" /> {t.practice.seeOverallResult}
+          </button>
+        ) : evaluation ? (
+          <button
+            onClick={goToNextOpen}
+            className="flex-1 bg-slate-900 hover:bg-black text-white py-3 md:py-4 rounded-xl font-bold shadow-xl transition-all flex items-center justify-center gap-3"
+          >
+            {t.practice.nextSentence} <ChevronRight className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleCheck}
+            disabled={!draft.trim() || disabled}
+            className="flex-1 bg-slate-900 hover:bg-black disabled:opacity-50 text-white py-3 md:py-4 rounded-xl font-bold shadow-xl transition-all flex items-center justify-center gap-3"
+          >
+            <CheckCircle className="w-5 h-5" /> {t.practice.checkSentence}
+          </button>
+        )}
+
+        <button
+          onClick={() => goTo(current + 1)}
+          disabled={current === sentences.length - 1 || isChecking}
+          className="px-3 bg-white text-gray-600 hover:bg-gray-50 border border-gray-200 rounded-xl disabled:opacity-40"
+          title={t.practice.nextSentence}
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,61 +1,88 @@
 import React, { useState, useEffect } from 'react';
-import { PromptConfig, DEFAULT_PROMPTS } from '../types';
-import { X, Save, RotateCcw, Database, Zap } from 'lucide-react';
+import { PromptConfig, DEFAULT_PROMPTS_BY_DIRECTION, TranslationDirection, TRANSLATION_DIRECTIONS, directionLabel, LanguageSettings, DEFAULT_LANGUAGE_SETTINGS, NativeLanguage, NATIVE_LANGUAGES, ProviderConfig, AIProviderId, DEFAULT_PROVIDER_CONFIG, RecognitionConfig, RecognizerId, DEFAULT_RECOGNITION_CONFIG } from '../types';
+import { getProviderConfig, PROVIDER_LABELS } from '../services/providers';
+import { getRecognitionConfig, RECOGNIZER_LABELS } from '../services/recognition';
+import { getLookupCacheStats, clearLookupCache, LookupCacheStats } from '../services/lookupCache';
+import { getSetting, setSetting, estimateStorageBytes, formatBytes } from '../services/storage';
+import { DataBackupPanel } from './DataBackupPanel';
+import { DictionaryPanel } from './DictionaryPanel';
+import { X, Save, RotateCcw, Database, Zap, Server, Languages, Mic, Trash2 } from 'lucide-react';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   totalTokensUsed: number;
+  onDataImported: () => void;
+  onLanguageSaved: (language: LanguageSettings) => void;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, totalTokensUsed }) => {
-  const [apiKey, setApiKey] = useState('');
-  const [prompts, setPrompts] = useState<PromptConfig>(DEFAULT_PROMPTS);
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, totalTokensUsed, onDataImported, onLanguageSaved }) => {
+  const [promptSets, setPromptSets] = useState<Record<TranslationDirection, PromptConfig>>(DEFAULT_PROMPTS_BY_DIRECTION);
+  const [promptDirection, setPromptDirection] = useState<TranslationDirection>('en-vi');
+  // The textareas edit the set for the selected direction
+  const prompts = promptSets[promptDirection];
+  const setPrompts = (next: PromptConfig) => setPromptSets({ ...promptSets, [promptDirection]: next });
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(DEFAULT_PROVIDER_CONFIG);
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(DEFAULT_LANGUAGE_SETTINGS);
+  const [recognitionConfig, setRecognitionConfig] = useState<RecognitionConfig>(DEFAULT_RECOGNITION_CONFIG);
   const [storageSize, setStorageSize] = useState<string>('0 B');
+  const [cacheStats, setCacheStats] = useState<LookupCacheStats>({ entries: 0, hits: 0, tokensSaved: 0 });
+
+  const refreshCacheStats = () => {
+    getLookupCacheStats()
+      .then(setCacheStats)
+      .catch(err => console.error("Failed to read lookup cache", err));
+  };
 
   useEffect(() => {
     if (isOpen) {
-      setApiKey(localStorage.getItem('ds_api_key') || '');
-      const savedPrompts = localStorage.getItem('ds_prompts');
-      if (savedPrompts) {
-        setPrompts(JSON.parse(savedPrompts));
-      }
-      calculateStorage();
+      getProviderConfig().then(setProviderConfig);
+      getRecognitionConfig().then(setRecognitionConfig);
+      getSetting<LanguageSettings>('language').then(saved => setLanguageSettings({ ...DEFAULT_LANGUAGE_SETTINGS, ...saved }));
+      Promise.all([getSetting<PromptConfig>('prompts'), getSetting<PromptConfig>('promptsViEn')]).then(([savedPrompts, savedViEn]) => {
+        setPromptSets({
+          'en-vi': savedPrompts || DEFAULT_PROMPTS_BY_DIRECTION['en-vi'],
+          'vi-en': savedViEn || DEFAULT_PROMPTS_BY_DIRECTION['vi-en']
+        });
+      });
+      estimateStorageBytes()
+        .then(bytes => setStorageSize(formatBytes(bytes)))
+        .catch(() => setStorageSize('0 B'));
+      refreshCacheStats();
     }
   }, [isOpen]);
 
-  const calculateStorage = () => {
-      let totalBytes = 0;
-      const appKeys = ['lf_history', 'lf_saved_words', 'ds_api_key', 'ds_prompts'];
-      
-      appKeys.forEach(key => {
-          const item = localStorage.getItem(key);
-          if (item) {
-              // Approximate byte size (UTF-16 = 2 bytes per char)
-              totalBytes += item.length * 2;
-          }
-      });
-
-      if (totalBytes === 0) {
-          setStorageSize('0 B');
-          return;
-      }
-
-      const k = 1024;
-      const sizes = ['B', 'KB', 'MB', 'GB'];
-      const i = Math.floor(Math.log(totalBytes) / Math.log(k));
-      setStorageSize(parseFloat((totalBytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]);
+  const handleClearCache = async () => {
+    if (!confirm(`Remove all ${cacheStats.entries} cached lookups? Words will be looked up again (and cost tokens) the next time.`)) return;
+    try {
+      await clearLookupCache();
+      refreshCacheStats();
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Failed to clear the lookup cache");
+    }
   };
 
-  const handleSave = () => {
-    localStorage.setItem('ds_api_key', apiKey);
-    localStorage.setItem('ds_prompts', JSON.stringify(prompts));
-    onClose();
+  const handleSave = async () => {
+    try {
+      await Promise.all([
+        setSetting('prompts', promptSets['en-vi']),
+        setSetting('promptsViEn', promptSets['vi-en']),
+        setSetting('provider', providerConfig),
+        setSetting('language', languageSettings),
+        setSetting('recognition', recognitionConfig)
+      ]);
+      onLanguageSaved(languageSettings);
+      onClose();
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Failed to save settings");
+    }
   };
 
   const handleReset = () => {
-    if(confirm("Reset all prompts to default?")) {
-        setPrompts(DEFAULT_PROMPTS);
+    if(confirm(`Reset the ${directionLabel(promptDirection, languageSettings.native)} prompts to default?`)) {
+        setPrompts(DEFAULT_PROMPTS_BY_DIRECTION[promptDirection]);
     }
   };
 
@@ -88,25 +115,228 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                 </div>
             </div>
 
+            {/* Lookup Cache */}
+            <div className="bg-amber-50 p-4 rounded-xl border border-amber-100 flex items-center justify-between gap-4">
+                <div>
+                    <span className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-1 flex items-center gap-1">
+                        <Zap className="w-3 h-3" /> Lookup Cache
+                    </span>
+                    <p className="text-sm text-amber-900">
+                        <span className="font-bold">{cacheStats.entries.toLocaleString()}</span> words cached •{' '}
+                        <span className="font-bold">{cacheStats.hits.toLocaleString()}</span> instant lookups •{' '}
+                        <span className="font-bold">{cacheStats.tokensSaved.toLocaleString()}</span> tokens saved
+                    </p>
+                </div>
+                <button
+                    onClick={handleClearCache}
+                    disabled={cacheStats.entries === 0}
+                    className="shrink-0 p-2 text-amber-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40"
+                    title="Clear lookup cache"
+                >
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            </div>
+
             <hr className="border-gray-100" />
 
-          {/* API Key Section */}
+          {/* AI Provider Section */}
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-1">
+                <Server className="w-4 h-4 text-gray-400" /> AI Provider
+            </label>
+            <div className="grid grid-cols-3 gap-2 mb-4">
+                {(Object.keys(PROVIDER_LABELS) as AIProviderId[]).map(id => (
+                    <button
+                        key={id}
+                        onClick={() => setProviderConfig({ ...providerConfig, provider: id })}
+                        className={`py-2 px-3 rounded-xl text-xs font-bold border transition-all
+                            ${providerConfig.provider === id ? 'bg-blue-600 text-white border-blue-600 shadow' : 'bg-white text-gray-600 border-gray-200 hover:border-blue-300'}
+                        `}
+                    >
+                        {PROVIDER_LABELS[id]}
+                    </button>
+                ))}
+            </div>
+
+            {providerConfig.provider === 'deepseek' && (
+                <div>
+                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">DeepSeek API Key</label>
+                    <input
+                      type="password"
+                      value={providerConfig.deepseekApiKey}
+                      onChange={(e) => setProviderConfig({ ...providerConfig, deepseekApiKey: e.target.value })}
+                      placeholder="sk-..."
+                      className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        Key is stored locally in your browser. Get one at <a href="https://platform.deepseek.com/" target="_blank" className="text-blue-600 underline">platform.deepseek.com</a>.
+                    </p>
+                </div>
+            )}
+
+            {providerConfig.provider === 'gemini' && (
+                <div className="space-y-3">
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Gemini API Key</label>
+                        <input
+                          type="password"
+                          value={providerConfig.geminiApiKey}
+                          onChange={(e) => setProviderConfig({ ...providerConfig, geminiApiKey: e.target.value })}
+                          placeholder="AIza..."
+                          className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Model</label>
+                        <input
+                          value={providerConfig.geminiModel}
+                          onChange={(e) => setProviderConfig({ ...providerConfig, geminiModel: e.target.value })}
+                          className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Key is stored locally in your browser. Get one at <a href="https://aistudio.google.com/" target="_blank" className="text-blue-600 underline">aistudio.google.com</a>.
+                    </p>
+                </div>
+            )}
+
+            {providerConfig.provider === 'openai-compatible' && (
+                <div className="space-y-3">
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Base URL</label>
+                        <input
+                          value={providerConfig.openaiBaseUrl}
+                          onChange={(e) => setProviderConfig({ ...providerConfig, openaiBaseUrl: e.target.value })}
+                          placeholder="http://localhost:11434/v1"
+                          className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Model</label>
+                            <input
+                              value={providerConfig.openaiModel}
+                              onChange={(e) => setProviderConfig({ ...providerConfig, openaiModel: e.target.value })}
+                              placeholder="llama3.1"
+                              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">API Key (Optional)</label>
+                            <input
+                              type="password"
+                              value={providerConfig.openaiApiKey}
+                              onChange={(e) => setProviderConfig({ ...providerConfig, openaiApiKey: e.target.value })}
+                              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Any server exposing <span className="font-mono">/chat/completions</span> (Ollama, LM Studio, vLLM...). The server must allow requests from this page (CORS).
+                    </p>
+                </div>
+            )}
+          </div>
+
+          <hr className="border-gray-100" />
+
+          {/* Speech Input Section */}
           <div>
-            <label className="block text-sm font-bold text-gray-700 mb-2">DeepSeek API Key</label>
-            <input
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="sk-..."
-              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
-            />
+            <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-1">
+                <Mic className="w-4 h-4 text-gray-400" /> Speech Input
+            </label>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+                {(Object.keys(RECOGNIZER_LABELS) as RecognizerId[]).map(id => (
+                    <button
+                        key={id}
+                        onClick={() => setRecognitionConfig({ ...recognitionConfig, recognizer: id })}
+                        className={`py-2 px-3 rounded-xl text-xs font-bold border transition-all
+                            ${recognitionConfig.recognizer === id ? 'bg-blue-600 text-white border-blue-600 shadow' : 'bg-white text-gray-600 border-gray-200 hover:border-blue-300'}
+                        `}
+                    >
+                        {RECOGNIZER_LABELS[id]}
+                    </button>
+                ))}
+            </div>
+
+            {recognitionConfig.recognizer === 'browser' ? (
+                <p className="text-xs text-gray-500">
+                    Uses the browser's built-in speech recognition (Chrome, Edge, Safari). Audio may be sent to the browser vendor's servers.
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Base URL</label>
+                            <input
+                              value={recognitionConfig.whisperBaseUrl}
+                              onChange={(e) => setRecognitionConfig({ ...recognitionConfig, whisperBaseUrl: e.target.value })}
+                              placeholder="http://localhost:8000/v1"
+                              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Model</label>
+                            <input
+                              value={recognitionConfig.whisperModel}
+                              onChange={(e) => setRecognitionConfig({ ...recognitionConfig, whisperModel: e.target.value })}
+                              placeholder="whisper-1"
+                              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Any server exposing <span className="font-mono">/audio/transcriptions</span> (faster-whisper-server, whisper.cpp...). Text appears once you stop recording. The server must allow requests from this page (CORS).
+                    </p>
+                </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+                While dictating, say "comma", "period", "question mark" or "new line" (in Vietnamese: "dấu phẩy", "dấu chấm", "chấm hỏi", "xuống dòng") to insert punctuation.
+            </p>
+          </div>
+
+          <hr className="border-gray-100" />
+
+          {/* Offline Dictionary Section */}
+          <DictionaryPanel />
+
+          <hr className="border-gray-100" />
+
+          {/* Language Section */}
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-1">
+                <Languages className="w-4 h-4 text-gray-400" /> Native Language
+            </label>
+            <select
+              value={languageSettings.native}
+              onChange={(e) => setLanguageSettings({ ...languageSettings, native: e.target.value as NativeLanguage })}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            >
+              {(Object.keys(NATIVE_LANGUAGES) as NativeLanguage[]).map(code => (
+                <option key={code} value={code}>{NATIVE_LANGUAGES[code].name} ({NATIVE_LANGUAGES[code].nativeName})</option>
+              ))}
+            </select>
             <p className="text-xs text-gray-500 mt-1">
-                Key is stored locally in your browser. Get one at <a href="https://platform.deepseek.com/" target="_blank" className="text-blue-600 underline">platform.deepseek.com</a>.
+                Definitions, translations and feedback are written in this language. Past sessions keep the language they were created with.
             </p>
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={languageSettings.localizeInterface}
+                onChange={(e) => setLanguageSettings({ ...languageSettings, localizeInterface: e.target.checked })}
+                className="rounded"
+              />
+              Show the interface in {NATIVE_LANGUAGES[languageSettings.native].nativeName}
+            </label>
           </div>
 
           <hr className="border-gray-100" />
 
+          {/* Backup Section */}
+          <DataBackupPanel onImported={onDataImported} />
+
+          <hr className="border-gray-100" />
+
           {/* Prompts Section */}
           <div className="flex justify-between items-center">
              <h3 className="text-lg font-bold text-gray-800">Prompt Customization</h3>
@@ -114,6 +344,18 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                 <RotateCcw className="w-3 h-3" /> Reset Defaults
              </button>
           </div>
+
+          <div className="flex bg-gray-100 p-1 rounded-lg text-xs font-bold w-fit">
+            {TRANSLATION_DIRECTIONS.map(d => (
+              <button
+                key={d}
+                onClick={() => setPromptDirection(d)}
+                className={`px-3 py-1.5 rounded-md transition-all ${promptDirection === d ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {directionLabel(d, languageSettings.native)}
+              </button>
+            ))}
+          </div>
           
           <div className="space-y-4">
             <div>
@@ -123,7 +365,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                 onChange={(e) => setPrompts({...prompts, generate: e.target.value})}
                 className="w-full h-24 p-3 border border-gray-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none"
               />
-              <div className="text-[10px] text-gray-400 mt-1">Vars: {'{topic}, {difficulty}, {length}'}</div>
+              <div className="text-[10px] text-gray-400 mt-1">Vars: {'{topic}, {difficulty}, {length}, {language}'}</div>
             </div>
 
             <div>
@@ -142,7 +384,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                 onChange={(e) => setPrompts({...prompts, evaluate: e.target.value})}
                 className="w-full h-24 p-3 border border-gray-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-purple-500 outline-none"
               />
-               <div className="text-[10px] text-gray-400 mt-1">Vars: {'{original}, {translation}'}</div>
+               <div className="text-[10px] text-gray-400 mt-1">Vars: {'{original}, {translation}, {language}'}</div>
             </div>
 
             <div>
@@ -152,7 +394,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                 onChange={(e) => setPrompts({...prompts, lookup: e.target.value})}
                 className="w-full h-20 p-3 border border-gray-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-orange-500 outline-none"
               />
-               <div className="text-[10px] text-gray-400 mt-1">Vars: {'{word}, {context}'}</div>
+               <div className="text-[10px] text-gray-400 mt-1">Vars: {'{word}, {context}, {language}'}</div>
             </div>
           </div>
         </div>
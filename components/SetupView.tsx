@@ -1,22 +1,45 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { ContentSource, AIContentConfig, VocabularyItem, PracticeSession, TokenUsage } from '../types';
-import { generatePracticeContent, analyzeCustomText } from '../services/aiService';
-import { BookOpen, Sparkles, Wand2, ArrowRight, Loader2, Clock, ChevronRight, X, Coins, LayoutGrid, Settings, BookMarked, ArrowDown, ArrowUp, Database, Sigma, Dices, Trash2 } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ContentSource, AIContentConfig, VocabularyItem, PracticeSession, TokenUsage, TranslationDirection, TRANSLATION_DIRECTIONS, directionLabel, LanguageSettings } from '../types';
+import { generatePracticeContent, analyzeCustomText, isAbortError } from '../services/aiService';
+import { BookOpen, Sparkles, Wand2, ArrowRight, Loader2, Clock, ChevronRight, X, Coins, LayoutGrid, Settings, BookMarked, ArrowDown, ArrowUp, Database, Sigma, Dices, Trash2, BarChart3, ArrowLeftRight, Headphones, Upload, Link, FileText } from 'lucide-react';
 import { SettingsModal } from './SettingsModal';
+import { estimateStorageBytes, formatBytes } from '../services/storage';
+import { getStrings } from '../services/i18n';
+import { ImportedText, importTextFile, importTextFromUrl, TEXT_IMPORT_ACCEPT } from '../services/importers';
 
 interface SetupViewProps {
-  onStart: (title: string, text: string, vocabulary: VocabularyItem[], usage: TokenUsage) => void;
+  onStart: (title: string, text: string, vocabulary: VocabularyItem[], usage: TokenUsage, direction: TranslationDirection, config?: AIContentConfig) => void;
+  onStreamPreview: (title: string, text: string, cancel: () => void) => void;
+  onStreamFailed: () => void;
   history: PracticeSession[];
   onReview: (session: PracticeSession) => void;
   onDeleteSession: (sessionId: string) => void;
   onOpenVocabulary: () => void;
+  onOpenAnalytics: () => void;
   savedWordsCount: number;
+  onDataImported: () => void;
+  language: LanguageSettings;
+  onLanguageChange: (language: LanguageSettings) => void;
 }
 
-export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview, onDeleteSession, onOpenVocabulary, savedWordsCount }) => {
+// Source → target languages of a past session, e.g. "EN→TH"; plain English → Vietnamese sessions get none
+const SessionLanguageBadge: React.FC<{ session: PracticeSession; className: string }> = ({ session, className }) => {
+  const native = (session.nativeLanguage || 'vi').toUpperCase();
+  if (session.direction !== 'vi-en' && native === 'VI') return null;
+  const label = session.direction === 'vi-en' ? `${native}→EN` : `EN→${native}`;
+  return <span className={`${className} font-bold bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded`} title={directionLabel(session.direction || 'en-vi', session.nativeLanguage)}>{label}</span>;
+};
+
+// Translation score, or word accuracy for dictation runs; undefined while unfinished
+const sessionScore = (session: PracticeSession): number | undefined =>
+  session.dictation ? session.dictation.score : session.evaluation?.score;
+
+export const SetupView: React.FC<SetupViewProps> = ({ onStart, onStreamPreview, onStreamFailed, history, onReview, onDeleteSession, onOpenVocabulary, onOpenAnalytics, savedWordsCount, onDataImported, language, onLanguageChange }) => {
+  const t = getStrings(language);
   const [activeTab, setActiveTab] = useState<ContentSource>(ContentSource.AI_GENERATED);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<string>('');
+  const abortRef = useRef<AbortController | null>(null);
   
   const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
@@ -24,16 +47,26 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
   const [aiConfig, setAiConfig] = useState<AIContentConfig>({
     topic: '',
     difficulty: 'Intermediate',
-    length: 'Medium'
+    length: 'Medium',
+    direction: 'en-vi'
   });
+  // Applies to both AI-generated and custom texts
+  const direction: TranslationDirection = aiConfig.direction || 'en-vi';
 
   const [customText, setCustomText] = useState('');
+  // A file or web page split into parts; the chosen part fills the text box
+  const [imported, setImported] = useState<ImportedText | null>(null);
+  const [selectedPart, setSelectedPart] = useState(0);
+  const [showUrlInput, setShowUrlInput] = useState(false);
+  const [importUrl, setImportUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [storageSize, setStorageSize] = useState<string>('0 B');
 
   // Calculate detailed token stats
   const tokenStats = useMemo(() => {
     let prompt = 0;
     let response = 0;
+    let saved = 0;
     
     history.forEach(session => {
         // Initial Generation/Analysis
@@ -43,6 +76,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
         // Lookups
         prompt += session.lookupUsage?.promptTokens || 0;
         response += session.lookupUsage?.responseTokens || 0;
+        saved += session.lookupSavedUsage?.totalTokens || 0;
         
         // Evaluation
         prompt += session.evaluationUsage?.promptTokens || 0;
@@ -52,48 +86,38 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
     return {
         prompt,
         response,
-        total: prompt + response
+        total: prompt + response,
+        saved
     };
   }, [history]);
 
   // Calculate Storage Size
   useEffect(() => {
-    const calculateStorage = () => {
-        let totalBytes = 0;
-        const appKeys = ['lf_history', 'lf_saved_words', 'ds_api_key', 'ds_prompts'];
-        
-        appKeys.forEach(key => {
-            const item = localStorage.getItem(key);
-            if (item) {
-                // Approximate byte size (UTF-16 = 2 bytes per char)
-                totalBytes += item.length * 2;
-            }
-        });
-
-        if (totalBytes === 0) {
-            setStorageSize('0 B');
-            return;
-        }
-
-        const k = 1024;
-        const sizes = ['B', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(totalBytes) / Math.log(k));
-        setStorageSize(parseFloat((totalBytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]);
-    };
-    calculateStorage();
+    estimateStorageBytes()
+      .then(bytes => setStorageSize(formatBytes(bytes)))
+      .catch(() => setStorageSize('0 B'));
   }, [history, savedWordsCount]);
 
   const handleAiGenerate = async () => {
     if (!aiConfig.topic.trim()) return;
     setIsLoading(true);
-    setLoadingStep('AI is writing your story...');
+    setLoadingStep(t.common.writingStory);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const result = await generatePracticeContent(aiConfig);
-      onStart(result.title, result.text, result.vocabulary, result.usage);
+      const result = await generatePracticeContent(aiConfig, {
+        signal: controller.signal,
+        nativeLanguage: language.native,
+        onPartial: partial => onStreamPreview(partial.title || aiConfig.topic, partial.text, () => controller.abort())
+      });
+      onStart(result.title, result.text, result.vocabulary, result.usage, direction, aiConfig);
     } catch (error: any) {
+      onStreamFailed();
+      if (isAbortError(error)) return;
       console.error(error);
-      alert(error.message || "Failed to generate. Check API Key in Settings.");
+      alert(error.message || t.setup.generateFailed);
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
       setLoadingStep('');
     }
@@ -102,19 +126,74 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
   const handleCustomStart = async () => {
     if (!customText.trim()) return;
     setIsLoading(true);
-    setLoadingStep('Analyzing text...');
+    setLoadingStep(t.setup.analyzing);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const result = await analyzeCustomText(customText);
-      onStart(result.title, result.text, result.vocabulary, result.usage);
+      const result = await analyzeCustomText(customText, { signal: controller.signal, direction, nativeLanguage: language.native });
+      onStart(importedTitle() || result.title, result.text, result.vocabulary, result.usage, direction);
     } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert(error.message || "Failed to analyze. Check API Key in Settings.");
+      alert(error.message || t.setup.analyzeFailed);
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
       setLoadingStep('');
     }
   };
 
+  // Session title for an untouched imported part, e.g. "Moby Dick – Chapter 3 (2/4)"
+  const importedTitle = () => {
+    const part = imported?.parts[selectedPart];
+    if (!imported || !part || part.text !== customText) return undefined;
+    return part.title.startsWith(imported.title) ? part.title : `${imported.title} – ${part.title}`;
+  };
+
+  const selectPart = (source: ImportedText, index: number) => {
+    setImported(source);
+    setSelectedPart(index);
+    setCustomText(source.parts[index].text);
+  };
+
+  const runImport = async (load: (signal: AbortSignal) => Promise<ImportedText>) => {
+    setIsLoading(true);
+    setLoadingStep(t.setup.importing);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      selectPart(await load(controller.signal), 0);
+      setShowUrlInput(false);
+      setImportUrl('');
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(error.message || t.setup.importFailed);
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+      setLoadingStep('');
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) runImport(() => importTextFile(file));
+  };
+
+  const handleImportUrl = () => {
+    const url = importUrl.trim();
+    if (!url) return;
+    runImport(signal => importTextFromUrl(/^https?:\/\//i.test(url) ? url : `https://${url}`, signal));
+  };
+
+  const clearImport = () => {
+    setImported(null);
+    setSelectedPart(0);
+    setCustomText('');
+  };
+
   const handleRandomTopic = () => {
     const topics = [
       "The impact of AI on education",
@@ -157,7 +236,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
           <button 
             onClick={() => setShowSettings(true)}
             className="p-2 bg-white rounded-full text-gray-400 hover:text-gray-700 hover:shadow-md transition-all border border-gray-100 mt-1 md:mt-0"
-            title="Settings"
+            title={t.setup.settings}
           >
               <Settings className="w-5 h-5" />
           </button>
@@ -180,12 +259,12 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                   
                   {/* Row 2: Totals & Storage */}
                   <div className="flex items-center justify-between gap-3 text-[10px] font-bold text-gray-600 leading-none">
-                       <div className="flex items-center gap-1" title="Total Tokens Used">
+                       <div className="flex items-center gap-1" title={tokenStats.saved ? `Total Tokens Used (${formatNumber(tokenStats.saved)} saved by the lookup cache)` : "Total Tokens Used"}>
                           <Sigma className="w-3 h-3 text-gray-400" />
                           <span>{formatNumber(tokenStats.total)}</span>
                       </div>
                       <div className="w-px h-2 bg-gray-200"></div>
-                      <div className="flex items-center gap-1 text-purple-600" title="Storage Usage (IndexedDB/Local)">
+                      <div className="flex items-center gap-1 text-purple-600" title="Storage Usage (IndexedDB)">
                           <Database className="w-3 h-3" />
                           <span>{storageSize}</span>
                       </div>
@@ -193,15 +272,24 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
               </div>
           </div>
 
-          {/* Right: Vocab */}
-          <button 
-            onClick={onOpenVocabulary}
-            className="flex items-center gap-2 px-3 py-2 bg-white rounded-full shadow-sm border border-gray-100 text-gray-600 hover:text-blue-600 hover:shadow-md transition-all font-bold text-xs mt-1 md:mt-0"
-          >
-              <BookMarked className="w-4 h-4 text-yellow-500" />
-              <span className="hidden md:inline">Vocab</span>
-              <span>({savedWordsCount})</span>
-          </button>
+          {/* Right: Progress & Vocab */}
+          <div className="flex items-center gap-2 mt-1 md:mt-0">
+            <button 
+              onClick={onOpenAnalytics}
+              className="p-2 bg-white rounded-full shadow-sm border border-gray-100 text-gray-400 hover:text-blue-600 hover:shadow-md transition-all"
+              title={t.setup.progress}
+            >
+                <BarChart3 className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={onOpenVocabulary}
+              className="flex items-center gap-2 px-3 py-2 bg-white rounded-full shadow-sm border border-gray-100 text-gray-600 hover:text-blue-600 hover:shadow-md transition-all font-bold text-xs"
+            >
+                <BookMarked className="w-4 h-4 text-yellow-500" />
+                <span className="hidden md:inline">{t.setup.vocab}</span>
+                <span>({savedWordsCount})</span>
+            </button>
+          </div>
       </div>
 
       {/* Main Content */}
@@ -213,7 +301,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                     </div>
                     LinguaFlow
                 </h1>
-                <p className="text-gray-500 text-lg">AI-Powered Translation Tutor</p>
+                <p className="text-gray-500 text-lg">{t.setup.tagline}</p>
             </div>
 
             <div className="bg-white rounded-3xl shadow-xl shadow-slate-200/50 border border-white overflow-hidden relative">
@@ -223,6 +311,12 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                 <div className="absolute inset-0 bg-white/95 backdrop-blur-sm z-10 flex flex-col items-center justify-center p-6 text-center animate-in fade-in duration-200">
                 <Loader2 className="w-10 h-10 text-blue-600 animate-spin mb-4" />
                 <p className="text-gray-800 font-medium text-lg">{loadingStep}</p>
+                <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="mt-6 px-5 py-2 text-sm font-bold text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-xl border border-gray-200 transition-colors flex items-center gap-2"
+                >
+                    <X className="w-4 h-4" /> {t.common.cancel}
+                </button>
                 </div>
             )}
 
@@ -234,7 +328,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                     ${activeTab === ContentSource.AI_GENERATED ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}
                 `}
                 >
-                <Sparkles className="w-4 h-4" /> AI Generator
+                <Sparkles className="w-4 h-4" /> {t.setup.aiGenerator}
                 </button>
                 <button
                 onClick={() => setActiveTab(ContentSource.CUSTOM_TEXT)}
@@ -242,19 +336,35 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                     ${activeTab === ContentSource.CUSTOM_TEXT ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}
                 `}
                 >
-                <BookOpen className="w-4 h-4" /> Custom Text
+                <BookOpen className="w-4 h-4" /> {t.setup.customText}
                 </button>
             </div>
 
             <div className="p-6 md:p-10">
+                {/* Translation Direction */}
+                <div className="flex items-center justify-center gap-2 mb-6">
+                    {TRANSLATION_DIRECTIONS.map(d => (
+                        <button
+                        key={d}
+                        onClick={() => setAiConfig({ ...aiConfig, direction: d })}
+                        className={`px-4 py-2 text-xs font-bold rounded-full border transition-all flex items-center gap-1.5
+                            ${direction === d ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-gray-500 border-gray-200 hover:text-gray-700'}
+                        `}
+                        >
+                        {direction === d && <ArrowLeftRight className="w-3 h-3" />}
+                        {directionLabel(d, language.native)}
+                        </button>
+                    ))}
+                </div>
+
                 {activeTab === ContentSource.AI_GENERATED ? (
                 <div className="space-y-6">
                     <div>
-                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Topic</label>
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{t.setup.topic}</label>
                     <div className="relative">
                         <input
                             type="text"
-                            placeholder="e.g., Technology trends in 2025..."
+                            placeholder={t.setup.topicPlaceholder}
                             value={aiConfig.topic}
                             onChange={(e) => setAiConfig({ ...aiConfig, topic: e.target.value })}
                             className="w-full pl-5 pr-14 py-4 rounded-xl bg-gray-50 border border-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all font-medium"
@@ -262,7 +372,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                         <button 
                             onClick={handleRandomTopic}
                             className="absolute right-3 top-1/2 -translate-y-1/2 p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors group"
-                            title="Random Topic"
+                            title={t.setup.randomTopic}
                         >
                             <Dices className="w-5 h-5 group-hover:rotate-180 transition-transform duration-500" />
                         </button>
@@ -271,27 +381,27 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
 
                     <div className="grid grid-cols-2 gap-4">
                     <div>
-                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Level</label>
+                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{t.setup.level}</label>
                         <select
                         value={aiConfig.difficulty}
                         onChange={(e) => setAiConfig({ ...aiConfig, difficulty: e.target.value as any })}
                         className="w-full px-5 py-4 rounded-xl bg-gray-50 border border-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none"
                         >
-                        <option value="Beginner">Beginner</option>
-                        <option value="Intermediate">Intermediate</option>
-                        <option value="Advanced">Advanced</option>
+                        <option value="Beginner">{t.setup.difficulties.Beginner}</option>
+                        <option value="Intermediate">{t.setup.difficulties.Intermediate}</option>
+                        <option value="Advanced">{t.setup.difficulties.Advanced}</option>
                         </select>
                     </div>
                     <div>
-                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Length</label>
+                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{t.setup.length}</label>
                         <select
                         value={aiConfig.length}
                         onChange={(e) => setAiConfig({ ...aiConfig, length: e.target.value as any })}
                         className="w-full px-5 py-4 rounded-xl bg-gray-50 border border-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none"
                         >
-                        <option value="Short">Short</option>
-                        <option value="Medium">Medium</option>
-                        <option value="Long">Long</option>
+                        <option value="Short">{t.setup.lengths.Short}</option>
+                        <option value="Medium">{t.setup.lengths.Medium}</option>
+                        <option value="Long">{t.setup.lengths.Long}</option>
                         </select>
                     </div>
                     </div>
@@ -302,22 +412,97 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                         disabled={!aiConfig.topic || isLoading}
                         className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white py-4 rounded-xl font-bold shadow-lg hover:shadow-blue-500/30 transition-all flex items-center justify-center gap-2 text-lg"
                         >
-                        Generate Content <Wand2 className="w-5 h-5" />
+                        {t.setup.generate} <Wand2 className="w-5 h-5" />
                         </button>
                         <div className="text-center mt-3 text-xs font-medium text-gray-400 flex items-center justify-center gap-1">
                             <Coins className="w-3 h-3" />
-                            Est. Input Tokens: ~{getEstimatedGenTokens()}
+                            {t.setup.estimatedTokens}: ~{getEstimatedGenTokens()}
                         </div>
                     </div>
                 </div>
                 ) : (
                 <div className="space-y-6">
                     <div>
-                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Paste Text</label>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">{t.setup.pasteText}</label>
+                        <div className="flex gap-1">
+                            <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isLoading}
+                            className="px-2.5 py-1 text-xs font-bold text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg flex items-center gap-1 transition-colors disabled:opacity-50"
+                            title={t.setup.importFileHint}
+                            >
+                            <Upload className="w-3.5 h-3.5" /> {t.setup.importFile}
+                            </button>
+                            <button
+                            onClick={() => setShowUrlInput(!showUrlInput)}
+                            disabled={isLoading}
+                            className={`px-2.5 py-1 text-xs font-bold rounded-lg flex items-center gap-1 transition-colors disabled:opacity-50 ${showUrlInput ? 'text-blue-600 bg-blue-50' : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'}`}
+                            >
+                            <Link className="w-3.5 h-3.5" /> {t.setup.importUrl}
+                            </button>
+                        </div>
+                        <input ref={fileInputRef} type="file" accept={TEXT_IMPORT_ACCEPT} className="hidden" onChange={handleImportFile} />
+                    </div>
+
+                    {showUrlInput && (
+                        <div className="flex gap-2 mb-3">
+                            <input
+                            type="url"
+                            value={importUrl}
+                            onChange={(e) => setImportUrl(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleImportUrl()}
+                            placeholder={t.setup.urlPlaceholder}
+                            autoFocus
+                            className="flex-1 px-4 py-2.5 rounded-xl bg-gray-50 border border-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm"
+                            />
+                            <button
+                            onClick={handleImportUrl}
+                            disabled={!importUrl.trim() || isLoading}
+                            className="px-4 py-2.5 rounded-xl bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white text-sm font-bold transition-colors"
+                            >
+                            {t.setup.fetchUrl}
+                            </button>
+                        </div>
+                    )}
+
+                    {imported && (
+                        <div className="mb-3 rounded-xl border border-gray-100 bg-gray-50 overflow-hidden">
+                            <div className="flex items-center justify-between gap-2 px-4 py-2.5">
+                                <div className="min-w-0 flex items-center gap-2">
+                                    <FileText className="w-4 h-4 text-gray-400 shrink-0" />
+                                    <span className="text-sm font-bold text-gray-800 truncate">{imported.title}</span>
+                                    {imported.parts.length > 1 && (
+                                        <span className="text-xs text-gray-400 shrink-0">{t.setup.importedParts(imported.parts.length)}</span>
+                                    )}
+                                </div>
+                                <button onClick={clearImport} className="p-1 text-gray-400 hover:text-gray-600 rounded-lg shrink-0" title={t.setup.clearImport}>
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                            {imported.parts.length > 1 && (
+                                <div className="max-h-48 overflow-y-auto border-t border-gray-100 bg-white">
+                                    {imported.parts.map((part, index) => (
+                                        <button
+                                        key={index}
+                                        onClick={() => selectPart(imported, index)}
+                                        className={`w-full text-left px-4 py-2 text-sm flex items-center justify-between gap-3 transition-colors
+                                            ${index === selectedPart ? 'bg-blue-50 text-blue-700 font-bold' : 'text-gray-600 hover:bg-gray-50'}
+                                        `}
+                                        >
+                                        <span className="truncate">{part.title}</span>
+                                        <span className="text-xs text-gray-400 shrink-0">{t.setup.wordCount(part.words)}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     <textarea
                         value={customText}
                         onChange={(e) => setCustomText(e.target.value)}
-                        placeholder="Paste an English article or story here..."
+                        placeholder={t.setup.pastePlaceholder}
                         className="w-full h-48 px-5 py-4 rounded-xl bg-gray-50 border border-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none text-base"
                     />
                     </div>
@@ -328,7 +513,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                         disabled={!customText.trim() || isLoading}
                         className="w-full bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white py-4 rounded-xl font-bold shadow-lg hover:shadow-green-500/30 transition-all flex items-center justify-center gap-2 text-lg"
                         >
-                        Analyze & Start <ArrowRight className="w-5 h-5" />
+                        {t.setup.analyzeStart} <ArrowRight className="w-5 h-5" />
                         </button>
                     </div>
                 </div>
@@ -340,14 +525,14 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
             <div className="mt-8 mb-20">
                  <div className="flex justify-between items-end mb-6">
                      <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
-                        <Clock className="w-5 h-5 text-gray-400" /> Recent Sessions
+                        <Clock className="w-5 h-5 text-gray-400" /> {t.setup.recentSessions}
                      </h3>
                      {history.length > 4 && (
                         <button 
                             onClick={() => setShowHistoryModal(true)}
                             className="text-sm font-semibold text-blue-600 hover:text-blue-700 flex items-center gap-1"
                         >
-                            View All <ChevronRight className="w-4 h-4" />
+                            {t.setup.viewAll} <ChevronRight className="w-4 h-4" />
                         </button>
                      )}
                  </div>
@@ -357,7 +542,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                         <div className="w-12 h-12 bg-gray-50 rounded-full flex items-center justify-center mx-auto mb-3">
                             <LayoutGrid className="w-6 h-6 text-gray-300" />
                         </div>
-                        <p className="text-gray-500">No history yet.</p>
+                        <p className="text-gray-500">{t.setup.noHistory}</p>
                     </div>
                  ) : (
                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -369,12 +554,16 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                                 >
                                     <h4 className="font-bold text-gray-800 line-clamp-2 mb-2 group-hover:text-blue-600 transition-colors pr-6">{session.title}</h4>
                                     <div className="mt-auto pt-4 flex items-center justify-between border-t border-gray-50 w-full">
-                                        <span className="text-xs text-gray-400">{new Date(session.date).toLocaleDateString()}</span>
-                                        {session.evaluation && (
+                                        <span className="text-xs text-gray-400 flex items-center gap-1.5">
+                                            {new Date(session.date).toLocaleDateString()}
+                                            <SessionLanguageBadge session={session} className="text-[10px]" />
+                                            {session.dictation && <Headphones className="w-3 h-3 text-blue-500" aria-label={t.dictation.title} />}
+                                        </span>
+                                        {(session.evaluation || session.dictation) && (
                                             <span className={`text-xs font-bold px-2 py-1 rounded-md
-                                                ${session.evaluation.score >= 80 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}
+                                                ${(sessionScore(session) ?? 0) >= 80 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}
                                             `}>
-                                                {session.evaluation.score}
+                                                {sessionScore(session)}
                                             </span>
                                         )}
                                     </div>
@@ -382,7 +571,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                                 <button 
                                     onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
                                     className="absolute top-2 right-2 p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all opacity-0 group-hover:opacity-100"
-                                    title="Delete Session"
+                                    title={t.setup.deleteSession}
                                 >
                                     <Trash2 className="w-4 h-4" />
                                 </button>
@@ -397,6 +586,8 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
         isOpen={showSettings} 
         onClose={() => setShowSettings(false)} 
         totalTokensUsed={tokenStats.total}
+        onDataImported={onDataImported}
+        onLanguageSaved={onLanguageChange}
       />
       
       {/* History Slider / Modal */}
@@ -406,7 +597,7 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
             <div className="fixed top-0 right-0 h-full w-[85%] md:w-[70%] bg-white z-50 shadow-2xl overflow-y-auto animate-in slide-in-from-right duration-300">
                 <div className="p-8">
                     <div className="flex justify-between items-center mb-8">
-                        <h2 className="text-2xl font-bold text-gray-900">Session History</h2>
+                        <h2 className="text-2xl font-bold text-gray-900">{t.setup.sessionHistory}</h2>
                         <button onClick={() => setShowHistoryModal(false)} className="p-2 hover:bg-gray-100 rounded-full">
                             <X className="w-6 h-6 text-gray-500" />
                         </button>
@@ -422,19 +613,23 @@ export const SetupView: React.FC<SetupViewProps> = ({ onStart, history, onReview
                                     <h4 className="font-bold text-lg text-gray-800 mb-2 pr-8">{session.title}</h4>
                                     <div className="flex items-center gap-4 text-sm text-gray-500">
                                         <span>{new Date(session.date).toLocaleString()}</span>
-                                        {session.evaluation ? (
-                                            <span className={`font-bold ${session.evaluation.score >= 80 ? 'text-green-600' : 'text-yellow-600'}`}>
-                                                Score: {session.evaluation.score}
+                                        <SessionLanguageBadge session={session} className="text-xs" />
+                                        {session.dictation && (
+                                            <span className="flex items-center gap-1 text-blue-600 font-medium"><Headphones className="w-3.5 h-3.5" /> {t.dictation.title}</span>
+                                        )}
+                                        {session.evaluation || session.dictation ? (
+                                            <span className={`font-bold ${(sessionScore(session) ?? 0) >= 80 ? 'text-green-600' : 'text-yellow-600'}`}>
+                                                {t.setup.score}: {sessionScore(session)}
                                             </span>
                                         ) : (
-                                            <span className="text-gray-400 italic">Unfinished</span>
+                                            <span className="text-gray-400 italic">{t.setup.unfinished}</span>
                                         )}
                                     </div>
                                 </button>
                                 <button 
                                     onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
                                     className="absolute top-4 right-4 p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all"
-                                    title="Delete Session"
+                                    title={t.setup.deleteSession}
                                 >
                                     <Trash2 className="w-5 h-5" />
                                 </button>
@@ -0,0 +1,41 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Volume2 } from 'lucide-react';
+import { speak, isSpeechSupported } from '../services/speech';
+
+interface SpeakButtonProps {
+  text: string;
+  locale: string;
+  title?: string;
+  className?: string;
+  iconClassName?: string;
+}
+
+// Reads a single word or sentence aloud; renders nothing without speech support
+export const SpeakButton: React.FC<SpeakButtonProps> = ({ text, locale, title, className = '', iconClassName = 'w-4 h-4' }) => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    return () => stopRef.current?.();
+  }, []);
+
+  if (!isSpeechSupported()) return null;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isSpeaking) {
+      stopRef.current?.();
+      stopRef.current = null;
+      setIsSpeaking(false);
+      return;
+    }
+    setIsSpeaking(true);
+    stopRef.current = speak(text, { locale, onEnd: () => { stopRef.current = null; setIsSpeaking(false); } });
+  };
+
+  return (
+    <button onClick={handleClick} title={title} className={`transition-colors ${className}`}>
+      <Volume2 className={`${iconClassName} ${isSpeaking ? 'animate-pulse' : ''}`} />
+    </button>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { SpeechSettings, DEFAULT_SPEECH_SETTINGS, LanguageSettings } from '../types';
+import { getStrings } from '../services/i18n';
+import { getSpeechSettings, saveSpeechSettings, loadVoices, voicesForLocale, localeLanguage, isSpeechSupported } from '../services/speech';
+import { Volume2, Pause, Play, Square, SlidersHorizontal } from 'lucide-react';
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+interface SpeechControlsProps {
+  locale: string;
+  state: PlaybackState;
+  onPlay: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  language: LanguageSettings;
+}
+
+const RATES = [0.6, 0.8, 1, 1.2, 1.5];
+
+// Play/pause/stop for the whole text plus voice and speed for the text's language
+export const SpeechControls: React.FC<SpeechControlsProps> = ({ locale, state, onPlay, onPause, onResume, onStop, language }) => {
+  const t = getStrings(language);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!showSettings) return;
+    getSpeechSettings().then(setSettings);
+    loadVoices().then(all => setVoices(voicesForLocale(all, locale)));
+  }, [showSettings, locale]);
+
+  if (!isSpeechSupported()) return null;
+
+  const voiceLanguage = localeLanguage(locale);
+
+  const updateSettings = (next: SpeechSettings) => {
+    setSettings(next);
+    saveSpeechSettings(next).catch(error => console.error('Failed to save speech settings', error));
+  };
+
+  return (
+    <div className="relative flex items-center bg-gray-100 p-1 rounded-lg">
+      {state === 'playing' ? (
+        <button onClick={onPause} className="p-1.5 rounded-md bg-white shadow text-blue-600 transition-all" title={t.practice.pauseReading}>
+          <Pause className="w-4 h-4" />
+        </button>
+      ) : (
+        <button
+          onClick={state === 'paused' ? onResume : onPlay}
+          className={`p-1.5 rounded-md transition-all ${state === 'paused' ? 'bg-white shadow text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+          title={state === 'paused' ? t.practice.resumeReading : t.practice.readAloud}
+        >
+          {state === 'paused' ? <Play className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+        </button>
+      )}
+      {state !== 'idle' && (
+        <button onClick={onStop} className="p-1.5 rounded-md text-gray-400 hover:text-red-500 transition-all" title={t.practice.stopReading}>
+          <Square className="w-4 h-4" />
+        </button>
+      )}
+      <button
+        onClick={() => setShowSettings(!showSettings)}
+        className={`p-1.5 rounded-md transition-all ${showSettings ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
+        title={t.practice.voiceSettings}
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+
+      {showSettings && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-xl shadow-xl border border-gray-100 p-4 space-y-4 z-30 animate-in fade-in zoom-in-95">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.practice.voice}</label>
+            {voices.length > 0 ? (
+              <select
+                value={settings.voices[voiceLanguage] || ''}
+                onChange={(e) => updateSettings({ ...settings, voices: { ...settings.voices, [voiceLanguage]: e.target.value } })}
+                className="w-full p-2 border border-gray-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-100"
+              >
+                <option value="">{t.practice.defaultVoice}</option>
+                {voices.map(voice => (
+                  <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm text-gray-500">{t.practice.noVoices}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.practice.speed}</label>
+            <div className="flex bg-gray-100 p-0.5 rounded-lg text-xs font-bold">
+              {RATES.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => updateSettings({ ...settings, rate })}
+                  className={`flex-1 py-1 rounded-md transition-all ${settings.rate === rate ? 'bg-white shadow text-slate-900' : 'text-gray-400 hover:text-gray-600'}`}
+                >
+                  {rate}×
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
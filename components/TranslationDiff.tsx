@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { diffWords, similarity, DiffSegment } from '../services/textDiff';
+import { getStrings, UiStrings } from '../services/i18n';
+import { LanguageSettings } from '../types';
+import { Columns2, AlignLeft } from 'lucide-react';
+
+interface TranslationDiffProps {
+  user: string;
+  corrected: string;
+  language: LanguageSettings;
+}
+
+type DiffLayout = 'SIDE' | 'UNIFIED';
+
+// Leading whitespace stays outside the highlight so marks don't bleed into the gaps
+const Mark: React.FC<{ text: string; className: string; title?: string }> = ({ text, className, title }) => {
+  const space = text.match(/^\s*/)![0];
+  return (
+    <>
+      {space}
+      <span className={`rounded px-0.5 ${className}`} title={title}>{text.slice(space.length)}</span>
+    </>
+  );
+};
+
+const DELETED = 'bg-red-100 text-red-700 line-through decoration-red-400';
+const INSERTED = 'bg-green-100 text-green-800';
+const REPLACED_BEFORE = 'bg-amber-100 text-amber-800 line-through decoration-amber-400';
+const REPLACED_AFTER = 'bg-amber-100 text-amber-900';
+
+const renderUser = (segments: DiffSegment[], t: UiStrings) => segments.map((s, idx) => {
+  if (s.type === 'equal') return <React.Fragment key={idx}>{s.before}</React.Fragment>;
+  if (s.type === 'delete') return <Mark key={idx} text={s.before} className={DELETED} title={t.diff.remove} />;
+  if (s.type === 'replace') return <Mark key={idx} text={s.before} className={REPLACED_BEFORE} title={`→ ${s.after.trim()}`} />;
+  return null;
+});
+
+const renderCorrected = (segments: DiffSegment[], t: UiStrings) => segments.map((s, idx) => {
+  if (s.type === 'equal') return <React.Fragment key={idx}>{s.after}</React.Fragment>;
+  if (s.type === 'insert') return <Mark key={idx} text={s.after} className={INSERTED} title={t.diff.add} />;
+  if (s.type === 'replace') return <Mark key={idx} text={s.after} className={REPLACED_AFTER} title={t.diff.was(s.before.trim())} />;
+  return null;
+});
+
+// Removed text struck through, followed by what replaces it
+const renderUnified = (segments: DiffSegment[]) => segments.map((s, idx) => {
+  if (s.type === 'equal') return <React.Fragment key={idx}>{s.after}</React.Fragment>;
+  return (
+    <React.Fragment key={idx}>
+      {s.before && <Mark text={s.before} className={DELETED} />}
+      {s.after && <Mark text={s.after} className={INSERTED} />}
+    </React.Fragment>
+  );
+});
+
+export const TranslationDiff: React.FC<TranslationDiffProps> = ({ user, corrected, language }) => {
+  const t = getStrings(language);
+  const [layout, setLayout] = useState<DiffLayout>('SIDE');
+  const segments = useMemo(() => diffWords(user, corrected), [user, corrected]);
+  const match = Math.round(similarity(segments) * 100);
+
+  return (
+    <div className="text-base leading-relaxed">
+      <div className="flex items-center justify-between mb-3 print:hidden">
+        <span className="text-xs font-bold text-gray-400">{t.diff.matches(match)}</span>
+        <div className="flex bg-gray-100 p-0.5 rounded-lg">
+          <button
+            onClick={() => setLayout('SIDE')}
+            className={`p-1.5 rounded-md transition-all ${layout === 'SIDE' ? 'bg-white shadow text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            title={t.diff.sideBySide}
+          >
+            <Columns2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setLayout('UNIFIED')}
+            className={`p-1.5 rounded-md transition-all ${layout === 'UNIFIED' ? 'bg-white shadow text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            title={t.diff.unified}
+          >
+            <AlignLeft className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {layout === 'SIDE' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="bg-red-50/50 p-4 rounded-xl border border-red-100">
+            <span className="block text-xs font-black text-red-500 uppercase mb-2">{t.practice.yourTranslation}</span>
+            <p className="text-gray-800 font-serif whitespace-pre-wrap">{renderUser(segments, t)}</p>
+          </div>
+          <div className="bg-green-50/50 p-4 rounded-xl border border-green-100">
+            <span className="block text-xs font-black text-green-600 uppercase mb-2">{t.practice.suggestion}</span>
+            <p className="text-gray-900 font-serif font-medium whitespace-pre-wrap">{renderCorrected(segments, t)}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-gray-50/50 p-4 rounded-xl border border-gray-100">
+          <p className="text-gray-900 font-serif whitespace-pre-wrap">{renderUnified(segments)}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 mt-3 text-[10px] font-bold uppercase tracking-wider text-gray-400 print:hidden">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-100 border border-red-200" /> {t.diff.removed}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border border-green-200" /> {t.diff.added}</span>
+        {layout === 'SIDE' && <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100 border border-amber-200" /> {t.diff.changed}</span>}
+      </div>
+    </div>
+  );
+};
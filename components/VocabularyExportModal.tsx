@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { VocabularyItem } from '../types';
+import { EXPORT_FIELDS, ExportColumn, Delimiter, AnkiOptions, DEFAULT_ANKI_OPTIONS, toDelimited, toAnkiDeck } from '../services/vocabExport';
+import { downloadFile, dateStamp } from '../services/fileUtils';
+import { X, Download, ChevronUp, ChevronDown, FileSpreadsheet, Layers } from 'lucide-react';
+
+interface VocabularyExportModalProps {
+  words: VocabularyItem[];
+  onClose: () => void;
+}
+
+type ExportFormat = 'TABLE' | 'ANKI';
+
+export const VocabularyExportModal: React.FC<VocabularyExportModalProps> = ({ words, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('ANKI');
+
+  // CSV / TSV
+  const [delimiter, setDelimiter] = useState<Delimiter>(',');
+  const [includeHeader, setIncludeHeader] = useState(true);
+  const [columns, setColumns] = useState<(ExportColumn & { enabled: boolean })[]>(
+    EXPORT_FIELDS.map(f => ({ field: f.field, header: f.label, enabled: true }))
+  );
+
+  // Anki
+  const [anki, setAnki] = useState<AnkiOptions>(DEFAULT_ANKI_OPTIONS);
+
+  const moveColumn = (idx: number, offset: number) => {
+    const target = idx + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    setColumns(next);
+  };
+
+  const updateColumn = (idx: number, patch: Partial<ExportColumn & { enabled: boolean }>) => {
+    setColumns(columns.map((col, i) => i === idx ? { ...col, ...patch } : col));
+  };
+
+  const enabledColumns = columns.filter(col => col.enabled);
+  const canExport = words.length > 0 && (format === 'ANKI' || enabledColumns.length > 0);
+
+  const handleExport = () => {
+    if (format === 'ANKI') {
+      downloadFile(`linguaflow-anki-${dateStamp()}.txt`, toAnkiDeck(words, anki), 'text/plain;charset=utf-8');
+    } else if (delimiter === ',') {
+      // BOM so spreadsheet apps read the Vietnamese text as UTF-8
+      downloadFile(`linguaflow-vocabulary-${dateStamp()}.csv`, '\uFEFF' + toDelimited(words, enabledColumns, delimiter, includeHeader), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`linguaflow-vocabulary-${dateStamp()}.tsv`, toDelimited(words, enabledColumns, delimiter, includeHeader), 'text/tab-separated-values;charset=utf-8');
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl animate-in fade-in zoom-in-95 overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-gray-900">Export Vocabulary</h3>
+            <p className="text-xs text-gray-500">{words.length} word{words.length === 1 ? '' : 's'} in the current view</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full"><X className="w-5 h-5 text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-2 bg-gray-100 p-1 rounded-xl">
+            <button
+              onClick={() => setFormat('ANKI')}
+              className={`py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${format === 'ANKI' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
+            >
+              <Layers className="w-4 h-4" /> Anki Deck
+            </button>
+            <button
+              onClick={() => setFormat('TABLE')}
+              className={`py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${format === 'TABLE' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
+            >
+              <FileSpreadsheet className="w-4 h-4" /> CSV / TSV
+            </button>
+          </div>
+
+          {format === 'ANKI' ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Deck Name</label>
+                  <input
+                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={anki.deckName}
+                    onChange={e => setAnki({ ...anki, deckName: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Note Type</label>
+                  <select
+                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg outline-none"
+                    value={anki.noteType}
+                    onChange={e => setAnki({ ...anki, noteType: e.target.value as AnkiOptions['noteType'] })}
+                  >
+                    <option value="basic">Basic (front / back)</option>
+                    <option value="cloze">Cloze (context sentence)</option>
+                  </select>
+                </div>
+              </div>
+
+              {anki.noteType === 'cloze' ? (
+                <p className="text-xs text-gray-500 bg-blue-50 border border-blue-100 rounded-lg p-3">
+                  The target word is blanked out of its context sentence, with the translation as the hint. Words without a context sentence become a single cloze of the word.
+                </p>
+              ) : (
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Front Template</label>
+                  <textarea
+                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none h-24 resize-none font-mono text-xs"
+                    value={anki.frontTemplate}
+                    onChange={e => setAnki({ ...anki, frontTemplate: e.target.value })}
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{anki.noteType === 'cloze' ? 'Back Extra Template' : 'Back Template'}</label>
+                <textarea
+                  className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none h-24 resize-none font-mono text-xs"
+                  value={anki.backTemplate}
+                  onChange={e => setAnki({ ...anki, backTemplate: e.target.value })}
+                />
+                <p className="text-[10px] text-gray-400 mt-1">
+                  Placeholders: {EXPORT_FIELDS.map(f => `{{${f.field}}}`).join(' ')}. The word is bolded inside {'{{context}}'}.
+                </p>
+              </div>
+
+              <button
+                onClick={() => setAnki(DEFAULT_ANKI_OPTIONS)}
+                className="text-xs text-gray-500 hover:text-blue-600 font-medium"
+              >
+                Reset templates
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="flex gap-2">
+                  {([[',', 'CSV'], ['\t', 'TSV']] as [Delimiter, string][]).map(([value, label]) => (
+                    <button
+                      key={label}
+                      onClick={() => setDelimiter(value)}
+                      className={`px-4 py-1.5 rounded-lg text-xs font-bold border transition-all ${delimiter === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-200 hover:border-blue-300'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input type="checkbox" checked={includeHeader} onChange={e => setIncludeHeader(e.target.checked)} />
+                  Header row
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Columns</label>
+                <div className="space-y-2">
+                  {columns.map((col, idx) => (
+                    <div key={col.field} className={`flex items-center gap-2 p-2 rounded-lg border ${col.enabled ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}>
+                      <input type="checkbox" checked={col.enabled} onChange={e => updateColumn(idx, { enabled: e.target.checked })} />
+                      <span className="w-28 text-xs font-bold text-gray-500 uppercase shrink-0">
+                        {EXPORT_FIELDS.find(f => f.field === col.field)?.label}
+                      </span>
+                      <input
+                        className="flex-1 min-w-0 px-2 py-1 text-sm bg-gray-50 border border-gray-200 rounded outline-none focus:ring-2 focus:ring-blue-500"
+                        value={col.header}
+                        onChange={e => updateColumn(idx, { header: e.target.value })}
+                        disabled={!col.enabled || !includeHeader}
+                        title="Column header"
+                      />
+                      <button onClick={() => moveColumn(idx, -1)} disabled={idx === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveColumn(idx, 1)} disabled={idx === columns.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2"
+          >
+            <Download className="w-5 h-5" /> Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
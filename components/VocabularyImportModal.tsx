@@ -0,0 +1,301 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { VocabularyItem, NativeLanguage } from '../types';
+import { EXPORT_FIELDS } from '../services/vocabExport';
+import { ImportFormat, ColumnMapping, parseImportText, looksLikeHeader, guessMapping, buildCandidates, fillMissing, mergeIntoExisting } from '../services/vocabImport';
+import { lookupWordCached, estimateLookupTokens, isAbortError } from '../services/aiService';
+import { AIResponseError } from '../services/validation';
+import { X, Upload, Loader2, Sparkles, FileText } from 'lucide-react';
+
+interface VocabularyImportModalProps {
+  savedWords: VocabularyItem[];
+  // Language the AI fills missing translations in
+  nativeLanguage: NativeLanguage;
+  onImport: (words: VocabularyItem[]) => void;
+  onClose: () => void;
+}
+
+type DuplicateMode = 'skip' | 'update';
+
+const PREVIEW_ROWS = 5;
+
+export const VocabularyImportModal: React.FC<VocabularyImportModalProps> = ({ savedWords, nativeLanguage, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [input, setInput] = useState('');
+  const [formatOverride, setFormatOverride] = useState<ImportFormat | 'auto'>('auto');
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+  const [useLookup, setUseLookup] = useState(false);
+  const [estimatedTokens, setEstimatedTokens] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+
+  const table = useMemo(
+    () => parseImportText(input, formatOverride === 'auto' ? undefined : formatOverride),
+    [input, formatOverride]
+  );
+
+  // New input: guess the header and the column mapping again
+  useEffect(() => {
+    setHasHeader(table.rows.length > 1 && looksLikeHeader(table.rows[0]));
+  }, [table]);
+
+  useEffect(() => {
+    setMapping(guessMapping(table, hasHeader));
+  }, [table, hasHeader]);
+
+  const candidates = useMemo(
+    () => buildCandidates(table, mapping, hasHeader, savedWords),
+    [table, mapping, hasHeader, savedWords]
+  );
+
+  const toImport = duplicateMode === 'skip' ? candidates.filter(c => !c.duplicateOf) : candidates;
+  const duplicateCount = candidates.filter(c => c.duplicateOf).length;
+  const toLookUp = toImport.filter(c => c.incomplete);
+
+  useEffect(() => {
+    if (!useLookup || toLookUp.length === 0) {
+      setEstimatedTokens(null);
+      return;
+    }
+    let cancelled = false;
+    estimateLookupTokens(toLookUp.map(c => ({ word: c.item.word, context: c.item.context || c.item.word })), { nativeLanguage })
+      .then(tokens => { if (!cancelled) setEstimatedTokens(tokens); })
+      .catch(err => console.error("Failed to estimate tokens", err));
+    return () => { cancelled = true; };
+  }, [useLookup, duplicateMode, candidates, nativeLanguage]);
+
+  // Stop any running lookups when the modal goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      setInput(await file.text());
+      setFormatOverride('auto');
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Could not read file");
+    }
+  };
+
+  const handleImport = async () => {
+    const items = toImport.map(c => c.item);
+
+    if (useLookup && toLookUp.length > 0) {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const filled = new Map<string, VocabularyItem>();
+      let failed = 0;
+      setProgress({ done: 0, total: toLookUp.length, failed: 0 });
+
+      // One request at a time keeps us clear of provider rate limits
+      for (const candidate of toLookUp) {
+        try {
+          const context = candidate.item.context || candidate.item.word;
+          const { usage, savedUsage, cached, source, ...result } = await lookupWordCached(candidate.item.word, context, { signal: controller.signal, nativeLanguage, sentence: context });
+          filled.set(candidate.item.word, fillMissing(candidate.item, result));
+        } catch (error: any) {
+          if (isAbortError(error)) {
+            setProgress(null);
+            return;
+          }
+          console.error(`Lookup failed for "${candidate.item.word}"`, error);
+          failed++;
+          // Bad replies only cost that word; anything else (no key, network) would fail them all
+          if (!(error instanceof AIResponseError)) {
+            abortRef.current = null;
+            setProgress(null);
+            if (!confirm(`${error.message || "Lookup failed"}\n\nImport the words without the missing fields?`)) return;
+            break;
+          }
+        }
+        setProgress(prev => prev && { ...prev, done: prev.done + 1, failed });
+      }
+      abortRef.current = null;
+      items.forEach((item, idx) => { items[idx] = filled.get(item.word) || item; });
+    }
+
+    const existing = new Map(savedWords.map(w => [w.word, w]));
+    onImport(items.map(item => {
+      const candidate = toImport.find(c => c.item.word === item.word);
+      const current = candidate?.duplicateOf ? existing.get(candidate.duplicateOf) : undefined;
+      return current ? mergeIntoExisting(current, item) : item;
+    }));
+    onClose();
+  };
+
+  const columnCount = mapping.length;
+  const previewRows = table.rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS);
+  const hasWordColumn = mapping.includes('word');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={progress ? undefined : onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-2xl shadow-2xl animate-in fade-in zoom-in-95 overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-gray-900">Import Vocabulary</h3>
+            <p className="text-xs text-gray-500">CSV, TSV or a plain list with one word per line</p>
+          </div>
+          <button onClick={onClose} disabled={!!progress} className="p-1 hover:bg-gray-200 rounded-full disabled:opacity-30"><X className="w-5 h-5 text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="block text-xs font-bold text-gray-500 uppercase">Paste or load a file</label>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-xs font-bold text-blue-600 hover:text-blue-700 flex items-center gap-1"
+              >
+                <FileText className="w-3 h-3" /> Choose file
+              </button>
+              <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/plain,text/tab-separated-values" className="hidden" onChange={handleFileChosen} />
+            </div>
+            <textarea
+              className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none h-28 resize-none font-mono text-xs"
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder={"word,translation,context\nephemeral,phù du,Fame is ephemeral.\n\n— or —\n\nephemeral\nresilient"}
+              disabled={!!progress}
+            />
+          </div>
+
+          {table.rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex gap-2">
+                  {(['auto', 'csv', 'tsv', 'list'] as const).map(f => (
+                    <button
+                      key={f}
+                      onClick={() => setFormatOverride(f)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-bold border uppercase transition-all ${formatOverride === f ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-200 hover:border-blue-300'}`}
+                    >
+                      {f === 'auto' ? `Auto (${table.format})` : f}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+                  First row is a header
+                </label>
+              </div>
+
+              {/* Column mapping over a preview of the first rows */}
+              <div className="overflow-x-auto border border-gray-200 rounded-xl">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {Array.from({ length: columnCount }, (_, idx) => (
+                        <th key={idx} className="p-2 text-left font-normal min-w-[120px]">
+                          <select
+                            className="w-full p-1.5 bg-white border border-gray-200 rounded outline-none text-xs font-bold"
+                            value={mapping[idx] || ''}
+                            onChange={e => setMapping(mapping.map((field, i) => i === idx ? (e.target.value || null) as ColumnMapping[number] : field))}
+                          >
+                            <option value="">Ignore</option>
+                            {EXPORT_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                          </select>
+                          {hasHeader && <span className="block mt-1 text-gray-400 truncate">{table.rows[0][idx]}</span>}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row, rowIdx) => (
+                      <tr key={rowIdx} className="border-t border-gray-100">
+                        {Array.from({ length: columnCount }, (_, idx) => (
+                          <td key={idx} className={`p-2 truncate max-w-[160px] ${mapping[idx] ? 'text-gray-800' : 'text-gray-300'}`}>{row[idx]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {!hasWordColumn ? (
+                <p className="text-sm text-red-500">Map one column to Word to continue.</p>
+              ) : (
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3">
+                  <div className="grid grid-cols-3 gap-3 text-center">
+                    <div>
+                      <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Words</span>
+                      <span className="font-black text-gray-900 text-lg">{candidates.length}</span>
+                    </div>
+                    <div>
+                      <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Already Saved</span>
+                      <span className="font-black text-gray-900 text-lg">{duplicateCount}</span>
+                    </div>
+                    <div>
+                      <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Incomplete</span>
+                      <span className="font-black text-gray-900 text-lg">{toImport.filter(c => c.incomplete).length}</span>
+                    </div>
+                  </div>
+
+                  {duplicateCount > 0 && (
+                    <div className="flex items-center gap-4 text-sm text-gray-600">
+                      <span className="font-medium">Already saved:</span>
+                      <label className="flex items-center gap-1.5">
+                        <input type="radio" checked={duplicateMode === 'skip'} onChange={() => setDuplicateMode('skip')} /> Skip
+                      </label>
+                      <label className="flex items-center gap-1.5">
+                        <input type="radio" checked={duplicateMode === 'update'} onChange={() => setDuplicateMode('update')} /> Update fields
+                      </label>
+                    </div>
+                  )}
+
+                  {toLookUp.length > 0 && (
+                    <label className="flex items-start gap-2 text-sm text-gray-600">
+                      <input type="checkbox" className="mt-1" checked={useLookup} onChange={e => setUseLookup(e.target.checked)} />
+                      <span>
+                        <span className="font-medium text-gray-800 flex items-center gap-1"><Sparkles className="w-3 h-3 text-purple-500" /> Fill missing fields with AI</span>
+                        <span className="block text-xs text-gray-500">
+                          {toLookUp.length} request{toLookUp.length === 1 ? '' : 's'}
+                          {useLookup && estimatedTokens !== null && <> • ~{estimatedTokens.toLocaleString()} tokens</>}
+                        </span>
+                      </span>
+                    </label>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span className="flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Looking up {progress.done} / {progress.total}</span>
+                {progress.failed > 0 && <span className="text-red-500">{progress.failed} failed</span>}
+              </div>
+              <div className="w-full bg-gray-100 h-2 rounded-full overflow-hidden">
+                <div className="bg-blue-600 h-full transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex gap-3">
+          {progress && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-6 py-3 rounded-xl border border-gray-200 text-gray-600 font-bold hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleImport}
+            disabled={!!progress || !hasWordColumn || toImport.length === 0}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2"
+          >
+            {progress ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+            Import {toImport.length} word{toImport.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,33 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { VocabularyItem } from '../types';
-import { ArrowLeft, Brain, CheckCircle2, Trash2, Search, RotateCcw, Eye, EyeOff, Layers, Zap, Plus } from 'lucide-react';
+import { VocabularyItem, ReviewGrade, LanguageSettings, NATIVE_LANGUAGES } from '../types';
+import { isDue, scheduleReview, formatInterval } from '../services/scheduler';
+import { VocabularyExportModal } from './VocabularyExportModal';
+import { VocabularyImportModal } from './VocabularyImportModal';
+import { SpeakButton } from './SpeakButton';
+import { getStrings, TRANSLATION_EXAMPLES } from '../services/i18n';
+import { wordLocale } from '../services/speech';
+import { ArrowLeft, Brain, CheckCircle2, Trash2, Search, RotateCcw, Eye, EyeOff, Layers, Zap, Plus, CalendarClock, Shuffle, Download, Upload } from 'lucide-react';
 
 interface VocabularyViewProps {
   savedWords: VocabularyItem[];
   onRemove: (word: string) => void;
   onAdd: (word: VocabularyItem) => void;
+  onImport: (words: VocabularyItem[]) => void;
+  onGrade: (word: string, grade: ReviewGrade) => void;
   onExit: () => void;
+  language: LanguageSettings;
 }
 
 type FilterType = 'ALL' | 'BASIC' | 'INTER' | 'ADV';
 
-export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRemove, onAdd, onExit }) => {
+export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRemove, onAdd, onImport, onGrade, onExit, language }) => {
+  const t = getStrings(language);
   const [filter, setFilter] = useState<FilterType>('ALL');
   const [mode, setMode] = useState<'LIST' | 'LEARN'>('LIST');
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   
   // New Card State
   const [newCard, setNewCard] = useState<Partial<VocabularyItem>>({
@@ -30,6 +42,8 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
   
   // Learning Mode State (Anki-style Queue)
   const [studyQueue, setStudyQueue] = useState<VocabularyItem[]>([]);
+  // Only reviews of due cards move the schedule; cramming leaves it untouched
+  const [isDueSession, setIsDueSession] = useState(false);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [sessionStats, setSessionStats] = useState({ reviewed: 0, hard: 0 });
@@ -56,6 +70,14 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
     return result;
   }, [savedWords, filter, searchTerm]);
 
+  const dueWords = useMemo(() => {
+    const now = Date.now();
+    return filteredWords
+      .filter(w => isDue(w, now))
+      // Overdue first, brand-new words last
+      .sort((a, b) => (a.review?.due ?? Infinity) - (b.review?.due ?? Infinity));
+  }, [filteredWords]);
+
   // Reset state on card change
   useEffect(() => {
     setIsFlipped(false);
@@ -79,11 +101,21 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
       }
   };
 
+  const startReview = () => {
+    if (dueWords.length === 0) return;
+    setStudyQueue(dueWords);
+    setIsDueSession(true);
+    setCurrentCardIndex(0);
+    setSessionStats({ reviewed: 0, hard: 0 });
+    setMode('LEARN');
+  };
+
   const startLearning = () => {
     if (filteredWords.length === 0) return;
     // Shuffle words for the session
     const shuffled = [...filteredWords].sort(() => Math.random() - 0.5);
     setStudyQueue(shuffled);
+    setIsDueSession(false);
     setCurrentCardIndex(0);
     setSessionStats({ reviewed: 0, hard: 0 });
     setMode('LEARN');
@@ -94,9 +126,12 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
     
     setSessionStats(prev => ({ ...prev, reviewed: prev.reviewed + 1 }));
 
+    const updatedCard = isDueSession ? { ...currentCard, review: scheduleReview(currentCard.review, difficulty) } : currentCard;
+    if (isDueSession) onGrade(currentCard.word, difficulty);
+
     if (difficulty === 'HARD') {
         // Re-queue at the end
-        setStudyQueue(prev => [...prev, currentCard]);
+        setStudyQueue(prev => [...prev, updatedCard]);
         setSessionStats(prev => ({ ...prev, hard: prev.hard + 1 }));
         // Move to next card immediately (which is just index + 1)
         setCurrentCardIndex(prev => prev + 1);
@@ -108,6 +143,23 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
 
   const isFinished = currentCardIndex >= studyQueue.length;
 
+  // Next interval each grade button would give the current card
+  const nextIntervals = useMemo(() => {
+    const card = studyQueue[currentCardIndex];
+    if (!card || !isDueSession) return null;
+    return {
+      HARD: formatInterval(scheduleReview(card.review, 'HARD').interval, t.vocab.intervals),
+      GOOD: formatInterval(scheduleReview(card.review, 'GOOD').interval, t.vocab.intervals),
+      EASY: formatInterval(scheduleReview(card.review, 'EASY').interval, t.vocab.intervals)
+    };
+  }, [studyQueue, currentCardIndex, isDueSession, t]);
+
+  const formatDue = (item: VocabularyItem) => {
+    if (!item.review) return t.vocab.newCard;
+    const days = Math.ceil((item.review.due - Date.now()) / (24 * 60 * 60 * 1000));
+    return days <= 0 ? t.vocab.due : t.vocab.inInterval(formatInterval(days, t.vocab.intervals));
+  };
+
   // Progress Bar Helper
   const progressPercent = useMemo(() => {
       if (studyQueue.length === 0) return 0;
@@ -124,15 +176,33 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
           </button>
           <h1 className="font-bold text-gray-900 text-xl flex items-center gap-2">
             <Layers className="w-6 h-6 text-blue-600" /> 
-            {mode === 'LIST' ? 'Vocabulary Deck' : 'Flashcards'}
+            {mode === 'LIST' ? t.vocab.deck : t.vocab.flashcards}
           </h1>
         </div>
         <div className="flex items-center gap-3">
+             {mode === 'LIST' && savedWords.length > 0 && (
+                <button 
+                    onClick={() => setShowExportModal(true)}
+                    className="p-2 hover:bg-gray-100 text-gray-600 rounded-full border border-gray-200"
+                    title={t.vocab.exportTitle}
+                >
+                    <Download className="w-5 h-5" />
+                </button>
+            )}
+             {mode === 'LIST' && (
+                <button 
+                    onClick={() => setShowImportModal(true)}
+                    className="p-2 hover:bg-gray-100 text-gray-600 rounded-full border border-gray-200"
+                    title={t.vocab.importTitle}
+                >
+                    <Upload className="w-5 h-5" />
+                </button>
+            )}
              {mode === 'LIST' && (
                 <button 
                     onClick={() => setShowAddModal(true)}
                     className="p-2 hover:bg-gray-100 text-gray-600 rounded-full border border-gray-200"
-                    title="Add Manual Card"
+                    title={t.vocab.addManual}
                 >
                     <Plus className="w-5 h-5" />
                 </button>
@@ -153,7 +223,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                             ${filter === 'ALL' ? 'bg-blue-600 text-white border-blue-600 shadow-xl' : 'bg-white border-gray-100 hover:border-blue-200'}
                         `}
                     >
-                        <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'ALL' ? 'text-blue-200' : 'text-gray-400'}`}>Total</span>
+                        <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'ALL' ? 'text-blue-200' : 'text-gray-400'}`}>{t.vocab.total}</span>
                         <div className="text-3xl font-black mt-1">{stats.total}</div>
                     </button>
 
@@ -163,7 +233,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                              ${filter === 'BASIC' ? 'bg-green-500 text-white border-green-500 shadow-xl' : 'bg-white border-gray-100 hover:border-green-200'}
                         `}
                     >
-                        <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'BASIC' ? 'text-green-100' : 'text-gray-400'}`}>Basic (A1-A2)</span>
+                        <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'BASIC' ? 'text-green-100' : 'text-gray-400'}`}>{t.vocab.basic}</span>
                         <div className="text-3xl font-black mt-1">{stats.basic}</div>
                     </button>
 
@@ -173,7 +243,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                             ${filter === 'INTER' ? 'bg-yellow-500 text-white border-yellow-500 shadow-xl' : 'bg-white border-gray-100 hover:border-yellow-200'}
                         `}
                     >
-                         <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'INTER' ? 'text-yellow-100' : 'text-gray-400'}`}>Inter (B1-B2)</span>
+                         <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'INTER' ? 'text-yellow-100' : 'text-gray-400'}`}>{t.vocab.inter}</span>
                         <div className="text-3xl font-black mt-1">{stats.inter}</div>
                     </button>
 
@@ -183,7 +253,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                             ${filter === 'ADV' ? 'bg-red-500 text-white border-red-500 shadow-xl' : 'bg-white border-gray-100 hover:border-red-200'}
                         `}
                     >
-                         <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'ADV' ? 'text-red-100' : 'text-gray-400'}`}>Advanced</span>
+                         <span className={`text-[10px] font-bold uppercase tracking-wider ${filter === 'ADV' ? 'text-red-100' : 'text-gray-400'}`}>{t.vocab.advanced}</span>
                         <div className="text-3xl font-black mt-1">{stats.adv}</div>
                     </button>
                 </div>
@@ -193,7 +263,15 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                     {filteredWords.map((item, idx) => (
                         <div key={idx} className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm hover:shadow-md transition-all group relative">
                             <div className="flex justify-between items-start mb-2">
-                                <h3 className="font-bold text-lg text-slate-800">{item.word}</h3>
+                                <h3 className="font-bold text-lg text-slate-800 flex items-center gap-1">
+                                    {item.word}
+                                    <SpeakButton
+                                        text={item.word}
+                                        locale={wordLocale(item.word, language.native)}
+                                        title={t.common.listen}
+                                        className="p-1 text-gray-300 hover:text-blue-600 rounded-lg"
+                                    />
+                                </h3>
                                 <button 
                                     onClick={(e) => { e.stopPropagation(); onRemove(item.word); }}
                                     className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
@@ -211,6 +289,11 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                         {item.cefr}
                                     </span>
                                 )}
+                                <span className={`ml-auto text-[10px] font-bold px-2 py-0.5 rounded flex items-center gap-1
+                                    ${isDue(item) ? 'bg-blue-50 text-blue-600' : 'bg-gray-50 text-gray-400'}
+                                `} title={item.review ? t.vocab.intervalTitle(formatInterval(item.review.interval, t.vocab.intervals), item.review.lapses) : t.vocab.notStudied}>
+                                    <CalendarClock className="w-3 h-3" /> {formatDue(item)}
+                                </span>
                             </div>
 
                             <p className="text-blue-600 font-medium">{item.translation}</p>
@@ -219,7 +302,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                     ))}
                     {filteredWords.length === 0 && (
                         <div className="col-span-full py-12 text-center text-gray-400 italic">
-                            No cards in this deck.
+                            {t.vocab.noCards}
                         </div>
                     )}
                 </div>
@@ -232,13 +315,13 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                         <div className="w-20 h-20 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto mb-6">
                             <CheckCircle2 className="w-10 h-10" />
                         </div>
-                        <h2 className="text-3xl font-black text-gray-900 mb-2">Session Complete!</h2>
-                        <p className="text-gray-500 mb-8">You reviewed {sessionStats.reviewed} cards.</p>
+                        <h2 className="text-3xl font-black text-gray-900 mb-2">{t.vocab.sessionComplete}</h2>
+                        <p className="text-gray-500 mb-8">{t.vocab.reviewedCards(sessionStats.reviewed)}</p>
                         <button 
                             onClick={() => setMode('LIST')}
                             className="bg-slate-900 text-white px-8 py-4 rounded-xl font-bold shadow-lg hover:bg-black transition-all"
                         >
-                            Back to Deck
+                            {t.vocab.backToDeck}
                         </button>
                     </div>
                 ) : (
@@ -246,10 +329,10 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                          {/* Progress Bar (Above Card) */}
                          <div className="mb-4">
                             <div className="flex justify-between items-end mb-2 px-1">
-                                <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Progress</span>
+                                <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.vocab.progress}</span>
                                 <div className="text-xs font-medium text-gray-500">
-                                    <span className="text-slate-900 font-bold">{studyQueue.length - currentCardIndex}</span> remaining
-                                    {sessionStats.hard > 0 && <span className="text-red-500 ml-2">({sessionStats.hard} re-queued)</span>}
+                                    <span className="text-slate-900 font-bold">{studyQueue.length - currentCardIndex}</span> {t.vocab.remaining}
+                                    {sessionStats.hard > 0 && <span className="text-red-500 ml-2">{t.vocab.requeued(sessionStats.hard)}</span>}
                                 </div>
                             </div>
                             <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
@@ -269,12 +352,12 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                     className="absolute inset-0 backface-hidden bg-white rounded-3xl shadow-xl border border-gray-100 p-8 flex flex-col items-center text-center cursor-pointer"
                                     onClick={() => setIsFlipped(true)}
                                 >
-                                    <span className="text-[10px] font-bold text-blue-500 uppercase tracking-widest mb-6 bg-blue-50 px-3 py-1 rounded-full">Challenge</span>
+                                    <span className="text-[10px] font-bold text-blue-500 uppercase tracking-widest mb-6 bg-blue-50 px-3 py-1 rounded-full">{t.vocab.challenge}</span>
                                     
                                     {/* Instructions */}
                                     <div className="flex items-center gap-2 text-gray-400 text-sm font-medium mb-8 bg-gray-50 px-4 py-2 rounded-lg">
                                         <Zap className="w-4 h-4 text-yellow-500" />
-                                        Speak aloud or form a sentence
+                                        {t.vocab.speakAloud}
                                     </div>
 
                                     {/* Contextual Question (VISIBLE) */}
@@ -294,9 +377,9 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                                 className="flex items-center gap-2 text-xs font-bold text-gray-400 hover:text-blue-600 transition-colors uppercase tracking-wider"
                                             >
                                                 {showHint ? (
-                                                    <><EyeOff className="w-4 h-4" /> Hide Meaning</>
+                                                    <><EyeOff className="w-4 h-4" /> {t.vocab.hideMeaning}</>
                                                 ) : (
-                                                    <><Eye className="w-4 h-4" /> Show Meaning</>
+                                                    <><Eye className="w-4 h-4" /> {t.vocab.showMeaning}</>
                                                 )}
                                             </button>
                                             
@@ -309,7 +392,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                     </div>
 
                                     <div className="mt-auto text-xs text-gray-300 font-bold uppercase tracking-widest">
-                                        Tap card to flip
+                                        {t.vocab.tapToFlip}
                                     </div>
                                 </div>
 
@@ -319,12 +402,21 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                     onClick={() => setIsFlipped(false)} // Clicking back flips to front
                                 >
                                     <div className="w-full flex justify-between items-start absolute top-8 px-8">
-                                         <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Answer</span>
+                                         <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t.vocab.answer}</span>
                                          <RotateCcw className="w-4 h-4 text-slate-600" />
                                     </div>
                                     
                                     <div className="flex flex-col items-center gap-2 mb-2 mt-8">
-                                        <h2 className="text-4xl font-black tracking-tight">{studyQueue[currentCardIndex].word}</h2>
+                                        <h2 className="text-4xl font-black tracking-tight flex items-center gap-2">
+                                            {studyQueue[currentCardIndex].word}
+                                            <SpeakButton
+                                                text={studyQueue[currentCardIndex].word}
+                                                locale={wordLocale(studyQueue[currentCardIndex].word, language.native)}
+                                                title={t.common.listen}
+                                                className="p-2 text-slate-400 hover:text-white hover:bg-white/10 rounded-full"
+                                                iconClassName="w-6 h-6"
+                                            />
+                                        </h2>
                                         {/* Word Type Badge */}
                                         <span className="bg-slate-700 text-cyan-300 text-xs font-bold px-2 py-1 rounded uppercase tracking-wider border border-slate-600 mt-2">
                                             {studyQueue[currentCardIndex].type}
@@ -347,22 +439,22 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                             onClick={() => handleGrade('HARD')}
                                             className="bg-red-500/20 hover:bg-red-500 hover:text-white text-red-400 border border-red-500/50 py-3 rounded-xl font-bold text-sm transition-all"
                                         >
-                                            Hard
-                                            <span className="block text-[10px] opacity-60 font-normal">Review soon</span>
+                                            {t.vocab.hard}
+                                            <span className="block text-[10px] opacity-60 font-normal">{nextIntervals ? nextIntervals.HARD : t.vocab.reviewSoon}</span>
                                         </button>
                                         <button 
                                             onClick={() => handleGrade('GOOD')}
                                             className="bg-green-500/20 hover:bg-green-500 hover:text-white text-green-400 border border-green-500/50 py-3 rounded-xl font-bold text-sm transition-all"
                                         >
-                                            Good
-                                            <span className="block text-[10px] opacity-60 font-normal">Got it</span>
+                                            {t.vocab.good}
+                                            <span className="block text-[10px] opacity-60 font-normal">{nextIntervals ? nextIntervals.GOOD : t.vocab.gotIt}</span>
                                         </button>
                                         <button 
                                             onClick={() => handleGrade('EASY')}
                                             className="bg-blue-500/20 hover:bg-blue-500 hover:text-white text-blue-400 border border-blue-500/50 py-3 rounded-xl font-bold text-sm transition-all"
                                         >
-                                            Easy
-                                            <span className="block text-[10px] opacity-60 font-normal">Mastered</span>
+                                            {t.vocab.easy}
+                                            <span className="block text-[10px] opacity-60 font-normal">{nextIntervals ? nextIntervals.EASY : t.vocab.mastered}</span>
                                         </button>
                                     </div>
                                 </div>
@@ -371,7 +463,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                         
                         {/* Cancel button */}
                         <div className="text-center mt-6">
-                            <button onClick={() => setMode('LIST')} className="text-gray-400 text-sm font-medium hover:text-gray-600">End Session</button>
+                            <button onClick={() => setMode('LIST')} className="text-gray-400 text-sm font-medium hover:text-gray-600">{t.vocab.endSession}</button>
                         </div>
                     </>
                 )}
@@ -383,36 +475,36 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
             <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setShowAddModal(false)}>
                 <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl animate-in fade-in zoom-in-95 overflow-hidden" onClick={e => e.stopPropagation()}>
                     <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
-                        <h3 className="font-bold text-gray-900">Add New Card</h3>
+                        <h3 className="font-bold text-gray-900">{t.vocab.addNewCard}</h3>
                         <button onClick={() => setShowAddModal(false)} className="p-1 hover:bg-gray-200 rounded-full"><Trash2 className="w-5 h-5 text-gray-400" /></button>
                     </div>
                     <form onSubmit={handleAddSubmit} className="p-6 space-y-4">
                         <div className="grid grid-cols-2 gap-4">
                             <div>
-                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Word *</label>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t.vocab.word}</label>
                                 <input 
                                     required
                                     className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                                     value={newCard.word}
                                     onChange={e => setNewCard({...newCard, word: e.target.value})}
-                                    placeholder="e.g. Ephemeral"
+                                    placeholder={t.vocab.example('Ephemeral')}
                                 />
                             </div>
                              <div>
-                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Translation *</label>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t.vocab.translation}</label>
                                 <input 
                                     required
                                     className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                                     value={newCard.translation}
                                     onChange={e => setNewCard({...newCard, translation: e.target.value})}
-                                    placeholder="e.g. Phù du"
+                                    placeholder={t.vocab.example(TRANSLATION_EXAMPLES[language.native])}
                                 />
                             </div>
                         </div>
                         
                         <div className="grid grid-cols-2 gap-4">
                             <div>
-                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Type</label>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t.vocab.type}</label>
                                 <select 
                                     className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg outline-none"
                                     value={newCard.type}
@@ -426,7 +518,7 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                                 </select>
                             </div>
                             <div>
-                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Level</label>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t.vocab.level}</label>
                                 <select 
                                     className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg outline-none"
                                     value={newCard.cefr}
@@ -443,43 +535,59 @@ export const VocabularyView: React.FC<VocabularyViewProps> = ({ savedWords, onRe
                         </div>
 
                          <div>
-                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Definition (Optional)</label>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t.vocab.definitionOptional}</label>
                             <input 
                                 className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                                 value={newCard.definition}
                                 onChange={e => setNewCard({...newCard, definition: e.target.value})}
-                                placeholder="Short explanation in Vietnamese..."
+                                placeholder={t.vocab.definitionPlaceholder(NATIVE_LANGUAGES[language.native].name)}
                             />
                         </div>
 
                         <div>
-                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Example Sentence (Context)</label>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t.vocab.exampleSentence}</label>
                             <textarea 
                                 className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none h-20 resize-none"
                                 value={newCard.context}
                                 onChange={e => setNewCard({...newCard, context: e.target.value})}
-                                placeholder="A sentence using this word..."
+                                placeholder={t.vocab.exampleSentencePlaceholder}
                             />
                         </div>
 
                         <button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl shadow-lg mt-2">
-                            Add to Deck
+                            {t.vocab.addToDeck}
                         </button>
                     </form>
                 </div>
             </div>
         )}
 
+        {showImportModal && (
+            <VocabularyImportModal savedWords={savedWords} nativeLanguage={language.native} onImport={onImport} onClose={() => setShowImportModal(false)} />
+        )}
+
+        {showExportModal && (
+            <VocabularyExportModal words={filteredWords} onClose={() => setShowExportModal(false)} />
+        )}
+
         {/* Floating Start Session Button (Mobile Optimized) */}
         {mode === 'LIST' && (
-            <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[90%] max-w-sm">
+            <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[90%] max-w-sm flex gap-2">
+                <button 
+                    onClick={startReview}
+                    disabled={dueWords.length === 0}
+                    className="flex-1 bg-slate-900 hover:bg-black disabled:opacity-50 text-white py-4 rounded-2xl font-bold shadow-2xl flex items-center justify-center gap-2 hover:scale-105 transition-all"
+                >
+                    <Brain className="w-6 h-6" /> 
+                    <span>{dueWords.length > 0 ? t.vocab.dueToday(dueWords.length) : t.vocab.allCaughtUp}</span>
+                </button>
                 <button 
                     onClick={startLearning}
                     disabled={filteredWords.length === 0}
-                    className="w-full bg-slate-900 hover:bg-black disabled:opacity-50 text-white py-4 rounded-2xl font-bold shadow-2xl flex items-center justify-center gap-2 hover:scale-105 transition-all"
+                    className="px-5 bg-white hover:bg-gray-50 disabled:opacity-50 text-slate-700 rounded-2xl font-bold shadow-2xl border border-gray-200 flex items-center justify-center hover:scale-105 transition-all"
+                    title={t.vocab.cram}
                 >
-                    <Brain className="w-6 h-6" /> 
-                    <span>Start Practice Session</span>
+                    <Shuffle className="w-5 h-5" />
                 </button>
             </div>
         )}
@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LanguageSettings } from '../types';
+import { getActiveRecognizer, applyVoiceCommands, RecognitionSession } from '../services/recognition';
+import { getStrings } from '../services/i18n';
+import { Mic, Square, Loader2 } from 'lucide-react';
+
+interface VoiceInputButtonProps {
+  locale: string;
+  // Recognized text with spoken punctuation already applied
+  onFinal: (text: string) => void;
+  onInterim: (text: string) => void;
+  disabled?: boolean;
+  language: LanguageSettings;
+}
+
+type ListenState = 'idle' | 'starting' | 'listening' | 'processing';
+
+export const VoiceInputButton: React.FC<VoiceInputButtonProps> = ({ locale, onFinal, onInterim, disabled, language }) => {
+  const t = getStrings(language);
+  const [state, setState] = useState<ListenState>('idle');
+  const sessionRef = useRef<RecognitionSession | null>(null);
+
+  useEffect(() => {
+    return () => sessionRef.current?.stop();
+  }, []);
+
+  const start = async () => {
+    setState('starting');
+    try {
+      const recognizer = await getActiveRecognizer();
+      if (!recognizer.isAvailable()) throw new Error(t.practice.recognitionUnavailable);
+      sessionRef.current = recognizer.start(locale, {
+        onResult: (text, isFinal) => {
+          if (!isFinal) return onInterim(applyVoiceCommands(text, locale));
+          const final = applyVoiceCommands(text, locale);
+          if (final) onFinal(final);
+          onInterim('');
+        },
+        onError: (error) => {
+          console.error(error);
+          alert(error.message || t.practice.recognitionFailed);
+        },
+        onEnd: () => {
+          sessionRef.current = null;
+          onInterim('');
+          setState('idle');
+        }
+      });
+      setState('listening');
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || t.practice.recognitionFailed);
+      setState('idle');
+    }
+  };
+
+  const stop = () => {
+    setState('processing');
+    sessionRef.current?.stop();
+  };
+
+  const title = state === 'listening' ? t.practice.stopDictating : state === 'processing' ? t.practice.transcribing : t.practice.dictate;
+
+  return (
+    <button
+      onClick={state === 'idle' ? start : state === 'listening' ? stop : undefined}
+      disabled={disabled || state === 'starting' || state === 'processing'}
+      className={`p-2.5 rounded-full shadow-sm transition-all disabled:opacity-50
+        ${state === 'listening' ? 'bg-red-500 text-white animate-pulse' : 'bg-white text-gray-500 hover:text-blue-600 border border-gray-200'}
+      `}
+      title={title}
+    >
+      {state === 'listening' ? (
+        <Square className="w-4 h-4" />
+      ) : state === 'idle' ? (
+        <Mic className="w-4 h-4" />
+      ) : (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      )}
+    </button>
+  );
+};
@@ -1,143 +1,127 @@
-import { AIContentConfig, VocabularyItem, EvaluationResult, TokenUsage, PromptConfig, DEFAULT_PROMPTS } from "../types";
+import { AIContentConfig, VocabularyItem, EvaluationResult, TokenUsage, GeneratedContent } from "../types";
+import { getActiveProvider, isAbortError, RequestOptions, StreamOptions, PartialContent, PartialEvaluation } from "./providers";
+import { readLookupCache, writeLookupCache, CacheHit } from "./lookupCache";
+import { getDictionarySettings, dictionaryCovers, findDictionaryEntry, dictionaryItem } from "./dictionary";
+import { chunkText, alignTranslation, mapWithConcurrency, mergeAnalyses, mergeEvaluations, mergePartialEvaluations, omittedEvaluation, ANALYSIS_CHUNK_CHARS, EVALUATION_CHUNK_CHARS, CHUNK_CONCURRENCY } from "./chunking";
 
-// Helper to get prompts from local storage
-const getStoredPrompts = () => {
-  const storedPrompts = localStorage.getItem("ds_prompts");
-  const prompts: PromptConfig = storedPrompts ? JSON.parse(storedPrompts) : DEFAULT_PROMPTS;
-  return { prompts };
+// Components import these entry points; the backend (DeepSeek, Gemini or an
+// OpenAI-compatible server) is picked from the provider chosen in Settings.
+
+export { isAbortError, estimateLookupTokens } from "./providers";
+export type { PartialContent, PartialEvaluation } from "./providers";
+export type { CacheHit } from "./lookupCache";
+
+export const generatePracticeContent = async (config: AIContentConfig, options?: StreamOptions<PartialContent>): Promise<GeneratedContent> => {
+  return (await getActiveProvider()).generate(config, options);
 };
 
-const cleanJsonOutput = (text: string): string => {
-  // Remove markdown code blocks if present
-  let clean = text.trim();
-  if (clean.startsWith('```json')) {
-    clean = clean.replace(/^```json/, '').replace(/```$/, '');
-  } else if (clean.startsWith('```')) {
-    clean = clean.replace(/^```/, '').replace(/```$/, '');
-  }
-  return clean.trim();
+// Long texts are analyzed a few chunks at a time and their vocabulary merged
+export const analyzeCustomText = async (text: string, options?: RequestOptions): Promise<GeneratedContent> => {
+  const provider = await getActiveProvider();
+  const chunks = chunkText(text, ANALYSIS_CHUNK_CHARS);
+  if (chunks.length < 2) return provider.analyze(text, options);
+
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY,
+    (chunk, _index, signal) => provider.analyze(chunk.trim(), { ...options, signal }), options?.signal);
+  return mergeAnalyses(text, results);
 };
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export const lookupWordContext = async (word: string, fullContext: string, options?: RequestOptions): Promise<VocabularyItem & { usage: TokenUsage }> => {
+  return (await getActiveProvider()).lookup(word, fullContext, options);
+};
 
-const callDeepSeek = async (systemContent: string, userContent: string, retries = 3) => {
-  const apiKey = localStorage.getItem("ds_api_key");
-  if (!apiKey) {
-    throw new Error("Please enter your DeepSeek API Key in Settings.");
-  }
+export interface CachedLookupOptions extends RequestOptions {
+  // Sentence the word was clicked in; the cache tells senses apart by it
+  sentence: string;
+  // Ask the model again (skipping the offline dictionary) and replace the cached entry
+  forceRefresh?: boolean;
+}
 
-  const attempt = async (retryCount: number): Promise<any> => {
-    try {
-      const response = await fetch("https://api.deepseek.com/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "system", content: systemContent },
-            { role: "user", content: userContent }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 1.1, 
-          stream: false
-        })
-      });
-
-      if (!response.ok) {
-        // Handle Rate Limits or Server Overload specifically
-        if (response.status === 429 || response.status >= 500) {
-            if (retryCount > 0) {
-                console.warn(`DeepSeek Busy (${response.status}), retrying... attempts left: ${retryCount}`);
-                await wait(2000); // Wait 2 seconds before retry
-                return attempt(retryCount - 1);
-            }
-        }
-        
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error?.message || `API Error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const content = cleanJsonOutput(data.choices[0].message.content);
-      
-      return {
-        content: JSON.parse(content),
-        usage: {
-          promptTokens: data.usage?.prompt_tokens || 0,
-          responseTokens: data.usage?.completion_tokens || 0,
-          totalTokens: data.usage?.total_tokens || 0
-        }
-      };
-    } catch (error: any) {
-      if (retryCount > 0 && (error.message.includes('fetch') || error.message.includes('network'))) {
-         await wait(2000);
-         return attempt(retryCount - 1);
-      }
-      throw error;
-    }
-  };
+export type LookupSource = 'ai' | 'dictionary';
 
-  try {
-    return await attempt(retries);
-  } catch (error: any) {
-    console.error("DeepSeek Call Failed:", error);
-    throw new Error(error.message || "Failed to connect to DeepSeek API. Please try again.");
-  }
+export type CachedLookupResult = VocabularyItem & {
+  usage: TokenUsage; // Zero on a cache hit or dictionary answer
+  savedUsage?: TokenUsage; // On a cache hit: what the original lookup cost
+  cached?: CacheHit;
+  source: LookupSource;
 };
 
-const SYSTEM_PROMPT = `You are an expert English language tutor for Vietnamese learners. 
-You MUST return responses in valid JSON format strictly adhering to the requested structure. 
-Ensure vocabulary types include: 'Noun', 'Verb', 'Adjective', 'Adverb', 'Phrasal Verb', 'Idiom', etc.
-CEFR levels should be: A1, A2, B1, B2, C1, or C2.`;
-
-export const generatePracticeContent = async (config: AIContentConfig): Promise<{ title: string; text: string; vocabulary: VocabularyItem[]; usage: TokenUsage }> => {
-  const { prompts } = getStoredPrompts();
-  
-  const lengthVal = config.length === 'Short' ? '60' : config.length === 'Medium' ? '150' : '250';
-  
-  const userPrompt = prompts.generate
-    .replace("{topic}", config.topic)
-    .replace("{difficulty}", config.difficulty)
-    .replace("{length}", lengthVal);
-
-  const result = await callDeepSeek(SYSTEM_PROMPT, userPrompt);
-  return { ...result.content, usage: result.usage };
+const ZERO_USAGE: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+
+const dictionaryLookup = async (word: string, sentence: string): Promise<CachedLookupResult | null> => {
+  const entry = await findDictionaryEntry(word).catch(err => {
+    console.error("Dictionary lookup failed", err);
+    return null;
+  });
+  return entry ? { ...dictionaryItem(entry, sentence), usage: ZERO_USAGE, source: 'dictionary' } : null;
 };
 
-export const analyzeCustomText = async (text: string): Promise<{ title: string; text: string; vocabulary: VocabularyItem[]; usage: TokenUsage }> => {
-  const { prompts } = getStoredPrompts();
+// lookupWordContext behind the persistent lookup cache and the offline
+// dictionary; a failing cache never blocks the lookup
+export const lookupWordCached = async (word: string, fullContext: string, options: CachedLookupOptions): Promise<CachedLookupResult> => {
+  const { sentence, forceRefresh, ...requestOptions } = options;
+  const scope = { direction: options.direction, nativeLanguage: options.nativeLanguage };
+
+  const dictionary = forceRefresh || !dictionaryCovers(options.direction, options.nativeLanguage)
+    ? 'off'
+    : (await getDictionarySettings().catch(() => null))?.mode || 'off';
+
+  if (!forceRefresh) {
+    const cached = await readLookupCache(word, sentence, scope).catch(err => {
+      console.error("Lookup cache read failed", err);
+      return null;
+    });
+    if (cached) return { ...cached.item, usage: ZERO_USAGE, savedUsage: cached.usage, cached: cached.hit, source: 'ai' };
+  }
 
-  const userPrompt = prompts.analyze + `\n\nTEXT TO ANALYZE: "${text.substring(0, 4000)}"`;
+  if (dictionary === 'first') {
+    const found = await dictionaryLookup(word, sentence);
+    if (found) return found;
+  }
 
-  const result = await callDeepSeek(SYSTEM_PROMPT, userPrompt);
-  // Ensure the original text is preserved exactly
-  return { ...result.content, text: text, usage: result.usage };
+  try {
+    const { usage, ...item } = await lookupWordContext(word, fullContext, requestOptions);
+    writeLookupCache(word, sentence, scope, item, usage).catch(err => console.error("Lookup cache write failed", err));
+    return { ...item, usage, source: 'ai' };
+  } catch (error) {
+    // No key, no network or a server error: answer offline when we can
+    if (dictionary === 'fallback' && !isAbortError(error)) {
+      const found = await dictionaryLookup(word, sentence);
+      if (found) return found;
+    }
+    throw error;
+  }
 };
 
-export const lookupWordContext = async (word: string, fullContext: string): Promise<VocabularyItem & { usage: TokenUsage }> => {
-  const { prompts } = getStoredPrompts();
-  
-  const contextSnippet = fullContext.length > 500 ? fullContext.substring(0, 500) + "..." : fullContext;
-  
-  const userPrompt = prompts.lookup
-    .replace("{word}", word)
-    .replace("{context}", contextSnippet);
-
-  const result = await callDeepSeek(SYSTEM_PROMPT, userPrompt);
-  return { ...result.content, word, usage: result.usage };
-};
+// Long texts are graded chunk by chunk against the matching part of the
+// translation; the results are merged into one evaluation
+export const evaluateFullTranslation = async (original: string, userTranslation: string, options?: StreamOptions<PartialEvaluation>): Promise<EvaluationResult & { usage: TokenUsage }> => {
+  const provider = await getActiveProvider();
+  const chunks = chunkText(original, EVALUATION_CHUNK_CHARS);
+  if (chunks.length < 2) return provider.evaluate(original, userTranslation, options);
+
+  const pieces = alignTranslation(chunks, userTranslation);
+  const { onPartial, ...requestOptions } = options || {};
+  const partials: PartialEvaluation[] = chunks.map(() => ({}));
+  const report = (index: number, partial: PartialEvaluation) => {
+    partials[index] = partial;
+    onPartial?.(mergePartialEvaluations(partials, pieces));
+  };
 
-export const evaluateFullTranslation = async (original: string, userTranslation: string): Promise<EvaluationResult & { usage: TokenUsage }> => {
-  const { prompts } = getStoredPrompts();
-  
-  const userPrompt = prompts.evaluate
-    .replace("{original}", original)
-    .replace("{translation}", userTranslation)
-    + " Ensure you include a 'score' (0-100) in the JSON response.";
-
-  const result = await callDeepSeek(SYSTEM_PROMPT, userPrompt);
-  return { ...result.content, usage: result.usage };
-};
\ No newline at end of file
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, index, signal) => {
+    // No request for a part the translation does not cover
+    if (!pieces[index].trim()) {
+      const omitted = omittedEvaluation(chunk);
+      if (onPartial) report(index, omitted);
+      return omitted;
+    }
+    const result = await provider.evaluate(chunk.trim(), pieces[index].trim(), {
+      ...requestOptions,
+      signal,
+      onPartial: onPartial && (partial => report(index, partial))
+    });
+    if (onPartial) report(index, result);
+    return result;
+  }, options?.signal);
+  return mergeEvaluations(chunks, pieces, results);
+};
@@ -0,0 +1,235 @@
+import { PracticeSession, VocabularyItem, ErrorCategory, ErrorSeverity } from "../types";
+
+// Progress statistics derived from the session history and the saved words.
+// Everything is computed on the fly; nothing here is stored.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Local midnight, so "today" matches the learner's calendar
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (time: number) => {
+  const d = new Date(startOfDay(time));
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+export const hasScore = (session: PracticeSession): boolean => typeof session.evaluation?.score === 'number';
+
+// --- Score over time ---
+
+export interface ScorePoint {
+  sessionId: string;
+  date: number;
+  score: number;
+  title: string;
+}
+
+export const scoreTrend = (sessions: PracticeSession[]): ScorePoint[] =>
+  sessions
+    .filter(hasScore)
+    .map(s => ({ sessionId: s.id, date: s.date, score: s.evaluation!.score!, title: s.title }))
+    .sort((a, b) => a.date - b.date);
+
+// --- Sessions per week ---
+
+export interface WeekCount {
+  weekStart: number;
+  count: number;
+}
+
+// The last `weeks` weeks up to and including the current one, empty weeks included
+export const sessionsPerWeek = (sessions: PracticeSession[], weeks = 12, now = Date.now()): WeekCount[] => {
+  const current = startOfWeek(now);
+  const buckets: WeekCount[] = Array.from({ length: weeks }, (_, idx) => {
+    const d = new Date(current);
+    d.setDate(d.getDate() - 7 * (weeks - 1 - idx));
+    return { weekStart: d.getTime(), count: 0 };
+  });
+  const index = new Map(buckets.map((b, idx) => [b.weekStart, idx]));
+  sessions.forEach(s => {
+    const idx = index.get(startOfWeek(s.date));
+    if (idx !== undefined) buckets[idx].count++;
+  });
+  return buckets;
+};
+
+// --- Average score by difficulty / topic ---
+
+export interface GroupScore {
+  label: string;
+  average: number;
+  sessions: number;
+}
+
+const groupScores = (sessions: PracticeSession[], keyOf: (s: PracticeSession) => string): GroupScore[] => {
+  const groups = new Map<string, { label: string; scores: number[] }>();
+  sessions.filter(hasScore).forEach(s => {
+    const label = keyOf(s);
+    const key = label.toLowerCase();
+    const group = groups.get(key) || { label, scores: [] };
+    group.scores.push(s.evaluation!.score!);
+    groups.set(key, group);
+  });
+  return [...groups.values()].map(g => ({ label: g.label, average: Math.round(average(g.scores)), sessions: g.scores.length }));
+};
+
+const CUSTOM_TEXT = 'Custom text';
+
+export const scoreByDifficulty = (sessions: PracticeSession[]): GroupScore[] => {
+  const order = ['Beginner', 'Intermediate', 'Advanced', CUSTOM_TEXT];
+  return groupScores(sessions, s => s.config?.difficulty || CUSTOM_TEXT)
+    .sort((a, b) => order.indexOf(a.label) - order.indexOf(b.label));
+};
+
+// Most practised topics first
+export const scoreByTopic = (sessions: PracticeSession[], limit = 8): GroupScore[] =>
+  groupScores(sessions, s => s.config?.topic.trim() || CUSTOM_TEXT)
+    .sort((a, b) => b.sessions - a.sessions || b.average - a.average)
+    .slice(0, limit);
+
+// --- Streaks ---
+
+export interface Streaks {
+  current: number;
+  longest: number;
+  activeDays: number;
+}
+
+// Consecutive days with at least one session; today without a session yet doesn't break the streak
+export const practiceStreaks = (sessions: PracticeSession[], now = Date.now()): Streaks => {
+  const days = [...new Set(sessions.map(s => startOfDay(s.date)))].sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0, activeDays: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    // Round so DST changes (23h/25h days) still count as one day
+    run = Math.round((days[i] - days[i - 1]) / DAY) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const gap = Math.round((startOfDay(now) - days[days.length - 1]) / DAY);
+  return { current: gap <= 1 ? run : 0, longest, activeDays: days.length };
+};
+
+// --- Vocabulary growth ---
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+export type CefrBucket = typeof CEFR_LEVELS[number] | 'Other';
+
+export interface VocabularyWeek {
+  weekStart: number;
+  // Words saved up to the end of that week, per level
+  totals: Record<CefrBucket, number>;
+}
+
+const emptyTotals = (): Record<CefrBucket, number> => ({ A1: 0, A2: 0, B1: 0, B2: 0, C1: 0, C2: 0, Other: 0 });
+
+const cefrBucket = (cefr?: string): CefrBucket =>
+  (CEFR_LEVELS as readonly string[]).includes(cefr || '') ? cefr as CefrBucket : 'Other';
+
+// Cumulative deck size per week; words saved before save times were recorded count from the first week
+export const vocabularyGrowth = (words: VocabularyItem[], weeks = 12, now = Date.now()): VocabularyWeek[] => {
+  const buckets = sessionsPerWeek([], weeks, now).map(w => ({ weekStart: w.weekStart, totals: emptyTotals() }));
+  words.forEach(word => {
+    const savedWeek = word.savedAt ? startOfWeek(word.savedAt) : 0;
+    buckets.forEach(bucket => {
+      if (savedWeek <= bucket.weekStart) bucket.totals[cefrBucket(word.cefr)]++;
+    });
+  });
+  return buckets;
+};
+
+// --- Weakest error categories ---
+
+export interface CategoryStats {
+  category: ErrorCategory;
+  count: number;
+  // Severity-weighted count (minor 1, major 2, critical 3); sorts the weakest first
+  weight: number;
+  sessions: number;
+  examples: string[];
+}
+
+const SEVERITY_WEIGHT: Record<ErrorSeverity, number> = { minor: 1, major: 2, critical: 3 };
+
+// Keyword rules (English and Vietnamese) for sessions evaluated before errors were tagged; first match wins
+const CATEGORY_RULES: { category: ErrorCategory; pattern: RegExp }[] = [
+  { category: 'tense', pattern: /\b(tense|verb form|past|present|future|continuous|perfect|conjugat)|thì|động từ/i },
+  { category: 'classifier', pattern: /\b(classifier|measure word)|loại từ|lượng từ/i },
+  { category: 'idiom', pattern: /\b(idiom|set phrase|expression)|thành ngữ|tục ngữ/i },
+  { category: 'word-choice', pattern: /\b(word choice|vocabulary|synonym|wrong word|more accurate|better word|collocation|meaning)|từ vựng|dùng từ|chọn từ|nghĩa/i },
+  { category: 'word-order', pattern: /\b(word order|order of|sentence structure|structure|placement)|trật tự|cấu trúc|vị trí/i },
+  { category: 'preposition-article', pattern: /\b(preposition|article)|giới từ|mạo từ/i },
+  { category: 'agreement', pattern: /\b(plural|singular|agreement|quantifier)|số nhiều|số ít/i },
+  { category: 'spelling', pattern: /\b(spelling|typo|diacritic|accent|tone mark)|chính tả|dấu thanh|thiếu dấu/i },
+  { category: 'punctuation', pattern: /\b(punctuation|comma|period|capitali[sz])|dấu câu|dấu phẩy|viết hoa/i },
+  { category: 'omission', pattern: /\b(missing|omit|omitted|left out|untranslated)|thiếu|bỏ sót/i },
+  { category: 'addition', pattern: /\b(unnecessary|redundant|extra)|thừa/i },
+  { category: 'style', pattern: /\b(natural|awkward|literal|fluency|fluent|tone|formal|informal|style|register)|tự nhiên|văn phong|sát nghĩa|trôi chảy/i }
+];
+
+export const categorizeImprovement = (text: string): ErrorCategory =>
+  CATEGORY_RULES.find(rule => rule.pattern.test(text))?.category || 'other';
+
+// Tagged errors where the evaluation has them, otherwise the free-text improvements sorted by keyword
+const sessionMistakes = (session: PracticeSession): { category: ErrorCategory; weight: number; example: string }[] => {
+  const evaluation = session.evaluation;
+  if (!evaluation) return [];
+  if (evaluation.errors?.length) {
+    return evaluation.errors.map(e => ({
+      category: e.category,
+      weight: SEVERITY_WEIGHT[e.severity],
+      example: e.userSpan ? `${e.userSpan} → ${e.suggestion}` : `Missing: ${e.suggestion || e.sourceSpan}`
+    }));
+  }
+  return (evaluation.keyImprovements || []).map(text => ({ category: categorizeImprovement(text), weight: 1, example: text }));
+};
+
+export const weakestCategories = (sessions: PracticeSession[], examplesPerCategory = 3): CategoryStats[] => {
+  const categories = new Map<ErrorCategory, CategoryStats>();
+  sessions.forEach(s => {
+    const seenHere = new Set<ErrorCategory>();
+    sessionMistakes(s).forEach(({ category, weight, example }) => {
+      const entry = categories.get(category) || { category, count: 0, weight: 0, sessions: 0, examples: [] };
+      entry.count++;
+      entry.weight += weight;
+      if (!seenHere.has(category)) entry.sessions++;
+      seenHere.add(category);
+      // Newest sessions come first in history, so these are the latest examples
+      if (entry.examples.length < examplesPerCategory && !entry.examples.includes(example)) entry.examples.push(example);
+      categories.set(category, entry);
+    });
+  });
+  return [...categories.values()].sort((a, b) => b.weight - a.weight || b.count - a.count);
+};
+
+// --- Summary ---
+
+export interface ProgressSummary {
+  sessions: number;
+  scored: number;
+  averageScore: number;
+  // Average of the last 5 scored sessions minus the 5 before them (0 if not enough data)
+  recentChange: number;
+}
+
+export const progressSummary = (sessions: PracticeSession[]): ProgressSummary => {
+  const scores = scoreTrend(sessions).map(p => p.score);
+  const recent = scores.slice(-5);
+  const before = scores.slice(-10, -5);
+  return {
+    sessions: sessions.length,
+    scored: scores.length,
+    averageScore: Math.round(average(scores)),
+    recentChange: before.length ? Math.round(average(recent) - average(before)) : 0
+  };
+};
@@ -0,0 +1,255 @@
+import { PracticeSession, VocabularyItem, AIContentConfig, TranslationDirection, TRANSLATION_DIRECTIONS, NativeLanguage, NATIVE_LANGUAGES, LanguageSettings, PromptConfig, ProviderConfig, ReviewSchedule, EvaluationResult, SentenceEvaluation, DictationEntry, DictationResult, TokenUsage } from "../types";
+import { loadSessions, loadWords, getSetting, setSetting, saveSessions, saveWords, replaceAllData } from "./storage";
+import { normalizeVocabularyItem, normalizeTranslationErrors } from "./validation";
+import { dictationScore } from "./dictation";
+
+// Full backup of sessions, saved words and settings as one versioned JSON file.
+
+export const BACKUP_VERSION = 1;
+
+export interface BackupBundle {
+  app: 'linguaflow';
+  version: number;
+  exportedAt: number;
+  sessions: PracticeSession[];
+  words: VocabularyItem[];
+  settings: {
+    prompts?: PromptConfig;
+    promptsViEn?: PromptConfig;
+    language?: LanguageSettings;
+    // API keys are never exported
+    provider?: Partial<ProviderConfig>;
+  };
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  sessions: { total: number; new: number; duplicates: number };
+  words: { total: number; new: number; duplicates: number };
+  hasSettings: boolean;
+}
+
+const SECRET_FIELDS: (keyof ProviderConfig)[] = ['deepseekApiKey', 'geminiApiKey', 'openaiApiKey'];
+
+export const createBackup = async (): Promise<BackupBundle> => {
+  const [sessions, words, prompts, promptsViEn, language, provider] = await Promise.all([
+    loadSessions(),
+    loadWords(),
+    getSetting<PromptConfig>('prompts'),
+    getSetting<PromptConfig>('promptsViEn'),
+    getSetting<LanguageSettings>('language'),
+    getSetting<Partial<ProviderConfig>>('provider')
+  ]);
+
+  const publicProvider = provider ? { ...provider } : undefined;
+  if (publicProvider) SECRET_FIELDS.forEach(field => delete publicProvider[field]);
+
+  return {
+    app: 'linguaflow',
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    sessions,
+    words,
+    settings: { prompts, promptsViEn, language, provider: publicProvider }
+  };
+};
+
+// --- Validation ---
+
+type JsonObject = Record<string, any>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUsage = (value: unknown): value is TokenUsage =>
+  isObject(value) && ['promptTokens', 'responseTokens', 'totalTokens'].every(key => typeof value[key] === 'number');
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+
+const isSchedule = (value: unknown): value is ReviewSchedule =>
+  isObject(value) && ['ease', 'interval', 'due', 'reps', 'lapses', 'lastReviewed'].every(key => typeof value[key] === 'number');
+
+// Like an AI vocabulary entry, plus the study state that only saved words carry
+const parseWord = (value: unknown): VocabularyItem | null => {
+  const item = normalizeVocabularyItem(value);
+  if (!item || !isObject(value)) return null;
+  return {
+    ...item,
+    review: isSchedule(value.review) ? value.review : undefined,
+    savedAt: typeof value.savedAt === 'number' ? value.savedAt : undefined
+  };
+};
+
+const parseWords = (value: unknown): VocabularyItem[] =>
+  Array.isArray(value) ? value.map(parseWord).filter((item): item is VocabularyItem => item !== null) : [];
+
+const parseEvaluation = (value: unknown): EvaluationResult | undefined => {
+  if (!isObject(value) || typeof value.correctedTranslation !== 'string') return undefined;
+  return {
+    ...value,
+    correctedTranslation: value.correctedTranslation,
+    keyImprovements: Array.isArray(value.keyImprovements) ? value.keyImprovements.filter((s: unknown) => typeof s === 'string') : [],
+    difficultWords: parseWords(value.difficultWords),
+    score: typeof value.score === 'number' ? value.score : undefined,
+    usage: isUsage(value.usage) ? value.usage : undefined,
+    errors: Array.isArray(value.errors) ? normalizeTranslationErrors(value.errors) : undefined
+  };
+};
+
+const parseSentenceEvaluations = (value: unknown): SentenceEvaluation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap(entry => {
+    if (!isObject(entry) || typeof entry.source !== 'string' || typeof entry.userTranslation !== 'string') return [];
+    const evaluation = parseEvaluation(entry.evaluation);
+    return evaluation ? [{ source: entry.source, userTranslation: entry.userTranslation, evaluation }] : [];
+  });
+};
+
+const parseDictation = (value: unknown): DictationResult | undefined => {
+  if (!isObject(value) || !Array.isArray(value.entries)) return undefined;
+  const entries = value.entries.flatMap((entry: unknown): DictationEntry[] => {
+    if (!isObject(entry) || typeof entry.sentence !== 'string' || typeof entry.typed !== 'string') return [];
+    return [{
+      sentence: entry.sentence,
+      typed: entry.typed,
+      wordAccuracy: typeof entry.wordAccuracy === 'number' ? entry.wordAccuracy : 0,
+      charAccuracy: typeof entry.charAccuracy === 'number' ? entry.charAccuracy : 0,
+      missedWords: Array.isArray(entry.missedWords) ? entry.missedWords.filter((w: unknown) => typeof w === 'string') : []
+    }];
+  });
+  return { entries, score: typeof value.score === 'number' ? value.score : dictationScore(entries) };
+};
+
+const DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
+const LENGTHS = ['Short', 'Medium', 'Long'];
+
+const parseDirection = (value: unknown): TranslationDirection | undefined =>
+  TRANSLATION_DIRECTIONS.includes(value as TranslationDirection) ? value as TranslationDirection : undefined;
+
+const parseNativeLanguage = (value: unknown): NativeLanguage | undefined =>
+  typeof value === 'string' && value in NATIVE_LANGUAGES ? value as NativeLanguage : undefined;
+
+const parseLanguageSettings = (value: unknown): LanguageSettings | undefined => {
+  if (!isObject(value)) return undefined;
+  const native = parseNativeLanguage(value.native);
+  return native ? { native, localizeInterface: value.localizeInterface === true } : undefined;
+};
+
+const parseConfig = (value: unknown): AIContentConfig | undefined => {
+  if (!isObject(value) || typeof value.topic !== 'string') return undefined;
+  if (!DIFFICULTIES.includes(value.difficulty as string) || !LENGTHS.includes(value.length as string)) return undefined;
+  return {
+    topic: value.topic,
+    difficulty: value.difficulty as AIContentConfig['difficulty'],
+    length: value.length as AIContentConfig['length'],
+    direction: parseDirection(value.direction)
+  };
+};
+
+const parseSession = (value: unknown): PracticeSession | null => {
+  if (!isObject(value)) return null;
+  if (typeof value.id !== 'string' || !value.id || typeof value.text !== 'string') return null;
+  return {
+    ...value,
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title : 'Untitled Practice',
+    text: value.text,
+    vocabulary: parseWords(value.vocabulary),
+    date: typeof value.date === 'number' ? value.date : Date.now(),
+    config: parseConfig(value.config),
+    direction: parseDirection(value.direction),
+    nativeLanguage: parseNativeLanguage(value.nativeLanguage),
+    initialUsage: isUsage(value.initialUsage) ? value.initialUsage : EMPTY_USAGE,
+    lookupUsage: isUsage(value.lookupUsage) ? value.lookupUsage : EMPTY_USAGE,
+    lookupSavedUsage: isUsage(value.lookupSavedUsage) ? value.lookupSavedUsage : undefined,
+    evaluationUsage: isUsage(value.evaluationUsage) ? value.evaluationUsage : undefined,
+    userTranslation: typeof value.userTranslation === 'string' ? value.userTranslation : undefined,
+    evaluation: parseEvaluation(value.evaluation),
+    sentenceEvaluations: parseSentenceEvaluations(value.sentenceEvaluations),
+    dictation: parseDictation(value.dictation)
+  };
+};
+
+// Later entries with an id/word already seen are dropped
+const dedupeBy = <T>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+// Throws with a user-facing message when the file is not a usable backup
+export const parseBackup = (json: string): BackupBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (!isObject(data) || data.app !== 'linguaflow') {
+    throw new Error("This file is not a LinguaFlow backup.");
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version (${data.version}). Please update the app.`);
+  }
+
+  const sessions = Array.isArray(data.sessions)
+    ? data.sessions.map(parseSession).filter((s: PracticeSession | null): s is PracticeSession => s !== null)
+    : [];
+  const settings = isObject(data.settings) ? data.settings : {};
+  const provider = isObject(settings.provider) ? { ...settings.provider } : undefined;
+  if (provider) SECRET_FIELDS.forEach(field => delete provider[field]);
+
+  return {
+    app: 'linguaflow',
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    sessions: dedupeBy(sessions, (s: PracticeSession) => s.id),
+    words: dedupeBy(parseWords(data.words), w => w.word),
+    settings: {
+      prompts: isObject(settings.prompts) ? settings.prompts as PromptConfig : undefined,
+      promptsViEn: isObject(settings.promptsViEn) ? settings.promptsViEn as PromptConfig : undefined,
+      language: parseLanguageSettings(settings.language),
+      provider
+    }
+  };
+};
+
+export const previewImport = (bundle: BackupBundle, existingSessions: PracticeSession[], existingWords: VocabularyItem[]): ImportPreview => {
+  const sessionIds = new Set(existingSessions.map(s => s.id));
+  const wordKeys = new Set(existingWords.map(w => w.word));
+  const newSessions = bundle.sessions.filter(s => !sessionIds.has(s.id)).length;
+  const newWords = bundle.words.filter(w => !wordKeys.has(w.word)).length;
+
+  return {
+    sessions: { total: bundle.sessions.length, new: newSessions, duplicates: bundle.sessions.length - newSessions },
+    words: { total: bundle.words.length, new: newWords, duplicates: bundle.words.length - newWords },
+    hasSettings: !!(bundle.settings.prompts || bundle.settings.promptsViEn || bundle.settings.language || bundle.settings.provider)
+  };
+};
+
+// merge: add sessions and words that are not here yet, keep local settings.
+// replace: swap in the backup's data and settings (local API keys are kept).
+export const applyImport = async (bundle: BackupBundle, mode: ImportMode, existingSessions: PracticeSession[], existingWords: VocabularyItem[]) => {
+  if (mode === 'replace') {
+    await replaceAllData(bundle.sessions, bundle.words);
+    if (bundle.settings.prompts) await setSetting('prompts', bundle.settings.prompts);
+    if (bundle.settings.promptsViEn) await setSetting('promptsViEn', bundle.settings.promptsViEn);
+    if (bundle.settings.language) await setSetting('language', bundle.settings.language);
+    if (bundle.settings.provider) {
+      const current = await getSetting<Partial<ProviderConfig>>('provider');
+      await setSetting('provider', { ...current, ...bundle.settings.provider });
+    }
+    return;
+  }
+
+  const sessionIds = new Set(existingSessions.map(s => s.id));
+  const wordKeys = new Set(existingWords.map(w => w.word));
+  await saveSessions(bundle.sessions.filter(s => !sessionIds.has(s.id)));
+  await saveWords(bundle.words.filter(w => !wordKeys.has(w.word)));
+};
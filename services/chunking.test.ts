@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { EvaluationResult, VocabularyItem } from '../types';
+import { chunkText, alignTranslation, mapWithConcurrency, mergeEvaluations, mergePartialEvaluations, omittedEvaluation } from './chunking';
+
+const usage = (totalTokens: number) => ({ promptTokens: totalTokens, responseTokens: 0, totalTokens });
+
+const word = (text: string): VocabularyItem => ({ word: text, definition: '', translation: '' });
+
+const evaluation = (result: Partial<EvaluationResult>): EvaluationResult => ({
+  correctedTranslation: '',
+  keyImprovements: [],
+  difficultWords: [],
+  usage: usage(10),
+  ...result
+});
+
+describe('chunkText', () => {
+  const text = 'One two three. Four five six. Seven eight nine. Ten.';
+
+  it('cuts between sentences and gives back the text when joined', () => {
+    const chunks = chunkText(text, 30);
+    expect(chunks).toEqual(['One two three. Four five six. ', 'Seven eight nine. Ten.']);
+    expect(chunks.join('')).toBe(text);
+  });
+
+  it('keeps every chunk within the limit', () => {
+    chunkText(text, 20).forEach(chunk => expect(chunk.trimEnd().length).toBeLessThanOrEqual(20));
+  });
+
+  it('gives an overlong sentence a chunk of its own', () => {
+    expect(chunkText('Short. This sentence is far longer than the limit. End.', 10)).toEqual([
+      'Short. ',
+      'This sentence is far longer than the limit. ',
+      'End.'
+    ]);
+  });
+
+  it('returns short text whole', () => {
+    expect(chunkText(text, 1000)).toEqual([text]);
+  });
+});
+
+describe('alignTranslation', () => {
+  const chunks = ['A b. C d. ', 'E f. ', 'G h.'];
+
+  it('pairs sentences one to one when the counts match', () => {
+    expect(alignTranslation(chunks, 'W x. Y z. P q. R s.')).toEqual(['W x. Y z. ', 'P q. ', 'R s.']);
+  });
+
+  it('leaves the uncovered chunks empty when the translation is short', () => {
+    const pieces = alignTranslation(chunks, 'X y. Z w.');
+    expect(pieces).toHaveLength(3);
+    expect(pieces.join('')).toBe('X y. Z w.');
+    expect(pieces[pieces.length - 1]).toBe('');
+  });
+
+  it('hands a single chunk the whole translation', () => {
+    expect(alignTranslation(['A b.'], 'X y. Z w.')).toEqual(['X y. Z w.']);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order with at most `limit` tasks in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it('aborts the other tasks when one fails', async () => {
+    const signals: AbortSignal[] = [];
+    const run = mapWithConcurrency([1, 2, 3], 3, async (item, _index, signal) => {
+      signals.push(signal);
+      if (item === 1) throw new Error('failed');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return item;
+    });
+    await expect(run).rejects.toThrow('failed');
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+});
+
+describe('mergeEvaluations', () => {
+  it('weights the score by the length of each source chunk', () => {
+    const merged = mergeEvaluations(['a'.repeat(300), 'b'.repeat(100)], ['X. ', 'Y.'], [
+      evaluation({ score: 80 }),
+      evaluation({ score: 40 })
+    ]);
+    expect(merged.score).toBe(70);
+  });
+
+  it('skips chunks without a score', () => {
+    const merged = mergeEvaluations(['a'.repeat(300), 'b'.repeat(100)], ['X. ', 'Y.'], [
+      evaluation({}),
+      evaluation({ score: 40 })
+    ]);
+    expect(merged.score).toBe(40);
+  });
+
+  it('removes duplicate improvements and inflected forms of the same word', () => {
+    const merged = mergeEvaluations(['A. ', 'B.'], ['X. ', 'Y.'], [
+      evaluation({ keyImprovements: ['Use past tense'], difficultWords: [word('run'), word('bank')] }),
+      evaluation({ keyImprovements: ['Use past tense', 'Mind articles'], difficultWords: [word('ran'), word('river')] })
+    ]);
+    expect(merged.keyImprovements).toEqual(['Use past tense', 'Mind articles']);
+    expect(merged.difficultWords.map(item => item.word)).toEqual(['run', 'bank', 'river']);
+  });
+
+  it('joins corrections and adds up usage', () => {
+    const merged = mergeEvaluations(['A. ', 'B.'], ['X.\n\n', 'Y.'], [
+      evaluation({ correctedTranslation: 'X fixed.' }),
+      evaluation({ correctedTranslation: 'Y fixed.' })
+    ]);
+    expect(merged.correctedTranslation).toBe('X fixed.\n\nY fixed.');
+    expect(merged.usage.totalTokens).toBe(20);
+  });
+
+  it('scores a chunk the translation left out as zero', () => {
+    const chunks = ['a'.repeat(100), 'b'.repeat(100)];
+    const merged = mergeEvaluations(chunks, ['X.', ''], [
+      evaluation({ correctedTranslation: 'X.', score: 90 }),
+      omittedEvaluation(chunks[1])
+    ]);
+    expect(merged.score).toBe(45);
+    expect(merged.correctedTranslation).toBe('X.');
+    expect(merged.errors).toEqual([expect.objectContaining({ category: 'omission', sourceSpan: chunks[1] })]);
+    expect(merged.usage.totalTokens).toBe(10);
+  });
+});
+
+describe('mergePartialEvaluations', () => {
+  it('shows corrections only up to the first chunk still without one', () => {
+    const pieces = ['X. ', 'Y. ', 'Z.'];
+    expect(mergePartialEvaluations([{ correctedTranslation: 'X!' }, {}, { correctedTranslation: 'Z!' }], pieces).correctedTranslation).toBe('X!');
+    expect(mergePartialEvaluations([{ correctedTranslation: 'X!' }, { correctedTranslation: '' }, { correctedTranslation: 'Z!' }], pieces).correctedTranslation).toBe('X! Z!');
+  });
+});
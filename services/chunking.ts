@@ -0,0 +1,163 @@
+import { EvaluationResult, GeneratedContent, TokenUsage, VocabularyItem } from "../types";
+import { PartialEvaluation } from "./providers";
+import { segmentSentences } from "./segmenter";
+import { lemmaCandidates } from "./lemmatizer";
+import { sumUsage } from "./sentences";
+
+// Long texts are analyzed and graded in sentence-aligned chunks so that no
+// part of an article is cut off or lost in an oversized prompt.
+
+export const ANALYSIS_CHUNK_CHARS = 4000;
+// Smaller, since the prompt carries both the original and the translation
+export const EVALUATION_CHUNK_CHARS = 3000;
+// Requests in flight at once; more tends to hit provider rate limits
+export const CHUNK_CONCURRENCY = 3;
+
+// Splits text between sentences into chunks of at most maxChars (a longer
+// sentence gets a chunk of its own). Joining the chunks gives back the text.
+export const chunkText = (text: string, maxChars: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  segmentSentences(text).forEach(sentence => {
+    if (current && (current + sentence.text).trimEnd().length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current += sentence.text;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// Cuts a translation into as many pieces as the source was cut into. With the
+// same number of sentences they are paired one to one; otherwise each cut goes
+// to the sentence end closest to the same share of the text.
+export const alignTranslation = (sourceChunks: string[], translation: string): string[] => {
+  if (sourceChunks.length < 2) return [translation];
+  const sentences = segmentSentences(translation);
+  const counts = sourceChunks.map(chunk => segmentSentences(chunk).length);
+  const sameCount = sentences.length === counts.reduce((sum, count) => sum + count, 0);
+  const sourceLength = sourceChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  // Index of the first translation sentence of every chunk after the first
+  const cuts: number[] = [];
+  let sourceSoFar = 0;
+  let countSoFar = 0;
+  for (let i = 0; i < sourceChunks.length - 1; i++) {
+    sourceSoFar += sourceChunks[i].length;
+    countSoFar += counts[i];
+    if (sameCount) {
+      cuts.push(countSoFar);
+      continue;
+    }
+    const target = translation.length * sourceSoFar / sourceLength;
+    const previous = cuts.length ? cuts[cuts.length - 1] : 0;
+    let best = sentences.length;
+    let bestDistance = Math.abs(translation.length - target);
+    for (let index = previous + 1; index < sentences.length; index++) {
+      const distance = Math.abs(sentences[index].start - target);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    cuts.push(best);
+  }
+
+  const bounds = [0, ...cuts, sentences.length];
+  return sourceChunks.map((_, i) => sentences.slice(bounds[i], bounds[i + 1]).map(sentence => sentence.text).join(''));
+};
+
+// Runs task over items with at most `limit` in flight, results in input order.
+// The first failure aborts the rest through the signal handed to each task.
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T, index: number, signal: AbortSignal) => Promise<R>, signal?: AbortSignal): Promise<R[]> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort);
+
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index, controller.signal);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker().catch(error => {
+      controller.abort(error);
+      throw error;
+    })));
+    return results;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+// Keeps the first entry of every word; inflected forms ("ran", "run") count as the same word
+export const mergeVocabulary = (lists: VocabularyItem[][]): VocabularyItem[] => {
+  const seen = new Set<string>();
+  const merged: VocabularyItem[] = [];
+  lists.flat().forEach(item => {
+    const forms = lemmaCandidates(item.word);
+    if (forms.length === 0 || forms.some(form => seen.has(form))) return;
+    forms.forEach(form => seen.add(form));
+    merged.push(item);
+  });
+  return merged;
+};
+
+// Per-chunk analyses as one: the first chunk's title, every chunk's vocabulary
+export const mergeAnalyses = (text: string, results: GeneratedContent[]): GeneratedContent => ({
+  title: results.find(result => result.title.trim())?.title || results[0].title,
+  text,
+  vocabulary: mergeVocabulary(results.map(result => result.vocabulary)),
+  usage: sumUsage(results.map(result => result.usage))
+});
+
+// Corrections joined with the whitespace that separated the translation pieces
+const joinCorrections = (corrections: string[], pieces: string[]) =>
+  corrections.reduce((text, correction, i) => {
+    if (!text || !correction.trim()) return text || correction.trim();
+    const gap = pieces[i - 1].match(/\s*$/)![0];
+    return `${text}${gap.includes('\n') ? gap : ' '}${correction.trim()}`;
+  }, '');
+
+// A chunk the translation left out is graded here instead of by the provider:
+// nothing of it was translated
+export const omittedEvaluation = (chunk: string): EvaluationResult & { usage: TokenUsage } => ({
+  correctedTranslation: '',
+  keyImprovements: [],
+  difficultWords: [],
+  score: 0,
+  errors: [{ category: 'omission', sourceSpan: chunk.trim(), userSpan: '', suggestion: '', severity: 'critical' }],
+  usage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 }
+});
+
+// Per-chunk evaluations as one; the score is weighted by the length of each source chunk
+export const mergeEvaluations = (sourceChunks: string[], translationPieces: string[], results: EvaluationResult[]): EvaluationResult & { usage: TokenUsage } => {
+  const scored = results.map((result, i) => ({ score: result.score, weight: sourceChunks[i].length })).filter(entry => typeof entry.score === 'number');
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+
+  return {
+    correctedTranslation: joinCorrections(results.map(result => result.correctedTranslation), translationPieces),
+    keyImprovements: Array.from(new Set(results.flatMap(result => result.keyImprovements || []))),
+    difficultWords: mergeVocabulary(results.map(result => result.difficultWords)),
+    score: totalWeight > 0 ? Math.round(scored.reduce((sum, entry) => sum + entry.score! * entry.weight, 0) / totalWeight) : undefined,
+    errors: results.flatMap(result => result.errors || []),
+    usage: sumUsage(results.map(result => result.usage))
+  };
+};
+
+// Streaming view of the chunks graded so far: corrections up to the first chunk
+// still without one, so the text reads in order
+export const mergePartialEvaluations = (partials: PartialEvaluation[], translationPieces: string[]): PartialEvaluation => {
+  const ready = partials.findIndex(partial => partial.correctedTranslation === undefined);
+  const corrections = partials.slice(0, ready < 0 ? partials.length : ready).map(partial => partial.correctedTranslation!);
+  return {
+    correctedTranslation: corrections.length ? joinCorrections(corrections, translationPieces) : undefined,
+    keyImprovements: Array.from(new Set(partials.flatMap(partial => partial.keyImprovements || [])))
+  };
+};
@@ -0,0 +1,68 @@
+import { DictationEntry } from "../types";
+import { diffWords, similarity, tokenize, DiffSegment } from "./textDiff";
+
+// Grading for dictation: the learner types a sentence they only heard, so
+// case and punctuation don't count — only the words and how they are spelled.
+
+export const normalizeDictation = (text: string) =>
+  text.normalize('NFC')
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/[^\p{L}\p{M}\p{N}'\s-]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Word diff of what was typed against the sentence, both normalized
+export const diffDictation = (sentence: string, typed: string): DiffSegment[] =>
+  diffWords(normalizeDictation(typed), normalizeDictation(sentence));
+
+// Edit distance on characters, two rows at a time
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : 1 + Math.min(previous[j - 1], previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const isWord = (token: string) => /[\p{L}\p{N}]/u.test(token);
+
+export const gradeDictation = (sentence: string, typed: string): DictationEntry => {
+  const expected = normalizeDictation(sentence);
+  const actual = normalizeDictation(typed);
+  const segments = diffWords(actual, expected);
+
+  const longest = Math.max(expected.length, actual.length);
+  const charAccuracy = longest === 0 ? 100 : Math.round((1 - levenshtein(actual, expected) / longest) * 100);
+
+  // Report missed words as they are written in the sentence
+  const original = new Map(tokenize(sentence).map(t => [normalizeDictation(t.text), t.text]));
+  const missed = new Set<string>();
+  segments
+    .filter(s => s.type === 'insert' || s.type === 'replace')
+    .forEach(s => tokenize(s.after).forEach(t => {
+      if (isWord(t.text)) missed.add(original.get(t.text) || t.text);
+    }));
+
+  return {
+    sentence,
+    typed,
+    wordAccuracy: Math.round(similarity(segments) * 100),
+    charAccuracy,
+    missedWords: [...missed]
+  };
+};
+
+// Word accuracy over the whole text: each sentence counts by its number of words
+export const dictationScore = (entries: DictationEntry[]): number => {
+  const weights = entries.map(e => tokenize(normalizeDictation(e.sentence)).length);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return 0;
+  return Math.round(entries.reduce((sum, e, idx) => sum + e.wordAccuracy * weights[idx], 0) / total);
+};
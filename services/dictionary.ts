@@ -0,0 +1,194 @@
+import { DictionaryEntry, DictionarySettings, DEFAULT_DICTIONARY_SETTINGS, NativeLanguage, TranslationDirection, VocabularyItem } from "../types";
+import { getSetting, setSetting, getDictionaryEntry, replaceDictionary, clearDictionary, countDictionaryEntries, StoredDictionaryEntry } from "./storage";
+import { normalizeLookupWord } from "./lookupCache";
+import { lemmaCandidates } from "./lemmatizer";
+
+// Offline English–Vietnamese dictionary. A small list of common words ships
+// with the app; a full dictionary file imported in Settings is kept in
+// IndexedDB and consulted before it.
+
+export type DictionaryFormat = 'json' | 'tab' | 'marked';
+
+// Vietnamese part-of-speech headings used by the common "@word /ipa/" text dictionaries
+const VI_PARTS_OF_SPEECH: [RegExp, string][] = [
+  [/^danh từ/, 'noun'],
+  [/^(ngoại |nội )?động từ/, 'verb'],
+  [/^tính từ/, 'adjective'],
+  [/^(phó từ|trạng từ)/, 'adverb'],
+  [/^giới từ/, 'preposition'],
+  [/^liên từ/, 'conjunction'],
+  [/^đại từ/, 'pronoun'],
+  [/^thán từ/, 'interjection']
+];
+
+const partOfSpeech = (heading: string) => {
+  const lower = heading.trim().toLowerCase();
+  const known = VI_PARTS_OF_SPEECH.find(([pattern]) => pattern.test(lower));
+  return known ? known[1] : heading.trim();
+};
+
+const stripSlashes = (ipa: string) => ipa.trim().replace(/^[\/\[]+|[\/\]]+$/g, '').trim();
+
+const asMeanings = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String).map(text => text.trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(/\s*[;\n]\s*/).filter(Boolean);
+  return [];
+};
+
+// Accepts an array of entries or a { word: entry | meaning } map, with the field names we export or the usual alternatives
+const parseJsonDictionary = (text: string): DictionaryEntry[] => {
+  const data = JSON.parse(text);
+  const records: [string | undefined, any][] = Array.isArray(data)
+    ? data.map(record => [undefined, record])
+    : Object.entries(data);
+
+  return records.flatMap(([key, record]): DictionaryEntry[] => {
+    const fields = typeof record === 'object' && record !== null ? record : { meanings: record };
+    const word = String(fields.word || fields.headword || key || '').trim();
+    const meanings = asMeanings(fields.meanings ?? fields.vi ?? fields.translation ?? fields.translations);
+    if (!word || !meanings.length) return [];
+    const ipa = fields.ipa || fields.pronunciation || fields.phonetic;
+    return [{
+      word,
+      ipa: ipa ? stripSlashes(String(ipa)) : undefined,
+      pos: fields.pos || fields.type || undefined,
+      meanings,
+      definition: fields.definition || fields.en || undefined
+    }];
+  });
+};
+
+// StarDict tabfile: "word<TAB>definition", line breaks inside the definition written as \n
+const parseTabDictionary = (text: string): DictionaryEntry[] =>
+  text.split(/\r?\n/).flatMap((line): DictionaryEntry[] => {
+    const tab = line.indexOf('\t');
+    if (tab <= 0) return [];
+    const word = line.slice(0, tab).trim();
+    let body = line.slice(tab + 1).replace(/\\n/g, '\n').trim();
+    const ipa = body.match(/^[\/\[]([^\/\]\n]+)[\/\]]/);
+    if (ipa) body = body.slice(ipa[0].length);
+    const meanings = body.split(/\s*[;\n]\s*/).map(meaning => meaning.replace(/^[-•*]\s*/, '')).filter(Boolean);
+    return word && meanings.length ? [{ word, ipa: ipa ? ipa[1].trim() : undefined, meanings }] : [];
+  });
+
+// "@word /ipa/", then "* part of speech", "- meaning" and "=example" lines
+const parseMarkedDictionary = (text: string): DictionaryEntry[] => {
+  const entries: DictionaryEntry[] = [];
+  let current: DictionaryEntry | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith('@')) {
+      if (current?.meanings.length) entries.push(current);
+      const header = line.slice(1).match(/^([^\/\[]+?)\s*(?:[\/\[]([^\/\]]*)[\/\]])?\s*$/);
+      current = header ? { word: header[1].trim(), ipa: header[2]?.trim() || undefined, meanings: [] } : null;
+    } else if (current && line.startsWith('*')) {
+      current.pos = current.pos || partOfSpeech(line.slice(1));
+    } else if (current && line.startsWith('-')) {
+      const meaning = line.slice(1).trim();
+      if (meaning) current.meanings.push(meaning);
+    }
+  }
+  if (current?.meanings.length) entries.push(current);
+  return entries;
+};
+
+export const detectDictionaryFormat = (text: string): DictionaryFormat => {
+  const start = text.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('[') || start.startsWith('{')) return 'json';
+  if (/^@/m.test(start)) return 'marked';
+  return 'tab';
+};
+
+export const parseDictionary = (input: string): DictionaryEntry[] => {
+  const text = input.replace(/^\uFEFF/, '');
+  switch (detectDictionaryFormat(text)) {
+    case 'json':
+      return parseJsonDictionary(text);
+    case 'marked':
+      return parseMarkedDictionary(text);
+    case 'tab':
+    default:
+      return parseTabDictionary(text);
+  }
+};
+
+// --- Bundled list ---
+
+let bundledPromise: Promise<Map<string, DictionaryEntry>> | null = null;
+
+// Loaded on first use so it stays out of the main bundle
+const loadBundled = () => {
+  if (!bundledPromise) {
+    bundledPromise = import('./dictionaries/en-vi.json').then(module => {
+      const entries = module.default as DictionaryEntry[];
+      return new Map(entries.map(entry => [normalizeLookupWord(entry.word), entry]));
+    });
+    bundledPromise.catch(() => { bundledPromise = null; });
+  }
+  return bundledPromise;
+};
+
+// --- Settings & imported dictionary ---
+
+export const getDictionarySettings = async (): Promise<DictionarySettings> => {
+  const stored = await getSetting<Partial<DictionarySettings>>('dictionary');
+  return { ...DEFAULT_DICTIONARY_SETTINGS, ...stored };
+};
+
+export const saveDictionarySettings = (settings: DictionarySettings) => setSetting('dictionary', settings);
+
+// Replaces any earlier import; later duplicates of a headword win
+export const importDictionary = async (entries: DictionaryEntry[], fileName: string) => {
+  const byHeadword = new Map<string, StoredDictionaryEntry>();
+  entries.forEach(entry => {
+    const headword = normalizeLookupWord(entry.word);
+    if (headword) byHeadword.set(headword, { ...entry, headword });
+  });
+  await replaceDictionary(Array.from(byHeadword.values()));
+  await saveDictionarySettings({ ...(await getDictionarySettings()), customName: fileName });
+  return byHeadword.size;
+};
+
+export const removeImportedDictionary = async () => {
+  await clearDictionary();
+  const { customName, ...settings } = await getDictionarySettings();
+  await saveDictionarySettings(settings);
+};
+
+export const countImportedEntries = countDictionaryEntries;
+
+// --- Lookup ---
+
+// The dictionary explains English words in Vietnamese, so it only helps that pair
+export const dictionaryCovers = (direction: TranslationDirection = 'en-vi', nativeLanguage: NativeLanguage = 'vi') =>
+  direction === 'en-vi' && nativeLanguage === 'vi';
+
+const findHeadword = async (headword: string): Promise<DictionaryEntry | null> => {
+  const imported = await getDictionaryEntry(headword).catch(err => {
+    console.error("Dictionary read failed", err);
+    return undefined;
+  });
+  if (imported) return imported;
+  return (await loadBundled()).get(headword) || null;
+};
+
+// The word as written, then its dictionary forms ("ran" -> "run")
+export const findDictionaryEntry = async (word: string): Promise<DictionaryEntry | null> => {
+  const headword = normalizeLookupWord(word);
+  if (!headword) return null;
+  for (const form of [headword, ...lemmaCandidates(headword).slice(1)]) {
+    const entry = await findHeadword(form);
+    if (entry) return entry;
+  }
+  return null;
+};
+
+export const dictionaryItem = (entry: DictionaryEntry, context: string): VocabularyItem => ({
+  word: entry.word,
+  pronunciation: entry.ipa,
+  type: entry.pos,
+  definition: entry.definition || entry.meanings.join('; '),
+  translation: entry.meanings.slice(0, 3).join(', '),
+  context
+});
@@ -0,0 +1,44 @@
+// Locates the text spans quoted by tagged translation errors, so both the
+// original and the learner's translation can be highlighted.
+
+export interface HighlightSegment {
+  text: string;
+  // Index of the error this piece belongs to, or null for plain text
+  errorIndex: number | null;
+}
+
+// Each span marks its first occurrence that doesn't overlap an earlier one (case-insensitive);
+// spans that can't be found are simply not highlighted
+export const highlightSpans = (input: string, spans: string[]): HighlightSegment[] => {
+  // Offsets are taken on the NFC form, so that is what the segments are cut from
+  const text = input.normalize('NFC');
+  const haystack = text.toLowerCase();
+  const ranges: { start: number; end: number; errorIndex: number }[] = [];
+
+  spans.forEach((span, errorIndex) => {
+    const needle = span.trim().normalize('NFC').toLowerCase();
+    if (!needle) return;
+    let from = 0;
+    while (from <= haystack.length) {
+      const start = haystack.indexOf(needle, from);
+      if (start === -1) return;
+      const end = start + needle.length;
+      if (!ranges.some(r => start < r.end && end > r.start)) {
+        ranges.push({ start, end, errorIndex });
+        return;
+      }
+      from = start + 1;
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  ranges.forEach(r => {
+    if (r.start > cursor) segments.push({ text: text.slice(cursor, r.start), errorIndex: null });
+    segments.push({ text: text.slice(r.start, r.end), errorIndex: r.errorIndex });
+    cursor = r.end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), errorIndex: null });
+  return segments;
+};
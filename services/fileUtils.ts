@@ -0,0 +1,17 @@
+// Browser helpers for moving data in and out of the app as files
+
+export const downloadFile = (filename: string, content: string | Blob, mimeType = 'text/plain;charset=utf-8') => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// e.g. "2026-10-19", for file names
+export const dateStamp = (date = new Date()) => date.toISOString().slice(0, 10);
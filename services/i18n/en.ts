@@ -0,0 +1,234 @@
+import { ErrorCategory, ErrorSeverity } from "../../types";
+
+// English interface strings; every other language follows this shape.
+export const en = {
+  common: {
+    cancel: 'Cancel',
+    writingStory: 'AI is writing your story...',
+    listen: 'Listen'
+  },
+  setup: {
+    settings: 'Settings',
+    progress: 'Progress',
+    vocab: 'Vocab',
+    tagline: 'AI-Powered Translation Tutor',
+    aiGenerator: 'AI Generator',
+    customText: 'Custom Text',
+    topic: 'Topic',
+    topicPlaceholder: 'e.g., Technology trends in 2025...',
+    randomTopic: 'Random Topic',
+    level: 'Level',
+    length: 'Length',
+    difficulties: { Beginner: 'Beginner', Intermediate: 'Intermediate', Advanced: 'Advanced' },
+    lengths: { Short: 'Short', Medium: 'Medium', Long: 'Long' },
+    generate: 'Generate Content',
+    estimatedTokens: 'Est. Input Tokens',
+    pasteText: 'Paste Text',
+    pastePlaceholder: 'Paste an article or story here...',
+    analyzeStart: 'Analyze & Start',
+    analyzing: 'Analyzing text...',
+    generateFailed: 'Failed to generate. Check API Key in Settings.',
+    analyzeFailed: 'Failed to analyze. Check API Key in Settings.',
+    importFile: 'Import File',
+    importFileHint: 'Import a .txt, .md, .html, .epub, .srt or .vtt file',
+    importUrl: 'From URL',
+    urlPlaceholder: 'https://example.com/article',
+    fetchUrl: 'Fetch',
+    importing: 'Importing text...',
+    importFailed: 'Could not import this file.',
+    importedParts: (count: number) => `${count} parts`,
+    wordCount: (count: number) => `${count.toLocaleString()} words`,
+    clearImport: 'Clear imported text',
+    recentSessions: 'Recent Sessions',
+    viewAll: 'View All',
+    noHistory: 'No history yet.',
+    deleteSession: 'Delete Session',
+    sessionHistory: 'Session History',
+    score: 'Score',
+    unfinished: 'Unfinished'
+  },
+  practice: {
+    reviewResults: 'Review Results',
+    reviewHint: 'Review the correction and new vocabulary below.',
+    keyImprovements: 'Key Improvements',
+    sentenceBySentence: 'Sentence by Sentence',
+    advancedVocabulary: 'Advanced Vocabulary',
+    keepEditing: 'Keep Editing',
+    finishSession: 'Finish Session',
+    paragraphView: 'Paragraph View',
+    sentenceView: 'Sentence View',
+    saved: (count: number) => `${count} Saved`,
+    sourceText: 'Source Text',
+    correction: 'Correction',
+    yourTranslation: 'Your Translation',
+    fullText: 'Full Text',
+    availableWhenComplete: 'Available once the story is complete',
+    oneSentenceAtATime: 'Translate one sentence at a time',
+    translatePlaceholder: 'Translate the text above...',
+    translateIntoEnglishPlaceholder: 'Translate the text above into English...',
+    suggestion: 'Suggestion',
+    checking: 'Checking...',
+    submitCheck: 'Submit & Check',
+    cancelEvaluation: 'Cancel evaluation',
+    checkResults: 'Check Results',
+    details: 'Details',
+    evaluationFailed: 'Evaluation failed',
+    readAloud: 'Read aloud',
+    pauseReading: 'Pause',
+    resumeReading: 'Resume',
+    stopReading: 'Stop',
+    voiceSettings: 'Voice settings',
+    voice: 'Voice',
+    defaultVoice: 'Default voice',
+    speed: 'Speed',
+    noVoices: 'No voice installed for this language',
+    dictate: 'Speak your translation',
+    stopDictating: 'Stop dictating',
+    transcribing: 'Transcribing...',
+    recognitionUnavailable: 'Speech recognition is not available here. You can choose a Whisper server in Settings.',
+    recognitionFailed: 'Speech recognition failed',
+    sentenceNumber: (n: number) => `Sentence ${n}`,
+    sentenceOf: (n: number, total: number) => `Sentence ${n} of ${total}`,
+    checkedCount: (count: number) => `${count} checked`,
+    translate: 'Translate',
+    sentencePlaceholder: 'Your translation of this sentence... (Ctrl+Enter to check)',
+    checkSentence: 'Check Sentence',
+    previousSentence: 'Previous sentence',
+    nextSentence: 'Next Sentence',
+    seeOverallResult: 'See Overall Result'
+  },
+  lookup: {
+    translateSelection: 'Translate',
+    approxTokens: (count: number) => `~${count} tokens`,
+    readSentence: 'Read sentence aloud',
+    searching: (word: string) => `Searching "${word}"...`,
+    cancelLookup: 'Cancel lookup',
+    dictionary: 'Dictionary',
+    dictionaryHint: 'From the offline dictionary; the meaning is not tailored to this sentence',
+    ai: 'AI',
+    aiHint: 'Explained by the AI for this sentence',
+    cached: 'Cached',
+    cachedOtherText: 'Cached · other text',
+    cachedHint: 'Looked up before in this sentence',
+    cachedOtherTextHint: 'Looked up before in another text; the meaning here may differ',
+    askAi: 'Ask the AI about this sentence',
+    lookUpAgain: 'Look up again',
+    savedAs: (word: string) => `You have saved this word as “${word}”`,
+    definition: 'Definition',
+    translation: 'Translation',
+    failed: 'Unable to translate. Check connection.',
+    error: 'Error'
+  },
+  diff: {
+    matches: (percent: number) => `${percent}% of the suggestion matches your wording`,
+    sideBySide: 'Side by side',
+    unified: 'Unified',
+    remove: 'Remove',
+    add: 'Add',
+    was: (text: string) => `was: ${text}`,
+    removed: 'Removed',
+    added: 'Added',
+    changed: 'Changed'
+  },
+  mistakes: {
+    title: (count: number) => `Mistakes (${count})`,
+    original: 'Original',
+    missing: '(missing)',
+    categories: {
+      tense: 'Tense & aspect',
+      'word-order': 'Word order',
+      'word-choice': 'Word choice',
+      classifier: 'Classifiers',
+      idiom: 'Idioms & set phrases',
+      'preposition-article': 'Prepositions & articles',
+      agreement: 'Number & agreement',
+      omission: 'Missing meaning',
+      addition: 'Added meaning',
+      spelling: 'Spelling & diacritics',
+      punctuation: 'Punctuation',
+      style: 'Naturalness & register',
+      other: 'Other'
+    } as Record<ErrorCategory, string>,
+    severities: { minor: 'Minor', major: 'Major', critical: 'Critical' } as Record<ErrorSeverity, string>
+  },
+  vocab: {
+    deck: 'Vocabulary Deck',
+    flashcards: 'Flashcards',
+    exportTitle: 'Export (CSV / Anki)',
+    importTitle: 'Import (CSV / word list)',
+    addManual: 'Add Manual Card',
+    total: 'Total',
+    basic: 'Basic (A1-A2)',
+    inter: 'Inter (B1-B2)',
+    advanced: 'Advanced',
+    noCards: 'No cards in this deck.',
+    newCard: 'New',
+    due: 'Due',
+    inInterval: (interval: string) => `In ${interval}`,
+    intervalTitle: (interval: string, lapses: number) => `Interval ${interval} • ${lapses} lapses`,
+    intervals: {
+      today: 'Today',
+      days: (n: number) => `${n}d`,
+      months: (n: number) => `${n}mo`,
+      years: (n: string) => `${n}y`
+    },
+    notStudied: 'Not studied yet',
+    sessionComplete: 'Session Complete!',
+    reviewedCards: (count: number) => `You reviewed ${count} cards.`,
+    backToDeck: 'Back to Deck',
+    progress: 'Progress',
+    remaining: 'remaining',
+    requeued: (count: number) => `(${count} re-queued)`,
+    challenge: 'Challenge',
+    speakAloud: 'Speak aloud or form a sentence',
+    hideMeaning: 'Hide Meaning',
+    showMeaning: 'Show Meaning',
+    tapToFlip: 'Tap card to flip',
+    answer: 'Answer',
+    hard: 'Hard',
+    good: 'Good',
+    easy: 'Easy',
+    reviewSoon: 'Review soon',
+    gotIt: 'Got it',
+    mastered: 'Mastered',
+    endSession: 'End Session',
+    addNewCard: 'Add New Card',
+    word: 'Word *',
+    translation: 'Translation *',
+    type: 'Type',
+    level: 'Level',
+    example: (text: string) => `e.g. ${text}`,
+    definitionOptional: 'Definition (Optional)',
+    // English names the language; localized strings are only shown to speakers of it
+    definitionPlaceholder: (language: string) => `Short explanation in ${language}...`,
+    exampleSentence: 'Example Sentence (Context)',
+    exampleSentencePlaceholder: 'A sentence using this word...',
+    addToDeck: 'Add to Deck',
+    dueToday: (count: number) => `Due Today (${count})`,
+    allCaughtUp: 'All Caught Up',
+    cram: 'Cram all cards (does not change the schedule)'
+  },
+  dictation: {
+    title: 'Dictation',
+    start: 'Practice dictation with this text',
+    sentenceOf: (current: number, total: number) => `Sentence ${current} of ${total}`,
+    listenHint: 'Listen and type what you hear',
+    play: 'Play sentence',
+    replay: 'Replay',
+    placeholder: 'Type what you hear...',
+    check: 'Check',
+    next: 'Next sentence',
+    seeResults: 'See results',
+    words: 'Words',
+    characters: 'Characters',
+    missedWords: 'Missed words',
+    saveWord: 'Save to vocabulary',
+    lookupFailed: 'Could not look up this word',
+    results: 'Dictation results',
+    score: 'Score',
+    saveToHistory: 'Save to history',
+    notSupported: 'Speech synthesis is not available in this browser.'
+  }
+};
+
+export type UiStrings = typeof en;
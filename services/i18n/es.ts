@@ -0,0 +1,230 @@
+import { UiStrings } from "./en";
+
+export const es: UiStrings = {
+  common: {
+    cancel: 'Cancelar',
+    writingStory: 'La IA está escribiendo tu historia...',
+    listen: 'Escuchar'
+  },
+  setup: {
+    settings: 'Ajustes',
+    progress: 'Progreso',
+    vocab: 'Vocabulario',
+    tagline: 'Tutor de traducción con IA',
+    aiGenerator: 'Generador IA',
+    customText: 'Texto propio',
+    topic: 'Tema',
+    topicPlaceholder: 'p. ej., Tendencias tecnológicas en 2025...',
+    randomTopic: 'Tema aleatorio',
+    level: 'Nivel',
+    length: 'Longitud',
+    difficulties: { Beginner: 'Principiante', Intermediate: 'Intermedio', Advanced: 'Avanzado' },
+    lengths: { Short: 'Corto', Medium: 'Medio', Long: 'Largo' },
+    generate: 'Generar contenido',
+    estimatedTokens: 'Tokens de entrada estimados',
+    pasteText: 'Pegar texto',
+    pastePlaceholder: 'Pega aquí un artículo o una historia...',
+    analyzeStart: 'Analizar y empezar',
+    analyzing: 'Analizando el texto...',
+    generateFailed: 'No se pudo generar. Revisa la API Key en Ajustes.',
+    analyzeFailed: 'No se pudo analizar. Revisa la API Key en Ajustes.',
+    importFile: 'Importar archivo',
+    importFileHint: 'Importa un archivo .txt, .md, .html, .epub, .srt o .vtt',
+    importUrl: 'Desde URL',
+    urlPlaceholder: 'https://example.com/articulo',
+    fetchUrl: 'Descargar',
+    importing: 'Importando texto...',
+    importFailed: 'No se pudo importar este archivo.',
+    importedParts: (count: number) => `${count} partes`,
+    wordCount: (count: number) => `${count.toLocaleString()} palabras`,
+    clearImport: 'Quitar texto importado',
+    recentSessions: 'Sesiones recientes',
+    viewAll: 'Ver todo',
+    noHistory: 'Aún no hay historial.',
+    deleteSession: 'Eliminar sesión',
+    sessionHistory: 'Historial de sesiones',
+    score: 'Puntuación',
+    unfinished: 'Sin terminar'
+  },
+  practice: {
+    reviewResults: 'Revisar resultados',
+    reviewHint: 'Revisa la corrección y el vocabulario nuevo a continuación.',
+    keyImprovements: 'Mejoras clave',
+    sentenceBySentence: 'Frase por frase',
+    advancedVocabulary: 'Vocabulario avanzado',
+    keepEditing: 'Seguir editando',
+    finishSession: 'Terminar sesión',
+    paragraphView: 'Vista de párrafo',
+    sentenceView: 'Vista de frases',
+    saved: (count: number) => `${count} guardadas`,
+    sourceText: 'Texto original',
+    correction: 'Corrección',
+    yourTranslation: 'Tu traducción',
+    fullText: 'Texto completo',
+    availableWhenComplete: 'Disponible cuando la historia esté completa',
+    oneSentenceAtATime: 'Traduce una frase cada vez',
+    translatePlaceholder: 'Traduce el texto de arriba...',
+    translateIntoEnglishPlaceholder: 'Traduce el texto de arriba al inglés...',
+    suggestion: 'Sugerencia',
+    checking: 'Corrigiendo...',
+    submitCheck: 'Enviar y corregir',
+    cancelEvaluation: 'Cancelar la corrección',
+    checkResults: 'Ver resultados',
+    details: 'Detalles',
+    evaluationFailed: 'La corrección falló',
+    readAloud: 'Leer en voz alta',
+    pauseReading: 'Pausa',
+    resumeReading: 'Reanudar',
+    stopReading: 'Detener',
+    voiceSettings: 'Ajustes de voz',
+    voice: 'Voz',
+    defaultVoice: 'Voz predeterminada',
+    speed: 'Velocidad',
+    noVoices: 'No hay voces instaladas para este idioma',
+    dictate: 'Dicta tu traducción',
+    stopDictating: 'Dejar de dictar',
+    transcribing: 'Transcribiendo...',
+    recognitionUnavailable: 'El reconocimiento de voz no está disponible aquí. Puedes elegir un servidor Whisper en Ajustes.',
+    recognitionFailed: 'El reconocimiento de voz falló',
+    sentenceNumber: (n: number) => `Oración ${n}`,
+    sentenceOf: (n: number, total: number) => `Oración ${n} de ${total}`,
+    checkedCount: (count: number) => `${count} corregidas`,
+    translate: 'Traduce',
+    sentencePlaceholder: 'Tu traducción de esta oración... (Ctrl+Enter para corregir)',
+    checkSentence: 'Corregir oración',
+    previousSentence: 'Oración anterior',
+    nextSentence: 'Siguiente oración',
+    seeOverallResult: 'Ver resultado general'
+  },
+  lookup: {
+    translateSelection: 'Traducir',
+    approxTokens: (count: number) => `~${count} tokens`,
+    readSentence: 'Leer la oración en voz alta',
+    searching: (word: string) => `Buscando "${word}"...`,
+    cancelLookup: 'Cancelar la búsqueda',
+    dictionary: 'Diccionario',
+    dictionaryHint: 'Del diccionario sin conexión; el significado no se adapta a esta oración',
+    ai: 'IA',
+    aiHint: 'Explicado por la IA para esta oración',
+    cached: 'En caché',
+    cachedOtherText: 'En caché · otro texto',
+    cachedHint: 'Ya se buscó en esta oración',
+    cachedOtherTextHint: 'Ya se buscó en otro texto; aquí el significado puede ser distinto',
+    askAi: 'Preguntar a la IA por esta oración',
+    lookUpAgain: 'Buscar de nuevo',
+    savedAs: (word: string) => `Guardaste esta palabra como “${word}”`,
+    definition: 'Definición',
+    translation: 'Traducción',
+    failed: 'No se pudo traducir. Revisa la conexión.',
+    error: 'Error'
+  },
+  diff: {
+    matches: (percent: number) => `El ${percent}% de la sugerencia coincide con tu redacción`,
+    sideBySide: 'En paralelo',
+    unified: 'Unificado',
+    remove: 'Quitar',
+    add: 'Añadir',
+    was: (text: string) => `antes: ${text}`,
+    removed: 'Quitado',
+    added: 'Añadido',
+    changed: 'Cambiado'
+  },
+  mistakes: {
+    title: (count: number) => `Errores (${count})`,
+    original: 'Original',
+    missing: '(falta)',
+    categories: {
+      tense: 'Tiempo y aspecto',
+      'word-order': 'Orden de palabras',
+      'word-choice': 'Elección de palabras',
+      classifier: 'Clasificadores',
+      idiom: 'Modismos y frases hechas',
+      'preposition-article': 'Preposiciones y artículos',
+      agreement: 'Número y concordancia',
+      omission: 'Significado omitido',
+      addition: 'Significado añadido',
+      spelling: 'Ortografía y tildes',
+      punctuation: 'Puntuación',
+      style: 'Naturalidad y registro',
+      other: 'Otro'
+    },
+    severities: { minor: 'Leve', major: 'Moderado', critical: 'Grave' }
+  },
+  vocab: {
+    deck: 'Mazo de vocabulario',
+    flashcards: 'Tarjetas',
+    exportTitle: 'Exportar (CSV / Anki)',
+    importTitle: 'Importar (CSV / lista de palabras)',
+    addManual: 'Añadir tarjeta manual',
+    total: 'Total',
+    basic: 'Básico (A1-A2)',
+    inter: 'Intermedio (B1-B2)',
+    advanced: 'Avanzado',
+    noCards: 'No hay tarjetas en este mazo.',
+    newCard: 'Nueva',
+    due: 'Pendiente',
+    inInterval: (interval: string) => `En ${interval}`,
+    intervalTitle: (interval: string, lapses: number) => `Intervalo ${interval} • ${lapses} olvidos`,
+    intervals: {
+      today: 'Hoy',
+      days: (n: number) => `${n} d`,
+      months: (n: number) => `${n} m`,
+      years: (n: string) => `${n} a`
+    },
+    notStudied: 'Sin estudiar',
+    sessionComplete: '¡Sesión completada!',
+    reviewedCards: (count: number) => `Has repasado ${count} tarjetas.`,
+    backToDeck: 'Volver al mazo',
+    progress: 'Progreso',
+    remaining: 'restantes',
+    requeued: (count: number) => `(${count} repetidas)`,
+    challenge: 'Reto',
+    speakAloud: 'Dilo en voz alta o forma una frase',
+    hideMeaning: 'Ocultar significado',
+    showMeaning: 'Mostrar significado',
+    tapToFlip: 'Toca la tarjeta para girarla',
+    answer: 'Respuesta',
+    hard: 'Difícil',
+    good: 'Bien',
+    easy: 'Fácil',
+    reviewSoon: 'Repasar pronto',
+    gotIt: 'Lo sé',
+    mastered: 'Dominada',
+    endSession: 'Terminar sesión',
+    addNewCard: 'Nueva tarjeta',
+    word: 'Palabra *',
+    translation: 'Traducción *',
+    type: 'Tipo',
+    level: 'Nivel',
+    example: (text: string) => `p. ej. ${text}`,
+    definitionOptional: 'Definición (opcional)',
+    definitionPlaceholder: () => 'Breve explicación en español...',
+    exampleSentence: 'Frase de ejemplo (contexto)',
+    exampleSentencePlaceholder: 'Una frase que use esta palabra...',
+    addToDeck: 'Añadir al mazo',
+    dueToday: (count: number) => `Pendientes hoy (${count})`,
+    allCaughtUp: 'Todo al día',
+    cram: 'Repasar todas (no cambia la programación)'
+  },
+  dictation: {
+    title: 'Dictado',
+    start: 'Practicar dictado con este texto',
+    sentenceOf: (current: number, total: number) => `Frase ${current} de ${total}`,
+    listenHint: 'Escucha y escribe lo que oyes',
+    play: 'Reproducir frase',
+    replay: 'Repetir',
+    placeholder: 'Escribe lo que oyes...',
+    check: 'Comprobar',
+    next: 'Siguiente frase',
+    seeResults: 'Ver resultados',
+    words: 'Palabras',
+    characters: 'Caracteres',
+    missedWords: 'Palabras falladas',
+    saveWord: 'Guardar en vocabulario',
+    lookupFailed: 'No se pudo buscar esta palabra',
+    results: 'Resultados del dictado',
+    score: 'Puntuación',
+    saveToHistory: 'Guardar en el historial',
+    notSupported: 'Este navegador no permite la lectura en voz alta.'
+  }
+};
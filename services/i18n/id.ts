@@ -0,0 +1,230 @@
+import { UiStrings } from "./en";
+
+export const id: UiStrings = {
+  common: {
+    cancel: 'Batal',
+    writingStory: 'AI sedang menulis ceritamu...',
+    listen: 'Dengarkan'
+  },
+  setup: {
+    settings: 'Pengaturan',
+    progress: 'Kemajuan',
+    vocab: 'Kosakata',
+    tagline: 'Tutor Terjemahan Bertenaga AI',
+    aiGenerator: 'Generator AI',
+    customText: 'Teks Sendiri',
+    topic: 'Topik',
+    topicPlaceholder: 'mis. Tren teknologi tahun 2025...',
+    randomTopic: 'Topik Acak',
+    level: 'Tingkat',
+    length: 'Panjang',
+    difficulties: { Beginner: 'Pemula', Intermediate: 'Menengah', Advanced: 'Mahir' },
+    lengths: { Short: 'Pendek', Medium: 'Sedang', Long: 'Panjang' },
+    generate: 'Buat Konten',
+    estimatedTokens: 'Perkiraan Token Input',
+    pasteText: 'Tempel Teks',
+    pastePlaceholder: 'Tempel artikel atau cerita di sini...',
+    analyzeStart: 'Analisis & Mulai',
+    analyzing: 'Menganalisis teks...',
+    generateFailed: 'Gagal membuat konten. Periksa API Key di Pengaturan.',
+    analyzeFailed: 'Gagal menganalisis. Periksa API Key di Pengaturan.',
+    importFile: 'Impor File',
+    importFileHint: 'Impor file .txt, .md, .html, .epub, .srt, atau .vtt',
+    importUrl: 'Dari URL',
+    urlPlaceholder: 'https://example.com/artikel',
+    fetchUrl: 'Ambil',
+    importing: 'Mengimpor teks...',
+    importFailed: 'Tidak dapat mengimpor file ini.',
+    importedParts: (count: number) => `${count} bagian`,
+    wordCount: (count: number) => `${count.toLocaleString()} kata`,
+    clearImport: 'Hapus teks impor',
+    recentSessions: 'Sesi Terbaru',
+    viewAll: 'Lihat Semua',
+    noHistory: 'Belum ada riwayat.',
+    deleteSession: 'Hapus Sesi',
+    sessionHistory: 'Riwayat Sesi',
+    score: 'Skor',
+    unfinished: 'Belum selesai'
+  },
+  practice: {
+    reviewResults: 'Tinjau Hasil',
+    reviewHint: 'Tinjau koreksi dan kosakata baru di bawah.',
+    keyImprovements: 'Perbaikan Utama',
+    sentenceBySentence: 'Per Kalimat',
+    advancedVocabulary: 'Kosakata Lanjutan',
+    keepEditing: 'Lanjut Mengedit',
+    finishSession: 'Selesaikan Sesi',
+    paragraphView: 'Tampilan Paragraf',
+    sentenceView: 'Tampilan Kalimat',
+    saved: (count: number) => `${count} Disimpan`,
+    sourceText: 'Teks Sumber',
+    correction: 'Koreksi',
+    yourTranslation: 'Terjemahanmu',
+    fullText: 'Teks Lengkap',
+    availableWhenComplete: 'Tersedia setelah cerita selesai',
+    oneSentenceAtATime: 'Terjemahkan satu kalimat setiap kali',
+    translatePlaceholder: 'Terjemahkan teks di atas...',
+    translateIntoEnglishPlaceholder: 'Terjemahkan teks di atas ke bahasa Inggris...',
+    suggestion: 'Saran',
+    checking: 'Memeriksa...',
+    submitCheck: 'Kirim & Periksa',
+    cancelEvaluation: 'Batalkan penilaian',
+    checkResults: 'Lihat Hasil',
+    details: 'Detail',
+    evaluationFailed: 'Penilaian gagal',
+    readAloud: 'Bacakan',
+    pauseReading: 'Jeda',
+    resumeReading: 'Lanjutkan',
+    stopReading: 'Berhenti',
+    voiceSettings: 'Pengaturan suara',
+    voice: 'Suara',
+    defaultVoice: 'Suara bawaan',
+    speed: 'Kecepatan',
+    noVoices: 'Tidak ada suara terpasang untuk bahasa ini',
+    dictate: 'Ucapkan terjemahanmu',
+    stopDictating: 'Berhenti mendikte',
+    transcribing: 'Mentranskripsi...',
+    recognitionUnavailable: 'Pengenalan suara tidak tersedia di sini. Kamu bisa memilih server Whisper di Pengaturan.',
+    recognitionFailed: 'Pengenalan suara gagal',
+    sentenceNumber: (n: number) => `Kalimat ${n}`,
+    sentenceOf: (n: number, total: number) => `Kalimat ${n} dari ${total}`,
+    checkedCount: (count: number) => `${count} diperiksa`,
+    translate: 'Terjemahkan',
+    sentencePlaceholder: 'Terjemahan Anda untuk kalimat ini... (Ctrl+Enter untuk memeriksa)',
+    checkSentence: 'Periksa Kalimat',
+    previousSentence: 'Kalimat sebelumnya',
+    nextSentence: 'Kalimat Berikutnya',
+    seeOverallResult: 'Lihat Hasil Keseluruhan'
+  },
+  lookup: {
+    translateSelection: 'Terjemahkan',
+    approxTokens: (count: number) => `~${count} token`,
+    readSentence: 'Bacakan kalimat',
+    searching: (word: string) => `Mencari "${word}"...`,
+    cancelLookup: 'Batalkan pencarian',
+    dictionary: 'Kamus',
+    dictionaryHint: 'Dari kamus offline; artinya tidak disesuaikan dengan kalimat ini',
+    ai: 'AI',
+    aiHint: 'Dijelaskan oleh AI untuk kalimat ini',
+    cached: 'Tersimpan',
+    cachedOtherText: 'Tersimpan · teks lain',
+    cachedHint: 'Pernah dicari di kalimat ini',
+    cachedOtherTextHint: 'Pernah dicari di teks lain; artinya di sini bisa berbeda',
+    askAi: 'Tanya AI tentang kalimat ini',
+    lookUpAgain: 'Cari lagi',
+    savedAs: (word: string) => `Anda telah menyimpan kata ini sebagai “${word}”`,
+    definition: 'Definisi',
+    translation: 'Terjemahan',
+    failed: 'Tidak dapat menerjemahkan. Periksa koneksi.',
+    error: 'Galat'
+  },
+  diff: {
+    matches: (percent: number) => `${percent}% saran cocok dengan kata-kata Anda`,
+    sideBySide: 'Berdampingan',
+    unified: 'Gabungan',
+    remove: 'Hapus',
+    add: 'Tambah',
+    was: (text: string) => `semula: ${text}`,
+    removed: 'Dihapus',
+    added: 'Ditambah',
+    changed: 'Diubah'
+  },
+  mistakes: {
+    title: (count: number) => `Kesalahan (${count})`,
+    original: 'Asli',
+    missing: '(hilang)',
+    categories: {
+      tense: 'Kala & aspek',
+      'word-order': 'Urutan kata',
+      'word-choice': 'Pilihan kata',
+      classifier: 'Kata penggolong',
+      idiom: 'Idiom & frasa baku',
+      'preposition-article': 'Preposisi & artikel',
+      agreement: 'Jumlah & kesesuaian',
+      omission: 'Makna hilang',
+      addition: 'Makna tambahan',
+      spelling: 'Ejaan & diakritik',
+      punctuation: 'Tanda baca',
+      style: 'Kewajaran & register',
+      other: 'Lainnya'
+    },
+    severities: { minor: 'Ringan', major: 'Sedang', critical: 'Berat' }
+  },
+  vocab: {
+    deck: 'Dek Kosakata',
+    flashcards: 'Kartu Hafalan',
+    exportTitle: 'Ekspor (CSV / Anki)',
+    importTitle: 'Impor (CSV / daftar kata)',
+    addManual: 'Tambah Kartu Manual',
+    total: 'Total',
+    basic: 'Dasar (A1-A2)',
+    inter: 'Menengah (B1-B2)',
+    advanced: 'Mahir',
+    noCards: 'Tidak ada kartu di dek ini.',
+    newCard: 'Baru',
+    due: 'Jatuh tempo',
+    inInterval: (interval: string) => `Dalam ${interval}`,
+    intervalTitle: (interval: string, lapses: number) => `Interval ${interval} • ${lapses} kali lupa`,
+    intervals: {
+      today: 'Hari ini',
+      days: (n: number) => `${n} hr`,
+      months: (n: number) => `${n} bln`,
+      years: (n: string) => `${n} thn`
+    },
+    notStudied: 'Belum dipelajari',
+    sessionComplete: 'Sesi Selesai!',
+    reviewedCards: (count: number) => `Kamu mengulang ${count} kartu.`,
+    backToDeck: 'Kembali ke Dek',
+    progress: 'Kemajuan',
+    remaining: 'tersisa',
+    requeued: (count: number) => `(${count} diantrekan ulang)`,
+    challenge: 'Tantangan',
+    speakAloud: 'Ucapkan dengan keras atau buat kalimat',
+    hideMeaning: 'Sembunyikan Arti',
+    showMeaning: 'Tampilkan Arti',
+    tapToFlip: 'Ketuk kartu untuk membalik',
+    answer: 'Jawaban',
+    hard: 'Sulit',
+    good: 'Bagus',
+    easy: 'Mudah',
+    reviewSoon: 'Ulangi segera',
+    gotIt: 'Paham',
+    mastered: 'Dikuasai',
+    endSession: 'Akhiri Sesi',
+    addNewCard: 'Tambah Kartu Baru',
+    word: 'Kata *',
+    translation: 'Terjemahan *',
+    type: 'Jenis',
+    level: 'Tingkat',
+    example: (text: string) => `mis. ${text}`,
+    definitionOptional: 'Definisi (Opsional)',
+    definitionPlaceholder: () => 'Penjelasan singkat dalam bahasa Indonesia...',
+    exampleSentence: 'Contoh Kalimat (Konteks)',
+    exampleSentencePlaceholder: 'Kalimat yang memakai kata ini...',
+    addToDeck: 'Tambahkan ke Dek',
+    dueToday: (count: number) => `Jatuh Tempo Hari Ini (${count})`,
+    allCaughtUp: 'Semua Sudah Diulang',
+    cram: 'Ulangi semua kartu (jadwal tidak berubah)'
+  },
+  dictation: {
+    title: 'Dikte',
+    start: 'Latihan dikte dengan teks ini',
+    sentenceOf: (current: number, total: number) => `Kalimat ${current} dari ${total}`,
+    listenHint: 'Dengarkan dan ketik apa yang kamu dengar',
+    play: 'Putar kalimat',
+    replay: 'Putar ulang',
+    placeholder: 'Ketik apa yang kamu dengar...',
+    check: 'Periksa',
+    next: 'Kalimat berikutnya',
+    seeResults: 'Lihat hasil',
+    words: 'Kata',
+    characters: 'Karakter',
+    missedWords: 'Kata yang terlewat',
+    saveWord: 'Simpan ke kosakata',
+    lookupFailed: 'Kata ini tidak dapat dicari',
+    results: 'Hasil Dikte',
+    score: 'Skor',
+    saveToHistory: 'Simpan ke riwayat',
+    notSupported: 'Browser ini tidak mendukung pembacaan teks.'
+  }
+};
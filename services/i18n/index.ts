@@ -0,0 +1,25 @@
+import { LanguageSettings, NativeLanguage } from "../../types";
+import { en, UiStrings } from "./en";
+import { vi } from "./vi";
+import { th } from "./th";
+import { id } from "./id";
+import { es } from "./es";
+
+// Interface strings for the setup, practice and vocabulary screens.
+// The interface is English unless the learner opts into their native language.
+
+export type { UiStrings } from "./en";
+export type UiLanguage = 'en' | NativeLanguage;
+
+export const UI_STRINGS: Record<UiLanguage, UiStrings> = { en, vi, th, id, es };
+
+export const getStrings = (settings: LanguageSettings): UiStrings =>
+  UI_STRINGS[settings.localizeInterface ? settings.native : 'en'];
+
+// Sample translation of "Ephemeral" for the add-card form
+export const TRANSLATION_EXAMPLES: Record<NativeLanguage, string> = {
+  vi: 'Phù du',
+  th: 'ชั่วครู่',
+  id: 'Sekejap',
+  es: 'Efímero'
+};
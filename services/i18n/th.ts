@@ -0,0 +1,230 @@
+import { UiStrings } from "./en";
+
+export const th: UiStrings = {
+  common: {
+    cancel: 'ยกเลิก',
+    writingStory: 'AI กำลังเขียนเรื่องของคุณ...',
+    listen: 'ฟัง'
+  },
+  setup: {
+    settings: 'การตั้งค่า',
+    progress: 'ความก้าวหน้า',
+    vocab: 'คำศัพท์',
+    tagline: 'ติวเตอร์การแปลด้วย AI',
+    aiGenerator: 'สร้างด้วย AI',
+    customText: 'ข้อความของฉัน',
+    topic: 'หัวข้อ',
+    topicPlaceholder: 'เช่น แนวโน้มเทคโนโลยีในปี 2025...',
+    randomTopic: 'สุ่มหัวข้อ',
+    level: 'ระดับ',
+    length: 'ความยาว',
+    difficulties: { Beginner: 'เริ่มต้น', Intermediate: 'ปานกลาง', Advanced: 'ขั้นสูง' },
+    lengths: { Short: 'สั้น', Medium: 'ปานกลาง', Long: 'ยาว' },
+    generate: 'สร้างเนื้อหา',
+    estimatedTokens: 'โทเค็นอินพุตโดยประมาณ',
+    pasteText: 'วางข้อความ',
+    pastePlaceholder: 'วางบทความหรือเรื่องราวที่นี่...',
+    analyzeStart: 'วิเคราะห์และเริ่ม',
+    analyzing: 'กำลังวิเคราะห์ข้อความ...',
+    generateFailed: 'สร้างเนื้อหาไม่สำเร็จ โปรดตรวจสอบ API Key ในการตั้งค่า',
+    analyzeFailed: 'วิเคราะห์ไม่สำเร็จ โปรดตรวจสอบ API Key ในการตั้งค่า',
+    importFile: 'นำเข้าไฟล์',
+    importFileHint: 'นำเข้าไฟล์ .txt, .md, .html, .epub, .srt หรือ .vtt',
+    importUrl: 'จาก URL',
+    urlPlaceholder: 'https://example.com/article',
+    fetchUrl: 'ดึงข้อมูล',
+    importing: 'กำลังนำเข้าข้อความ...',
+    importFailed: 'ไม่สามารถนำเข้าไฟล์นี้ได้',
+    importedParts: (count: number) => `${count} ส่วน`,
+    wordCount: (count: number) => `${count.toLocaleString()} คำ`,
+    clearImport: 'ล้างข้อความที่นำเข้า',
+    recentSessions: 'บทเรียนล่าสุด',
+    viewAll: 'ดูทั้งหมด',
+    noHistory: 'ยังไม่มีประวัติ',
+    deleteSession: 'ลบบทเรียน',
+    sessionHistory: 'ประวัติบทเรียน',
+    score: 'คะแนน',
+    unfinished: 'ยังไม่เสร็จ'
+  },
+  practice: {
+    reviewResults: 'ดูผลลัพธ์',
+    reviewHint: 'ดูการแก้ไขและคำศัพท์ใหม่ด้านล่าง',
+    keyImprovements: 'จุดที่ควรปรับปรุง',
+    sentenceBySentence: 'ทีละประโยค',
+    advancedVocabulary: 'คำศัพท์ขั้นสูง',
+    keepEditing: 'แก้ไขต่อ',
+    finishSession: 'จบบทเรียน',
+    paragraphView: 'มุมมองย่อหน้า',
+    sentenceView: 'มุมมองประโยค',
+    saved: (count: number) => `บันทึกแล้ว ${count}`,
+    sourceText: 'ข้อความต้นฉบับ',
+    correction: 'การแก้ไข',
+    yourTranslation: 'คำแปลของคุณ',
+    fullText: 'ทั้งข้อความ',
+    availableWhenComplete: 'ใช้ได้เมื่อเขียนเรื่องเสร็จแล้ว',
+    oneSentenceAtATime: 'แปลทีละประโยค',
+    translatePlaceholder: 'แปลข้อความด้านบน...',
+    translateIntoEnglishPlaceholder: 'แปลข้อความด้านบนเป็นภาษาอังกฤษ...',
+    suggestion: 'คำแนะนำ',
+    checking: 'กำลังตรวจ...',
+    submitCheck: 'ส่งและตรวจ',
+    cancelEvaluation: 'ยกเลิกการตรวจ',
+    checkResults: 'ดูผลการตรวจ',
+    details: 'รายละเอียด',
+    evaluationFailed: 'ตรวจไม่สำเร็จ',
+    readAloud: 'อ่านออกเสียง',
+    pauseReading: 'หยุดชั่วคราว',
+    resumeReading: 'เล่นต่อ',
+    stopReading: 'หยุด',
+    voiceSettings: 'ตั้งค่าเสียงอ่าน',
+    voice: 'เสียงอ่าน',
+    defaultVoice: 'เสียงเริ่มต้น',
+    speed: 'ความเร็ว',
+    noVoices: 'ไม่มีเสียงอ่านสำหรับภาษานี้',
+    dictate: 'พูดคำแปลของคุณ',
+    stopDictating: 'หยุดพูด',
+    transcribing: 'กำลังถอดเสียง...',
+    recognitionUnavailable: 'ใช้การรู้จำเสียงพูดที่นี่ไม่ได้ คุณเลือกเซิร์ฟเวอร์ Whisper ได้ในการตั้งค่า',
+    recognitionFailed: 'การรู้จำเสียงพูดล้มเหลว',
+    sentenceNumber: (n: number) => `ประโยคที่ ${n}`,
+    sentenceOf: (n: number, total: number) => `ประโยคที่ ${n} จาก ${total}`,
+    checkedCount: (count: number) => `ตรวจแล้ว ${count}`,
+    translate: 'แปล',
+    sentencePlaceholder: 'คำแปลประโยคนี้ของคุณ... (Ctrl+Enter เพื่อตรวจ)',
+    checkSentence: 'ตรวจประโยค',
+    previousSentence: 'ประโยคก่อนหน้า',
+    nextSentence: 'ประโยคถัดไป',
+    seeOverallResult: 'ดูผลรวม'
+  },
+  lookup: {
+    translateSelection: 'แปล',
+    approxTokens: (count: number) => `~${count} โทเค็น`,
+    readSentence: 'อ่านประโยคออกเสียง',
+    searching: (word: string) => `กำลังค้นหา "${word}"...`,
+    cancelLookup: 'ยกเลิกการค้นหา',
+    dictionary: 'พจนานุกรม',
+    dictionaryHint: 'จากพจนานุกรมออฟไลน์ ความหมายไม่ได้ปรับตามประโยคนี้',
+    ai: 'AI',
+    aiHint: 'AI อธิบายตามประโยคนี้',
+    cached: 'แคช',
+    cachedOtherText: 'แคช · ข้อความอื่น',
+    cachedHint: 'เคยค้นหาในประโยคนี้แล้ว',
+    cachedOtherTextHint: 'เคยค้นหาในข้อความอื่น ความหมายในที่นี้อาจต่างออกไป',
+    askAi: 'ถาม AI เกี่ยวกับประโยคนี้',
+    lookUpAgain: 'ค้นหาอีกครั้ง',
+    savedAs: (word: string) => `คุณบันทึกคำนี้ไว้เป็น “${word}”`,
+    definition: 'ความหมาย',
+    translation: 'คำแปล',
+    failed: 'แปลไม่สำเร็จ โปรดตรวจสอบการเชื่อมต่อ',
+    error: 'ข้อผิดพลาด'
+  },
+  diff: {
+    matches: (percent: number) => `${percent}% ของคำแนะนำตรงกับถ้อยคำของคุณ`,
+    sideBySide: 'เทียบข้างกัน',
+    unified: 'รวมกัน',
+    remove: 'ลบ',
+    add: 'เพิ่ม',
+    was: (text: string) => `เดิม: ${text}`,
+    removed: 'ลบออก',
+    added: 'เพิ่มเข้า',
+    changed: 'เปลี่ยน'
+  },
+  mistakes: {
+    title: (count: number) => `ข้อผิดพลาด (${count})`,
+    original: 'ต้นฉบับ',
+    missing: '(ขาดหาย)',
+    categories: {
+      tense: 'กาลและการณ์ลักษณะ',
+      'word-order': 'ลำดับคำ',
+      'word-choice': 'การเลือกคำ',
+      classifier: 'ลักษณนาม',
+      idiom: 'สำนวน',
+      'preposition-article': 'คำบุพบทและคำนำหน้านาม',
+      agreement: 'พจน์และความสอดคล้อง',
+      omission: 'ความหมายขาดหาย',
+      addition: 'ความหมายเกิน',
+      spelling: 'การสะกดและวรรณยุกต์',
+      punctuation: 'เครื่องหมายวรรคตอน',
+      style: 'ความเป็นธรรมชาติและระดับภาษา',
+      other: 'อื่น ๆ'
+    },
+    severities: { minor: 'เล็กน้อย', major: 'ปานกลาง', critical: 'ร้ายแรง' }
+  },
+  vocab: {
+    deck: 'ชุดคำศัพท์',
+    flashcards: 'บัตรคำ',
+    exportTitle: 'ส่งออก (CSV / Anki)',
+    importTitle: 'นำเข้า (CSV / รายการคำ)',
+    addManual: 'เพิ่มบัตรเอง',
+    total: 'ทั้งหมด',
+    basic: 'พื้นฐาน (A1-A2)',
+    inter: 'กลาง (B1-B2)',
+    advanced: 'ขั้นสูง',
+    noCards: 'ไม่มีบัตรในชุดนี้',
+    newCard: 'ใหม่',
+    due: 'ถึงกำหนด',
+    inInterval: (interval: string) => `อีก ${interval}`,
+    intervalTitle: (interval: string, lapses: number) => `ช่วงห่าง ${interval} • ลืม ${lapses} ครั้ง`,
+    intervals: {
+      today: 'วันนี้',
+      days: (n: number) => `${n} วัน`,
+      months: (n: number) => `${n} เดือน`,
+      years: (n: string) => `${n} ปี`
+    },
+    notStudied: 'ยังไม่ได้เรียน',
+    sessionComplete: 'ทบทวนเสร็จแล้ว!',
+    reviewedCards: (count: number) => `คุณทบทวนไป ${count} บัตร`,
+    backToDeck: 'กลับไปที่ชุดคำ',
+    progress: 'ความก้าวหน้า',
+    remaining: 'ที่เหลือ',
+    requeued: (count: number) => `(ต่อคิวใหม่ ${count})`,
+    challenge: 'ท้าทาย',
+    speakAloud: 'พูดออกเสียงหรือแต่งประโยค',
+    hideMeaning: 'ซ่อนความหมาย',
+    showMeaning: 'แสดงความหมาย',
+    tapToFlip: 'แตะเพื่อพลิกบัตร',
+    answer: 'คำตอบ',
+    hard: 'ยาก',
+    good: 'ดี',
+    easy: 'ง่าย',
+    reviewSoon: 'ทบทวนเร็ว ๆ นี้',
+    gotIt: 'จำได้แล้ว',
+    mastered: 'เชี่ยวชาญ',
+    endSession: 'จบการทบทวน',
+    addNewCard: 'เพิ่มบัตรใหม่',
+    word: 'คำ *',
+    translation: 'คำแปล *',
+    type: 'ชนิดของคำ',
+    level: 'ระดับ',
+    example: (text: string) => `เช่น ${text}`,
+    definitionOptional: 'คำอธิบาย (ไม่บังคับ)',
+    definitionPlaceholder: () => 'คำอธิบายสั้น ๆ เป็นภาษาไทย...',
+    exampleSentence: 'ประโยคตัวอย่าง (บริบท)',
+    exampleSentencePlaceholder: 'ประโยคที่ใช้คำนี้...',
+    addToDeck: 'เพิ่มลงในชุดคำ',
+    dueToday: (count: number) => `ต้องทบทวนวันนี้ (${count})`,
+    allCaughtUp: 'ทบทวนครบแล้ว',
+    cram: 'ทบทวนทุกบัตร (ไม่เปลี่ยนตารางทบทวน)'
+  },
+  dictation: {
+    title: 'เขียนตามคำบอก',
+    start: 'ฝึกเขียนตามคำบอกด้วยข้อความนี้',
+    sentenceOf: (current: number, total: number) => `ประโยค ${current} จาก ${total}`,
+    listenHint: 'ฟังแล้วพิมพ์สิ่งที่ได้ยิน',
+    play: 'เล่นประโยค',
+    replay: 'ฟังอีกครั้ง',
+    placeholder: 'พิมพ์สิ่งที่คุณได้ยิน...',
+    check: 'ตรวจ',
+    next: 'ประโยคถัดไป',
+    seeResults: 'ดูผลลัพธ์',
+    words: 'คำ',
+    characters: 'ตัวอักษร',
+    missedWords: 'คำที่พลาด',
+    saveWord: 'บันทึกลงคำศัพท์',
+    lookupFailed: 'ค้นหาคำนี้ไม่สำเร็จ',
+    results: 'ผลการเขียนตามคำบอก',
+    score: 'คะแนน',
+    saveToHistory: 'บันทึกลงประวัติ',
+    notSupported: 'เบราว์เซอร์นี้ไม่รองรับการอ่านออกเสียง'
+  }
+};
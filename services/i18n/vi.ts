@@ -0,0 +1,230 @@
+import { UiStrings } from "./en";
+
+export const vi: UiStrings = {
+  common: {
+    cancel: 'Hủy',
+    writingStory: 'AI đang viết câu chuyện của bạn...',
+    listen: 'Nghe'
+  },
+  setup: {
+    settings: 'Cài đặt',
+    progress: 'Tiến độ',
+    vocab: 'Từ vựng',
+    tagline: 'Gia sư dịch thuật với AI',
+    aiGenerator: 'Tạo bằng AI',
+    customText: 'Văn bản riêng',
+    topic: 'Chủ đề',
+    topicPlaceholder: 'VD: Xu hướng công nghệ năm 2025...',
+    randomTopic: 'Chủ đề ngẫu nhiên',
+    level: 'Trình độ',
+    length: 'Độ dài',
+    difficulties: { Beginner: 'Cơ bản', Intermediate: 'Trung cấp', Advanced: 'Nâng cao' },
+    lengths: { Short: 'Ngắn', Medium: 'Vừa', Long: 'Dài' },
+    generate: 'Tạo nội dung',
+    estimatedTokens: 'Token đầu vào ước tính',
+    pasteText: 'Dán văn bản',
+    pastePlaceholder: 'Dán một bài báo hoặc câu chuyện vào đây...',
+    analyzeStart: 'Phân tích & Bắt đầu',
+    analyzing: 'Đang phân tích văn bản...',
+    generateFailed: 'Không tạo được nội dung. Hãy kiểm tra API Key trong Cài đặt.',
+    analyzeFailed: 'Không phân tích được. Hãy kiểm tra API Key trong Cài đặt.',
+    importFile: 'Nhập tệp',
+    importFileHint: 'Nhập tệp .txt, .md, .html, .epub, .srt hoặc .vtt',
+    importUrl: 'Từ URL',
+    urlPlaceholder: 'https://example.com/bai-viet',
+    fetchUrl: 'Tải',
+    importing: 'Đang nhập văn bản...',
+    importFailed: 'Không nhập được tệp này.',
+    importedParts: (count: number) => `${count} phần`,
+    wordCount: (count: number) => `${count.toLocaleString()} từ`,
+    clearImport: 'Bỏ văn bản đã nhập',
+    recentSessions: 'Buổi học gần đây',
+    viewAll: 'Xem tất cả',
+    noHistory: 'Chưa có lịch sử.',
+    deleteSession: 'Xóa buổi học',
+    sessionHistory: 'Lịch sử buổi học',
+    score: 'Điểm',
+    unfinished: 'Chưa hoàn thành'
+  },
+  practice: {
+    reviewResults: 'Xem kết quả',
+    reviewHint: 'Xem phần sửa lỗi và từ vựng mới bên dưới.',
+    keyImprovements: 'Điểm cần cải thiện',
+    sentenceBySentence: 'Từng câu một',
+    advancedVocabulary: 'Từ vựng nâng cao',
+    keepEditing: 'Tiếp tục sửa',
+    finishSession: 'Kết thúc buổi học',
+    paragraphView: 'Xem theo đoạn',
+    sentenceView: 'Xem theo câu',
+    saved: (count: number) => `${count} đã lưu`,
+    sourceText: 'Văn bản gốc',
+    correction: 'Bản sửa',
+    yourTranslation: 'Bản dịch của bạn',
+    fullText: 'Cả bài',
+    availableWhenComplete: 'Dùng được khi câu chuyện đã viết xong',
+    oneSentenceAtATime: 'Dịch lần lượt từng câu',
+    translatePlaceholder: 'Dịch đoạn văn ở trên...',
+    translateIntoEnglishPlaceholder: 'Dịch đoạn văn ở trên sang tiếng Anh...',
+    suggestion: 'Gợi ý',
+    checking: 'Đang chấm...',
+    submitCheck: 'Nộp & Chấm',
+    cancelEvaluation: 'Hủy chấm bài',
+    checkResults: 'Kết quả chấm',
+    details: 'Chi tiết',
+    evaluationFailed: 'Chấm bài thất bại',
+    readAloud: 'Đọc to',
+    pauseReading: 'Tạm dừng',
+    resumeReading: 'Tiếp tục',
+    stopReading: 'Dừng',
+    voiceSettings: 'Cài đặt giọng đọc',
+    voice: 'Giọng đọc',
+    defaultVoice: 'Giọng mặc định',
+    speed: 'Tốc độ',
+    noVoices: 'Chưa cài giọng đọc cho ngôn ngữ này',
+    dictate: 'Nói bản dịch của bạn',
+    stopDictating: 'Dừng nói',
+    transcribing: 'Đang chuyển thành chữ...',
+    recognitionUnavailable: 'Không dùng được nhận dạng giọng nói ở đây. Bạn có thể chọn máy chủ Whisper trong Cài đặt.',
+    recognitionFailed: 'Nhận dạng giọng nói thất bại',
+    sentenceNumber: (n: number) => `Câu ${n}`,
+    sentenceOf: (n: number, total: number) => `Câu ${n} / ${total}`,
+    checkedCount: (count: number) => `Đã chấm ${count}`,
+    translate: 'Dịch',
+    sentencePlaceholder: 'Bản dịch câu này của bạn... (Ctrl+Enter để chấm)',
+    checkSentence: 'Chấm câu',
+    previousSentence: 'Câu trước',
+    nextSentence: 'Câu tiếp theo',
+    seeOverallResult: 'Xem kết quả chung'
+  },
+  lookup: {
+    translateSelection: 'Dịch',
+    approxTokens: (count: number) => `~${count} token`,
+    readSentence: 'Đọc to câu này',
+    searching: (word: string) => `Đang tra "${word}"...`,
+    cancelLookup: 'Hủy tra từ',
+    dictionary: 'Từ điển',
+    dictionaryHint: 'Từ từ điển ngoại tuyến; nghĩa không được điều chỉnh theo câu này',
+    ai: 'AI',
+    aiHint: 'AI giải thích theo câu này',
+    cached: 'Đã lưu tạm',
+    cachedOtherText: 'Đã lưu tạm · bài khác',
+    cachedHint: 'Đã tra trước đây trong câu này',
+    cachedOtherTextHint: 'Đã tra trước đây trong bài khác; nghĩa ở đây có thể khác',
+    askAi: 'Hỏi AI về câu này',
+    lookUpAgain: 'Tra lại',
+    savedAs: (word: string) => `Bạn đã lưu từ này dưới dạng “${word}”`,
+    definition: 'Định nghĩa',
+    translation: 'Dịch',
+    failed: 'Không dịch được. Hãy kiểm tra kết nối.',
+    error: 'Lỗi'
+  },
+  diff: {
+    matches: (percent: number) => `${percent}% bản gợi ý trùng với cách diễn đạt của bạn`,
+    sideBySide: 'Song song',
+    unified: 'Gộp chung',
+    remove: 'Bỏ',
+    add: 'Thêm',
+    was: (text: string) => `thay cho: ${text}`,
+    removed: 'Đã bỏ',
+    added: 'Đã thêm',
+    changed: 'Đã sửa'
+  },
+  mistakes: {
+    title: (count: number) => `Lỗi (${count})`,
+    original: 'Bản gốc',
+    missing: '(thiếu)',
+    categories: {
+      tense: 'Thì & thể',
+      'word-order': 'Trật tự từ',
+      'word-choice': 'Chọn từ',
+      classifier: 'Từ chỉ loại',
+      idiom: 'Thành ngữ & cụm cố định',
+      'preposition-article': 'Giới từ & mạo từ',
+      agreement: 'Số & hòa hợp',
+      omission: 'Thiếu ý',
+      addition: 'Thừa ý',
+      spelling: 'Chính tả & dấu',
+      punctuation: 'Dấu câu',
+      style: 'Tự nhiên & văn phong',
+      other: 'Khác'
+    },
+    severities: { minor: 'Nhẹ', major: 'Vừa', critical: 'Nghiêm trọng' }
+  },
+  vocab: {
+    deck: 'Bộ từ vựng',
+    flashcards: 'Thẻ ghi nhớ',
+    exportTitle: 'Xuất (CSV / Anki)',
+    importTitle: 'Nhập (CSV / danh sách từ)',
+    addManual: 'Thêm thẻ thủ công',
+    total: 'Tổng',
+    basic: 'Cơ bản (A1-A2)',
+    inter: 'Trung cấp (B1-B2)',
+    advanced: 'Nâng cao',
+    noCards: 'Không có thẻ nào trong bộ này.',
+    newCard: 'Mới',
+    due: 'Đến hạn',
+    inInterval: (interval: string) => `Sau ${interval}`,
+    intervalTitle: (interval: string, lapses: number) => `Khoảng cách ${interval} • quên ${lapses} lần`,
+    intervals: {
+      today: 'Hôm nay',
+      days: (n: number) => `${n} ngày`,
+      months: (n: number) => `${n} tháng`,
+      years: (n: string) => `${n} năm`
+    },
+    notStudied: 'Chưa học',
+    sessionComplete: 'Hoàn thành!',
+    reviewedCards: (count: number) => `Bạn đã ôn ${count} thẻ.`,
+    backToDeck: 'Về bộ từ',
+    progress: 'Tiến độ',
+    remaining: 'còn lại',
+    requeued: (count: number) => `(${count} thẻ ôn lại)`,
+    challenge: 'Thử thách',
+    speakAloud: 'Nói to hoặc đặt một câu',
+    hideMeaning: 'Ẩn nghĩa',
+    showMeaning: 'Hiện nghĩa',
+    tapToFlip: 'Chạm để lật thẻ',
+    answer: 'Đáp án',
+    hard: 'Khó',
+    good: 'Tốt',
+    easy: 'Dễ',
+    reviewSoon: 'Ôn lại sớm',
+    gotIt: 'Đã nhớ',
+    mastered: 'Thuộc lòng',
+    endSession: 'Kết thúc',
+    addNewCard: 'Thêm thẻ mới',
+    word: 'Từ *',
+    translation: 'Nghĩa *',
+    type: 'Loại từ',
+    level: 'Trình độ',
+    example: (text: string) => `VD: ${text}`,
+    definitionOptional: 'Định nghĩa (không bắt buộc)',
+    definitionPlaceholder: () => 'Giải thích ngắn bằng tiếng Việt...',
+    exampleSentence: 'Câu ví dụ (ngữ cảnh)',
+    exampleSentencePlaceholder: 'Một câu có dùng từ này...',
+    addToDeck: 'Thêm vào bộ từ',
+    dueToday: (count: number) => `Cần ôn hôm nay (${count})`,
+    allCaughtUp: 'Đã ôn hết',
+    cram: 'Ôn tất cả thẻ (không đổi lịch ôn)'
+  },
+  dictation: {
+    title: 'Nghe chép',
+    start: 'Luyện nghe chép với đoạn văn này',
+    sentenceOf: (current: number, total: number) => `Câu ${current}/${total}`,
+    listenHint: 'Nghe và gõ lại những gì bạn nghe được',
+    play: 'Phát câu',
+    replay: 'Nghe lại',
+    placeholder: 'Gõ những gì bạn nghe được...',
+    check: 'Kiểm tra',
+    next: 'Câu tiếp theo',
+    seeResults: 'Xem kết quả',
+    words: 'Từ',
+    characters: 'Ký tự',
+    missedWords: 'Từ bị sai',
+    saveWord: 'Lưu vào từ vựng',
+    lookupFailed: 'Không tra được từ này',
+    results: 'Kết quả nghe chép',
+    score: 'Điểm',
+    saveToHistory: 'Lưu vào lịch sử',
+    notSupported: 'Trình duyệt này không hỗ trợ đọc văn bản.'
+  }
+};
@@ -0,0 +1,96 @@
+import { readZip, ZipArchive } from "./zip";
+import { elementToText } from "./html";
+import { TextSection } from "./types";
+
+// EPUB 2 and 3 books: the reading order comes from the package spine and
+// chapter names from the table of contents (nav document or toc.ncx).
+
+// Covers, title pages and copyright notices are shorter than this
+const MIN_CHAPTER_CHARS = 200;
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Chapter files are XHTML, but the HTML parser forgives the many books that are not well-formed
+const parseChapter = (xhtml: string) => {
+  const doc = new DOMParser().parseFromString(xhtml, 'application/xhtml+xml');
+  return doc.querySelector('parsererror') ? new DOMParser().parseFromString(xhtml, 'text/html') : doc;
+};
+
+// Resolves an href against the file it appears in; zip paths have no leading slash
+const resolvePath = (base: string, href: string) => {
+  const path = decodeURIComponent(href.split('#')[0]);
+  const parts = base.split('/').slice(0, -1);
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const byLocalName = (root: Document | Element, name: string) =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+// Chapter file path → title, from the EPUB 3 nav document or the EPUB 2 NCX
+const readTableOfContents = async (zip: ZipArchive, opfPath: string, manifest: Element[]) => {
+  const titles = new Map<string, string>();
+  const nav = manifest.find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('nav'));
+  const ncx = manifest.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+
+  if (nav) {
+    const navPath = resolvePath(opfPath, nav.getAttribute('href') || '');
+    const doc = parseChapter(await zip.readText(navPath) || '');
+    byLocalName(doc, 'a').forEach(link => {
+      const path = resolvePath(navPath, link.getAttribute('href') || '');
+      const title = (link.textContent || '').replace(/\s+/g, ' ').trim();
+      if (title && !titles.has(path)) titles.set(path, title);
+    });
+  } else if (ncx) {
+    const ncxPath = resolvePath(opfPath, ncx.getAttribute('href') || '');
+    const doc = parseXml(await zip.readText(ncxPath) || '');
+    byLocalName(doc, 'navPoint').forEach(point => {
+      const label = byLocalName(point, 'text')[0]?.textContent?.replace(/\s+/g, ' ').trim();
+      const src = byLocalName(point, 'content')[0]?.getAttribute('src');
+      if (label && src) {
+        const path = resolvePath(ncxPath, src);
+        if (!titles.has(path)) titles.set(path, label);
+      }
+    });
+  }
+  return titles;
+};
+
+export const readEpub = async (buffer: ArrayBuffer): Promise<{ title: string; sections: TextSection[] }> => {
+  const zip = readZip(buffer);
+  const container = await zip.readText('META-INF/container.xml');
+  const opfPath = container && byLocalName(parseXml(container), 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error("Not a valid EPUB: the package file is missing");
+  const opf = parseXml(await zip.readText(opfPath) || '');
+
+  const title = byLocalName(opf, 'title')[0]?.textContent?.trim() || '';
+  const manifest = byLocalName(opf, 'item');
+  const hrefById = new Map(manifest.map(item => [item.getAttribute('id') || '', item.getAttribute('href') || '']));
+  const tocTitles = await readTableOfContents(zip, opfPath, manifest);
+
+  const sections: TextSection[] = [];
+  for (const itemref of byLocalName(opf, 'itemref')) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const href = hrefById.get(itemref.getAttribute('idref') || '');
+    if (!href) continue;
+    const path = resolvePath(opfPath, href);
+    const xhtml = await zip.readText(path);
+    if (!xhtml) continue;
+
+    const doc = parseChapter(xhtml);
+    const body = doc.body || doc.documentElement;
+    body.querySelectorAll('script, style, img, svg').forEach(element => element.remove());
+    const heading = body.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+    let text = elementToText(body);
+    if (text.length < MIN_CHAPTER_CHARS) continue;
+    const chapterTitle = tocTitles.get(path) || heading;
+    if (chapterTitle && text.startsWith(chapterTitle)) text = text.slice(chapterTitle.length).trim();
+    sections.push({ title: chapterTitle || `Chapter ${sections.length + 1}`, text });
+  }
+
+  if (sections.length === 0) throw new Error("This EPUB has no readable text. DRM-protected books cannot be imported.");
+  return { title, sections };
+};
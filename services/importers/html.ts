@@ -0,0 +1,113 @@
+import { cleanText } from "./text";
+
+// Readability-style article extraction: strip page chrome, score the
+// containers of the paragraphs by how much prose they hold and keep the best.
+
+const REMOVED_TAGS = 'script, style, noscript, template, iframe, object, embed, svg, canvas, form, button, input, select, textarea, nav, header, footer, aside, menu, figure, figcaption, img, video, audio, picture';
+const UNLIKELY = /comment|sidebar|footer|footnote|masthead|menu|nav|share|social|promo|advert|sponsor|related|recommend|subscribe|newsletter|cookie|consent|popup|modal|breadcrumb|pagination|banner|byline|meta|tags?\b/i;
+const LIKELY = /article|content|main|body|post|entry|story|text|chapter/i;
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'BLOCKQUOTE', 'PRE', 'LI', 'UL', 'OL', 'DL', 'DT', 'DD', 'TABLE', 'TR',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'ADDRESS', 'CENTER'
+]);
+
+// Enough prose that a lone <article> is trusted without scoring
+const MIN_ARTICLE_CHARS = 500;
+
+const textLength = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+// Share of an element's text that sits inside links; navigation is mostly links
+const linkDensity = (element: Element) => {
+  const total = textLength(element);
+  if (!total) return 0;
+  const linked = Array.from(element.querySelectorAll('a')).reduce((sum, link) => sum + textLength(link), 0);
+  return linked / total;
+};
+
+const removeClutter = (root: Element) => {
+  root.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove());
+  root.querySelectorAll('[hidden], [aria-hidden="true"], [role="navigation"], [role="complementary"], [role="banner"], [role="contentinfo"]')
+    .forEach(element => element.remove());
+  Array.from(root.querySelectorAll('*')).forEach(element => {
+    if (element.tagName === 'BODY' || element.tagName === 'ARTICLE' || element.tagName === 'MAIN') return;
+    const hint = `${element.className} ${element.id}`;
+    if (UNLIKELY.test(hint) && !LIKELY.test(hint)) element.remove();
+  });
+};
+
+const pickContainer = (body: Element): Element => {
+  const articles = Array.from(body.querySelectorAll('article, [itemprop="articleBody"], main'))
+    .filter(element => textLength(element) >= MIN_ARTICLE_CHARS && linkDensity(element) < 0.5)
+    .sort((a, b) => textLength(b) - textLength(a));
+  // The innermost large article: pages wrap the story in <main>, comments in their own <article>
+  if (articles.length) return articles.find(article => !article.querySelector('article')) || articles[0];
+
+  const scores = new Map<Element, number>();
+  body.querySelectorAll('p, pre, blockquote, td').forEach(paragraph => {
+    const length = textLength(paragraph);
+    if (length < 25) return;
+    const score = 1 + ((paragraph.textContent || '').match(/[,،、，]/g) || []).length + Math.min(Math.floor(length / 100), 3);
+    const parent = paragraph.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  });
+
+  let best: Element = body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+  return best;
+};
+
+// Text of an element with block elements as paragraphs and <br> as line breaks
+export const elementToText = (root: Element): string => {
+  const out: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out.push((node.textContent || '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (tag === 'BR') {
+      out.push('\n');
+      return;
+    }
+    const block = BLOCK_TAGS.has(tag);
+    if (block) out.push('\n\n');
+    element.childNodes.forEach(walk);
+    if (block) out.push('\n\n');
+  };
+  walk(root);
+  return cleanText(out.join('').replace(/[ \t]*\n[ \t]*/g, '\n'));
+};
+
+const metaContent = (doc: Document, selector: string) =>
+  doc.querySelector(selector)?.getAttribute('content')?.trim() || '';
+
+export const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+// Title and main text of a web page or saved article
+export const extractArticle = (html: string): { title: string; text: string } => {
+  const doc = parseHtml(html);
+  const title = metaContent(doc, 'meta[property="og:title"]')
+    || doc.querySelector('h1')?.textContent?.trim()
+    || doc.title.trim();
+  const body = doc.body;
+  if (!body) return { title, text: '' };
+
+  removeClutter(body);
+  const container = pickContainer(body);
+  let text = elementToText(container);
+  // The article heading repeats the title
+  if (title && text.startsWith(title)) text = text.slice(title.length).trim();
+  return { title, text };
+};
@@ -0,0 +1,100 @@
+import { ImportedText, TextImportFormat, TextSection } from "./types";
+import { cleanText, markdownToSections } from "./text";
+import { extractArticle } from "./html";
+import { isSubtitleFile, subtitlesToText } from "./subtitles";
+import { readEpub } from "./epub";
+import { splitIntoParts } from "./parts";
+import { isAbortError } from "../providers";
+
+export type { ImportedText, ImportedPart, TextImportFormat } from "./types";
+export { PART_CHARS, countWords } from "./parts";
+
+// Practice texts from files and web pages: each format is cleaned to plain
+// paragraphs and long sources are split into session-sized parts.
+
+// For the file picker
+export const TEXT_IMPORT_ACCEPT = '.txt,.text,.md,.markdown,.html,.htm,.xhtml,.epub,.srt,.vtt,text/plain,text/markdown,text/html,application/epub+zip';
+
+const FORMAT_BY_EXTENSION: Record<string, TextImportFormat> = {
+  txt: 'text', text: 'text',
+  md: 'markdown', markdown: 'markdown',
+  html: 'html', htm: 'html', xhtml: 'html',
+  epub: 'epub',
+  srt: 'subtitles', vtt: 'subtitles'
+};
+
+const extensionOf = (name: string) => (name.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i)?.[1] || '').toLowerCase();
+
+// "my_book-final.epub" -> "my book final"
+const titleFromName = (name: string) =>
+  (name.split(/[?#]/)[0].split('/').filter(Boolean).pop() || '')
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[_-]+/g, ' ')
+    .trim() || 'Imported text';
+
+// Text formats can also be told apart by their content
+const sniffFormat = (content: string): TextImportFormat => {
+  if (isSubtitleFile(content)) return 'subtitles';
+  if (/^\s*(<!doctype html|<html|<head|<body)/i.test(content)) return 'html';
+  return 'text';
+};
+
+const finish = (title: string, format: TextImportFormat, sections: TextSection[]): ImportedText => {
+  const parts = splitIntoParts(sections.filter(section => section.text.trim()), title);
+  if (parts.length === 0) throw new Error("No readable text found in this file.");
+  return { title, format, parts };
+};
+
+const fromText = (content: string, format: TextImportFormat, fallbackTitle: string): ImportedText => {
+  switch (format) {
+    case 'html': {
+      const article = extractArticle(content);
+      return finish(article.title || fallbackTitle, format, [{ text: article.text }]);
+    }
+    case 'markdown': {
+      const sections = markdownToSections(content);
+      // A lone top heading names the document
+      if (sections.length === 1 && sections[0].title) return finish(sections[0].title, format, [{ text: sections[0].text }]);
+      return finish(fallbackTitle, format, sections);
+    }
+    case 'subtitles':
+      return finish(fallbackTitle, format, [{ text: subtitlesToText(content) }]);
+    default:
+      return finish(fallbackTitle, format, [{ text: cleanText(content) }]);
+  }
+};
+
+export const importTextFile = async (file: File): Promise<ImportedText> => {
+  const format = FORMAT_BY_EXTENSION[extensionOf(file.name)];
+  const fallbackTitle = titleFromName(file.name);
+  if (format === 'epub') {
+    const book = await readEpub(await file.arrayBuffer());
+    return finish(book.title || fallbackTitle, 'epub', book.sections);
+  }
+  const content = await file.text();
+  return fromText(content, format || sniffFormat(content), fallbackTitle);
+};
+
+export const importTextFromUrl = async (url: string, signal?: AbortSignal): Promise<ImportedText> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    // Most sites do not allow cross-origin reads from the browser
+    throw new Error("This site does not allow the app to download the page. Save the page (Ctrl+S) as an HTML file and import that instead.");
+  }
+  if (!response.ok) throw new Error(`Download failed (${response.status} ${response.statusText})`);
+
+  const type = (response.headers.get('content-type') || '').toLowerCase();
+  let path = new URL(response.url || url).pathname;
+  try { path = decodeURIComponent(path); } catch { /* Keep the encoded name */ }
+  const fallbackTitle = titleFromName(path);
+  if (type.includes('epub') || extensionOf(url) === 'epub') {
+    const book = await readEpub(await response.arrayBuffer());
+    return finish(book.title || fallbackTitle, 'epub', book.sections);
+  }
+  const content = await response.text();
+  const format = type.includes('html') ? 'html' : FORMAT_BY_EXTENSION[extensionOf(url)] || sniffFormat(content);
+  return fromText(content, format, format === 'html' ? new URL(url).hostname : fallbackTitle);
+};
@@ -0,0 +1,57 @@
+import { segmentSentences } from "../segmenter";
+import { ImportedPart, TextSection } from "./types";
+
+// About 500 words: a long but finishable practice session
+export const PART_CHARS = 3000;
+
+export const countWords = (text: string) => (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || []).length;
+
+// Sentences of a split paragraph carry a leading space; paragraphs are joined by a blank line
+const join = (text: string, piece: string) =>
+  !text ? piece : piece.startsWith(' ') ? text + piece : `${text}\n\n${piece}`;
+
+// Folds a short last chunk back into the one before it when they fit together with a little slack
+const evenOut = (chunks: string[], maxChars: number) => {
+  if (chunks.length < 2) return chunks;
+  const last = chunks[chunks.length - 1];
+  const previous = chunks[chunks.length - 2];
+  if (last.length < maxChars / 4 && previous.length + last.length <= maxChars * 1.25) {
+    return [...chunks.slice(0, -2), join(previous, last)];
+  }
+  return chunks;
+};
+
+// Cuts text at paragraph breaks, or at sentence ends inside an overlong paragraph
+const splitText = (text: string, maxChars: number): string[] => {
+  const pieces = text.split(/\n{2,}/).flatMap(paragraph =>
+    paragraph.length <= maxChars
+      ? [paragraph]
+      : segmentSentences(paragraph).map(sentence => sentence.text.trim()).filter(Boolean).map((sentence, i) => (i ? ' ' : '') + sentence)
+  );
+
+  const chunks: string[] = [];
+  let current = '';
+  pieces.forEach(piece => {
+    const joined = join(current, piece);
+    if (current && joined.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = joined;
+    }
+  });
+  if (current) chunks.push(current);
+  return evenOut(chunks, maxChars).map(chunk => chunk.trimStart());
+};
+
+// Chapter-sized practice parts, numbered within their chapter: "Chapter 3 (2/4)"
+export const splitIntoParts = (sections: TextSection[], fallbackTitle: string, maxChars = PART_CHARS): ImportedPart[] =>
+  sections.flatMap((section, sectionIndex) => {
+    const chunks = splitText(section.text, maxChars);
+    const title = section.title || (sections.length > 1 ? `${fallbackTitle} ${sectionIndex + 1}` : fallbackTitle);
+    return chunks.map((text, i) => ({
+      title: chunks.length > 1 ? `${title} (${i + 1}/${chunks.length})` : title,
+      text,
+      words: countWords(text)
+    }));
+  });
@@ -0,0 +1,68 @@
+// SubRip (.srt) and WebVTT (.vtt) subtitles to prose: timings, cue numbers,
+// styling and sound descriptions are dropped and the cues joined into
+// paragraphs, starting a new one where the speech pauses after a full stop.
+
+const TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+// A pause this long (seconds) after a finished sentence starts a new paragraph
+const PARAGRAPH_PAUSE = 2;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const toSeconds = (timestamp: string) =>
+  timestamp.replace(',', '.').split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+const cleanCueLine = (line: string) =>
+  line
+    .replace(/<[^>]*>/g, '') // <i>, <c.color>, <v Speaker>, karaoke timestamps
+    .replace(/\{\\[^}]*\}/g, '') // {\an8} positioning from converted ASS files
+    .replace(/\[[^\]]*\]|\([A-Z\s]+\)/g, '') // [Music], (LAUGHS)
+    .replace(/[♪♫]/g, '')
+    .replace(/^\s*-\s*/, '') // Dialogue dash
+    .replace(/^[A-Z][A-Z\s]+:\s*/, '') // SPEAKER:
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const parseCues = (content: string): Cue[] => {
+  const cues: Cue[] = [];
+  content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    // Headers, NOTE and STYLE blocks have no timing line
+    if (timingIndex < 0) return;
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    const text = lines.slice(timingIndex + 1).map(cleanCueLine).filter(Boolean).join(' ');
+    if (text) cues.push({ start: toSeconds(start), end: toSeconds(end), text });
+  });
+  return cues;
+};
+
+export const isSubtitleFile = (content: string) =>
+  /^\uFEFF?WEBVTT/.test(content) || content.split('\n').slice(0, 5).some(line => TIMING.test(line));
+
+export const subtitlesToText = (content: string): string => {
+  const paragraphs: string[][] = [[]];
+  let previous: Cue | undefined;
+  parseCues(content).forEach(cue => {
+    // Auto-generated captions repeat the previous line as they roll; their cues
+    // overlap or touch, while a separate short cue ("no.") is real speech
+    const rolling = previous && cue.start <= previous.end ? previous : undefined;
+    if (rolling && (cue.text === rolling.text || rolling.text.endsWith(cue.text))) return;
+    const text = rolling && cue.text.startsWith(rolling.text) ? cue.text.slice(rolling.text.length).trim() : cue.text;
+    const current = paragraphs[paragraphs.length - 1];
+    if (previous && current.length && cue.start - previous.end >= PARAGRAPH_PAUSE && /[.!?…]["')\]]?$/.test(previous.text)) {
+      paragraphs.push([text]);
+    } else {
+      current.push(text);
+    }
+    previous = cue;
+  });
+  return paragraphs.map(lines => lines.join(' ')).filter(Boolean).join('\n\n');
+};
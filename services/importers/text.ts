@@ -0,0 +1,84 @@
+import { TextSection } from "./types";
+
+// Lines of a hard-wrapped paragraph are at least this long on average;
+// shorter lines (poems, lists, dialogue) keep their line breaks
+const WRAPPED_LINE_LENGTH = 40;
+
+// Joins the lines of a hard-wrapped paragraph, undoing hyphenation at line ends ("exam-\nple")
+const unwrap = (block: string) => {
+  const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) return lines.join('');
+  const average = lines.reduce((sum, line) => sum + line.length, 0) / lines.length;
+  if (average < WRAPPED_LINE_LENGTH) return lines.join('\n');
+  return lines.reduce((text, line) =>
+    /\p{Ll}-$/u.test(text) && /^\p{Ll}/u.test(line) ? text.slice(0, -1) + line : `${text} ${line}`
+  );
+};
+
+// Normalizes whitespace and invisible characters; paragraphs are separated by one blank line
+export const cleanText = (text: string) =>
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u00ad\u200b-\u200d\u2060]/g, '')
+    .replace(/[\t\f\v\u00a0\u2000-\u200a\u202f\u3000]/g, ' ')
+    .split(/\n\s*\n/)
+    .map(block => unwrap(block.replace(/ {2,}/g, ' ')))
+    .filter(Boolean)
+    .join('\n\n');
+
+// Inline markup to plain text
+const inlineMarkdown = (text: string) =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}\[\]()#+\-.!])/g, '$1');
+
+// Markdown to prose: drops code, links, images, emphasis and tables. # and ##
+// headings start a new section.
+export const markdownToSections = (markdown: string): TextSection[] => {
+  const body = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '') // Fenced code
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  const sections: TextSection[] = [];
+  let current: TextSection = { text: '' };
+  const lines: string[] = [];
+  const flush = () => {
+    current.text = cleanText(lines.join('\n'));
+    if (current.text) sections.push(current);
+    lines.length = 0;
+  };
+
+  body.split('\n').forEach(raw => {
+    const heading = raw.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading && heading[1].length <= 2) {
+      flush();
+      current = { title: inlineMarkdown(heading[2]), text: '' };
+      return;
+    }
+    if (heading) {
+      lines.push('', inlineMarkdown(heading[2]), '');
+      return;
+    }
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(raw)) { lines.push(''); return; } // Horizontal rule
+    if (/^\s*\|.*\|\s*$/.test(raw)) return; // Table row
+    if (/^\s*\[[^\]]+\]:\s*\S+/.test(raw)) return; // Link reference definition
+    if (/^( {4}|\t)/.test(raw) && (lines.length === 0 || lines[lines.length - 1] === '')) return; // Indented code
+    const line = raw
+      .replace(/^\s*(>\s?)+/, '')
+      .replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '');
+    lines.push(inlineMarkdown(line));
+  });
+  flush();
+
+  return sections;
+};
@@ -0,0 +1,20 @@
+export type TextImportFormat = 'text' | 'markdown' | 'html' | 'epub' | 'subtitles';
+
+// A chapter or section of the source, before it is cut to session size
+export interface TextSection {
+  title?: string;
+  text: string;
+}
+
+// One practice-sized piece of an imported text
+export interface ImportedPart {
+  title: string;
+  text: string;
+  words: number;
+}
+
+export interface ImportedText {
+  title: string;
+  format: TextImportFormat;
+  parts: ImportedPart[];
+}
@@ -0,0 +1,70 @@
+// Minimal ZIP reader for EPUB files: stored and deflated entries only,
+// inflated with the browser's DecompressionStream.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  readText: (name: string) => Promise<string | undefined>;
+}
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder('utf-8');
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a valid ZIP archive");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("Corrupt ZIP directory");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    readText: async (name: string) => {
+      const entry = entries.get(name);
+      if (!entry) return undefined;
+      const header = entry.localHeaderOffset;
+      if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry: ${name}`);
+      const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+      const data = bytes.subarray(start, start + entry.compressedSize);
+      if (entry.method === 0) return decoder.decode(data);
+      if (entry.method === 8) return decoder.decode(await inflate(data));
+      throw new Error(`Unsupported ZIP compression in ${name}`);
+    }
+  };
+};
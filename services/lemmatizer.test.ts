@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createLemmaIndex, lemmaCandidates, lemmatize, sameLemma } from './lemmatizer';
+
+describe('lemmatize', () => {
+  it('folds irregular forms to their base', () => {
+    expect(lemmatize('ran')).toBe('run');
+    expect(lemmatize('left')).toBe('leave');
+    expect(lemmatize('better')).toBe('good');
+    expect(lemmatize('lives')).toBe('life');
+    expect(lemmatize('Children')).toBe('child');
+  });
+
+  it('picks the first candidate the caller knows', () => {
+    const known = new Set(['play', 'stop', 'hope', 'visit']);
+    const isKnown = (lemma: string) => known.has(lemma);
+    expect(lemmatize('played', isKnown)).toBe('play');
+    expect(lemmatize('stopping', isKnown)).toBe('stop');
+    expect(lemmatize('hoped', isKnown)).toBe('hope');
+    expect(lemmatize('visited', isKnown)).toBe('visit');
+  });
+});
+
+describe('lemmaCandidates', () => {
+  it('puts the word itself first', () => {
+    expect(lemmaCandidates('Running')[0]).toBe('running');
+    expect(lemmaCandidates('running')).toContain('run');
+  });
+
+  it('does not offer a short stem that lost its e', () => {
+    expect(lemmaCandidates('caring')).toContain('care');
+    expect(lemmaCandidates('caring')).not.toContain('car');
+    expect(lemmaCandidates('hated')).toContain('hate');
+    expect(lemmaCandidates('hated')).not.toContain('hat');
+    expect(lemmaCandidates('biting')).toContain('bite');
+    expect(lemmaCandidates('biting')).not.toContain('bit');
+    expect(lemmaCandidates('stared')).not.toContain('star');
+  });
+
+  it('still offers the bare stem where no e was lost', () => {
+    expect(lemmaCandidates('playing')).toContain('play');
+    expect(lemmaCandidates('fixed')).toContain('fix');
+    expect(lemmaCandidates('rained')).toContain('rain');
+    expect(lemmaCandidates('opening')).toContain('open');
+    expect(lemmaCandidates('starred')).toContain('star');
+  });
+
+  it('inflects the verb and the last noun of a phrase', () => {
+    expect(lemmaCandidates('gave up')).toContain('give up');
+    expect(lemmaCandidates('credit cards')).toContain('credit card');
+  });
+});
+
+describe('sameLemma', () => {
+  it('matches forms of one word only', () => {
+    expect(sameLemma('ran', 'running')).toBe(true);
+    expect(sameLemma('caring', 'car')).toBe(false);
+  });
+});
+
+describe('createLemmaIndex', () => {
+  const index = createLemmaIndex(['car', 'hat', 'bit', 'run', 'leave', 'life', 'good'], word => word);
+
+  it('finds a saved word from its inflected forms', () => {
+    expect(index.find('ran')).toBe('run');
+    expect(index.find('running')).toBe('run');
+    expect(index.find('left')).toBe('leave');
+    expect(index.find('lives')).toBe('life');
+    expect(index.find('better')).toBe('good');
+    expect(index.find('cars')).toBe('car');
+  });
+
+  it('does not match a word that only shares its stem', () => {
+    expect(index.find('caring')).toBeUndefined();
+    expect(index.find('hated')).toBeUndefined();
+    expect(index.find('biting')).toBeUndefined();
+  });
+
+  it('does not take a saved word for the verb it is also a form of', () => {
+    const words = createLemmaIndex(['bit', 'left'], word => word);
+    expect(words.find('biting')).toBeUndefined();
+    expect(words.find('leaving')).toBeUndefined();
+    expect(words.find('left')).toBe('left');
+  });
+
+  it('prefers an exact match over an inflected one', () => {
+    const both = createLemmaIndex(['runs', 'run'], word => word);
+    expect(both.find('runs')).toBe('runs');
+  });
+});
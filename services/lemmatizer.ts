@@ -0,0 +1,194 @@
+// English lemmatizer for matching inflected forms ("running", "ran") to
+// vocabulary entries ("run"). Irregular forms come from tables; everything
+// else from suffix rules that propose candidates, so callers check them
+// against the words they actually know.
+
+// "base past participle [other forms]"
+const IRREGULAR_VERBS = `
+arise arose arisen|awake awoke awoken|be was were been being am is are|bear bore borne born|beat beat beaten
+become became become|begin began begun|bend bent|bet bet|bind bound|bite bit bitten|bleed bled
+blow blew blown|break broke broken|breed bred|bring brought|build built|burn burnt|burst burst
+buy bought|catch caught|choose chose chosen|cling clung|come came come|cost cost|creep crept
+cut cut|deal dealt|dig dug|do did done does|draw drew drawn|dream dreamt|drink drank drunk
+drive drove driven|eat ate eaten|fall fell fallen|feed fed|feel felt|fight fought|find found
+flee fled|fling flung|fly flew flown flies|forbid forbade forbidden|forget forgot forgotten
+forgive forgave forgiven|freeze froze frozen|get got gotten|give gave given|go went gone goes
+grind ground|grow grew grown|hang hung|have had has|hear heard|hide hid hidden|hit hit|hold held
+hurt hurt|keep kept|kneel knelt|know knew known|lay laid|lead led|lean leant|leap leapt|learn learnt
+leave left|lend lent|let let|lie lay lain|light lit|lose lost|make made|mean meant|meet met
+mistake mistook mistaken|overcome overcame overcome|pay paid|prove proved proven|put put|quit quit
+read read|ride rode ridden|ring rang rung|rise rose risen|run ran run|say said|see saw seen
+seek sought|sell sold|send sent|set set|sew sewed sewn|shake shook shaken|shine shone|shoot shot
+show showed shown|shrink shrank shrunk|shut shut|sing sang sung|sink sank sunk|sit sat|sleep slept
+slide slid|speak spoke spoken|speed sped|spend spent|spill spilt|spin spun|spit spat|split split
+spread spread|spring sprang sprung|stand stood|steal stole stolen|stick stuck|sting stung|stink stank stunk
+strike struck|strive strove striven|swear swore sworn|sweep swept|swim swam swum|swing swung
+take took taken|teach taught|tear tore torn|tell told|think thought|throw threw thrown
+tread trod trodden|undergo underwent undergone|understand understood|undertake undertook undertaken
+upset upset|wake woke woken|wear wore worn|weave wove woven|weep wept|win won|wind wound
+withdraw withdrew withdrawn|write wrote written
+`;
+
+// "singular plural"
+const IRREGULAR_NOUNS = `
+analysis analyses|axis axes|basis bases|child children|crisis crises|criterion criteria
+datum data|foot feet|goose geese|half halves|hypothesis hypotheses|knife knives|leaf leaves
+life lives|louse lice|man men|medium media|mouse mice|ox oxen|person people|phenomenon phenomena
+self selves|shelf shelves|thesis theses|thief thieves|tooth teeth|wife wives|wolf wolves|woman women
+`;
+
+// "base comparative superlative"
+const IRREGULAR_ADJECTIVES = `
+good better best|bad worse worst|far further furthest farther farthest|little less least|many more most
+big bigger biggest|hot hotter hottest|fat fatter fattest|thin thinner thinnest|wet wetter wettest
+sad sadder saddest|red redder reddest|fit fitter fittest|flat flatter flattest|slim slimmer slimmest
+`;
+
+const parseTable = (table: string) => {
+  const forms = new Map<string, string>();
+  table.split(/[|\n]/).map(group => group.trim().split(/\s+/)).forEach(([base, ...inflected]) => {
+    if (!base) return;
+    inflected.forEach(form => { if (form !== base && !forms.has(form)) forms.set(form, base); });
+  });
+  return forms;
+};
+
+const IRREGULAR = new Map([
+  ...parseTable(IRREGULAR_ADJECTIVES),
+  ...parseTable(IRREGULAR_NOUNS),
+  ...parseTable(IRREGULAR_VERBS)
+]);
+
+// Words that only look inflected
+const NOT_INFLECTED = new Set([
+  'always', 'perhaps', 'news', 'series', 'species', 'means', 'lens', 'chaos', 'bias', 'gas', 'yes', 'this', 'thus',
+  'towards', 'afterwards', 'nowadays', 'sometimes', 'during', 'thing', 'nothing', 'something', 'anything', 'everything',
+  'morning', 'evening', 'ceiling', 'wedding', 'building', 'feeling', 'meaning', 'beginning', 'interesting',
+  'need', 'seed', 'speed', 'feed', 'greed', 'indeed', 'hundred', 'sacred', 'naked', 'wicked', 'shed',
+  'flower', 'shower', 'number', 'corner', 'mother', 'brother', 'master', 'poster', 'hunger', 'border', 'liver'
+]);
+
+// Irregular forms that are also words of their own ("a bit", "on the left"):
+// a card saved as one of them is not taken for the verb
+const ALSO_BASE_FORMS = new Set(['bit', 'left', 'found', 'felt', 'fell', 'lay', 'saw', 'rose', 'ground', 'wound', 'lives']);
+
+const VOWELS = /[aeiouy]/;
+
+const undouble = (stem: string) =>
+  /([bdgklmnprtvz])\1$/.test(stem) ? stem.slice(0, -1) : null;
+
+// One-syllable words ending in vowel + consonant double it before -ed and
+// -ing (stop, stopped), so such a stem left undoubled lost an e (hated -> hate, not hat)
+const lostE = (stem: string) => /^[^aeiou]*[aeiou][^aeiouwxy]$/.test(stem);
+
+// Normalized form used for comparisons: lower case, straight apostrophes, no possessive
+export const normalizeWord = (word: string) =>
+  word.normalize('NFC').trim().toLowerCase().replace(/’/g, "'").replace(/'s$/, '');
+
+const singleWordCandidates = (word: string): string[] => {
+  const candidates = [word];
+  const add = (form: string | null) => {
+    if (form && form.length >= 2 && VOWELS.test(form) && !candidates.includes(form)) candidates.push(form);
+  };
+
+  const irregular = IRREGULAR.get(word);
+  if (irregular) add(irregular);
+  if (NOT_INFLECTED.has(word) || word.length < 4) return candidates;
+
+  if (word.endsWith('ies')) add(word.slice(0, -3) + 'y');
+  if (word.endsWith('ves')) { add(word.slice(0, -3) + 'f'); add(word.slice(0, -3) + 'fe'); }
+  if (/(s|x|z|ch|sh|o)es$/.test(word)) add(word.slice(0, -2));
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) add(word.slice(0, -1));
+
+  if (word.endsWith('ied')) add(word.slice(0, -3) + 'y');
+  if (word.endsWith('ed')) {
+    const stem = word.slice(0, -2);
+    add(word.slice(0, -1)); // hoped -> hope
+    if (!lostE(stem)) add(stem); // played -> play
+    add(undouble(stem)); // stopped -> stop
+  }
+
+  if (word.endsWith('ing') && word.length >= 5) {
+    const stem = word.slice(0, -3);
+    if (!lostE(stem)) add(stem); // playing -> play
+    add(undouble(stem)); // running -> run
+    add(stem + 'e'); // making -> make
+    if (stem.endsWith('y')) add(stem.slice(0, -1) + 'ie'); // lying -> lie
+  }
+
+  // Comparatives; doubled ones (bigger) are in the table, and short stems are too often whole words (after, water)
+  if (/i(er|est)$/.test(word)) add(word.replace(/i(er|est)$/, 'y')); // happier -> happy
+  if (/e(r|st)$/.test(word)) {
+    const stem = word.replace(/e(r|st)$/, '');
+    add(stem + 'e'); // larger -> large
+    if (stem.length >= 4) add(stem); // faster -> fast
+  }
+
+  return candidates;
+};
+
+// Possible dictionary forms of a word or phrase, the word itself first. For
+// phrases the first word (verb of "gave up") and the last (noun of "credit
+// cards") are the ones that inflect.
+export const lemmaCandidates = (text: string): string[] => {
+  const words = normalizeWord(text).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  if (words.length === 1) return singleWordCandidates(words[0]);
+
+  const phrase = words.join(' ');
+  const candidates = [phrase];
+  const [first, ...rest] = words;
+  singleWordCandidates(first).slice(1).forEach(form => candidates.push([form, ...rest].join(' ')));
+  const last = words[words.length - 1];
+  singleWordCandidates(last).slice(1).forEach(form => candidates.push([...words.slice(0, -1), form].join(' ')));
+  return candidates;
+};
+
+// Best single guess; with isKnown, the first candidate the caller recognises
+export const lemmatize = (text: string, isKnown?: (lemma: string) => boolean): string => {
+  const candidates = lemmaCandidates(text);
+  if (candidates.length === 0) return '';
+  if (isKnown) return candidates.find(isKnown) || candidates[0];
+  const words = normalizeWord(text).split(/\s+/);
+  return words.length === 1 && IRREGULAR.has(words[0]) ? IRREGULAR.get(words[0])! : candidates[0];
+};
+
+// Whether two words can be forms of the same lemma ("ran" and "running")
+export const sameLemma = (a: string, b: string) => {
+  const forms = new Set(lemmaCandidates(a));
+  return lemmaCandidates(b).some(form => forms.has(form));
+};
+
+export interface LemmaIndex<T> {
+  find: (text: string) => T | undefined;
+}
+
+// Looks items up by any inflected form. An exact match wins, then a
+// dictionary form of the text, then an item whose own word is inflected
+// ("running" saved, "runs" in the text).
+export const createLemmaIndex = <T>(items: T[], wordOf: (item: T) => string): LemmaIndex<T> => {
+  const exact = new Map<string, T>();
+  const byForm = new Map<string, T>();
+  items.forEach(item => {
+    const [word, ...candidates] = lemmaCandidates(wordOf(item));
+    if (!word) return;
+    const forms = ALSO_BASE_FORMS.has(word) ? candidates.filter(form => form !== IRREGULAR.get(word)) : candidates;
+    if (!exact.has(word)) exact.set(word, item);
+    forms.forEach(form => { if (!byForm.has(form)) byForm.set(form, item); });
+  });
+
+  return {
+    find: (text: string) => {
+      const candidates = lemmaCandidates(text);
+      for (const form of candidates) {
+        const item = exact.get(form);
+        if (item) return item;
+      }
+      for (const form of candidates) {
+        const item = byForm.get(form);
+        if (item) return item;
+      }
+      return undefined;
+    }
+  };
+};
@@ -0,0 +1,114 @@
+import { LookupCacheEntry, NativeLanguage, TokenUsage, TranslationDirection, VocabularyItem } from "../types";
+import { getLookup, findLookupsByLemma, saveLookup, loadLookups, clearLookups } from "./storage";
+import { lemmatize, lemmaCandidates } from "./lemmatizer";
+
+// Word lookups kept across sessions. An entry is filed under the word plus a
+// fingerprint of the sentence it was looked up in: the same word in the same
+// sentence is an exact hit, a regular form of it elsewhere a lemma hit
+// (instant, but the meaning may differ, so the reader can refresh it).
+
+export type CacheHit = 'exact' | 'lemma';
+
+export interface CacheScope {
+  direction?: TranslationDirection;
+  nativeLanguage?: NativeLanguage;
+}
+
+export interface CachedLookup {
+  item: VocabularyItem;
+  usage: TokenUsage;
+  hit: CacheHit;
+}
+
+export interface LookupCacheStats {
+  entries: number;
+  hits: number;
+  tokensSaved: number;
+}
+
+// Lowercase, NFC, no surrounding punctuation: "Running," and "running" are the same word.
+// Not lemmatized; the offline dictionary files headwords under this form.
+export const normalizeLookupWord = (word: string) =>
+  word.normalize('NFC')
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+
+// The word and its regular dictionary forms ("running" -> "run"). Irregular
+// bases are left out: without context "left" may be the adjective, not "leave".
+const regularForms = (word: string) => {
+  const surface = normalizeLookupWord(word);
+  const irregular = lemmatize(surface);
+  return lemmaCandidates(surface).filter(form => form === surface || form !== irregular);
+};
+
+// Whether a cached lookup is for a form of the clicked word, not another headword
+const sameWord = (entry: LookupCacheEntry, word: string) => {
+  const forms = new Set(regularForms(word));
+  return regularForms(entry.item.word).some(form => forms.has(form));
+};
+
+// FNV-1a hash of the normalized sentence
+export const contextFingerprint = (context: string) => {
+  const normalized = context.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const scopePrefix = (scope: CacheScope) => `${scope.direction || 'en-vi'}|${scope.nativeLanguage || 'vi'}|`;
+
+const lemmaKeyFor = (word: string, scope: CacheScope) => scopePrefix(scope) + normalizeLookupWord(word);
+
+// Senses of the word filed under it or one of its regular dictionary forms,
+// so "running" also finds an entry saved for "run"
+const findLemmaEntry = async (word: string, scope: CacheScope) => {
+  for (const form of regularForms(word)) {
+    const entries = (await findLookupsByLemma(scopePrefix(scope) + form)).filter(entry => sameWord(entry, word));
+    // Most recently used sense of the word
+    if (entries.length) return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt)[0];
+  }
+  return undefined;
+};
+
+export const readLookupCache = async (word: string, context: string, scope: CacheScope): Promise<CachedLookup | null> => {
+  const exact = await getLookup(`${lemmaKeyFor(word, scope)}|${contextFingerprint(context)}`);
+  let entry = exact && sameWord(exact, word) ? exact : undefined;
+  const hit: CacheHit = entry ? 'exact' : 'lemma';
+  if (!entry) entry = await findLemmaEntry(word, scope);
+  if (!entry) return null;
+
+  const touched = { ...entry, hits: entry.hits + 1, lastUsedAt: Date.now() };
+  saveLookup(touched).catch(err => console.error("Failed to update lookup cache", err));
+  // The sense carries over; the word stays the form that was clicked
+  return { item: { ...entry.item, word, context }, usage: entry.usage, hit };
+};
+
+export const writeLookupCache = async (word: string, context: string, scope: CacheScope, item: VocabularyItem, usage: TokenUsage) => {
+  const lemmaKey = lemmaKeyFor(word, scope);
+  const now = Date.now();
+  await saveLookup({
+    key: `${lemmaKey}|${contextFingerprint(context)}`,
+    lemmaKey,
+    item,
+    usage,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0
+  });
+};
+
+export const getLookupCacheStats = async (): Promise<LookupCacheStats> => {
+  const entries = await loadLookups();
+  return entries.reduce<LookupCacheStats>((stats, entry) => ({
+    entries: stats.entries + 1,
+    hits: stats.hits + entry.hits,
+    tokensSaved: stats.tokensSaved + entry.hits * entry.usage.totalTokens
+  }), { entries: 0, hits: 0, tokensSaved: 0 });
+};
+
+export const clearLookupCache = clearLookups;
@@ -0,0 +1,61 @@
+// Best-effort parser for a JSON document that is still being streamed.
+// Unterminated strings, arrays and objects are closed; a trailing value that
+// cannot be completed (half a key, a dangling comma) is dropped.
+// Returns undefined when nothing usable has arrived yet.
+export const parsePartialJson = (input: string): unknown => {
+  // Strip a leading markdown fence, the closing one may not have arrived yet
+  const text = input.trim().replace(/^```(?:json)?/, '').replace(/```$/, '').trim();
+  if (!text) return undefined;
+
+  const stack: ('}' | ']')[] = [];
+  // Positions where the document can be cut and closed, with the closers needed at that point
+  const cutPoints: { index: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+      cutPoints.push({ index: i + 1, closers: stack.slice().reverse().join('') });
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      cutPoints.push({ index: i + 1, closers: stack.slice().reverse().join('') });
+    } else if (ch === ',') {
+      cutPoints.push({ index: i, closers: stack.slice().reverse().join('') });
+    }
+  }
+
+  const tryParse = (candidate: string): unknown => {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      return undefined;
+    }
+  };
+
+  // 1. Close the open string (minus any half-written escape) and the open containers
+  let completed = text;
+  if (inString) {
+    completed = completed.replace(/\\u[0-9a-fA-F]{0,3}$|\\$/, '') + '"';
+  }
+  const full = tryParse(completed + stack.slice().reverse().join(''));
+  if (full !== undefined) return full;
+
+  // 2. Fall back to the last position where the document was structurally sound
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const { index, closers } = cutPoints[i];
+    const parsed = tryParse(text.slice(0, index) + closers);
+    if (parsed !== undefined) return parsed;
+  }
+  return undefined;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createPhraseMatcher } from './phraseMatcher';
+
+// Split the way InteractiveText does: words and the text between them
+const tokenize = (text: string) => text.split(/([\p{L}\p{M}\p{N}'-]+)/gu);
+
+const find = (phrases: string[], text: string) => {
+  const tokens = tokenize(text);
+  return createPhraseMatcher(phrases, phrase => phrase).match(tokens).map(match => ({
+    phrase: match.item,
+    words: match.tokens.map(token => tokens[token]).join(' ')
+  }));
+};
+
+describe('createPhraseMatcher', () => {
+  it('matches inflected phrases', () => {
+    expect(find(['give up'], 'She gave up smoking.')).toEqual([{ phrase: 'give up', words: 'gave up' }]);
+  });
+
+  it('matches a separable verb around its object', () => {
+    expect(find(['turn off'], 'Please turn the lights off now.')).toEqual([{ phrase: 'turn off', words: 'turn off' }]);
+  });
+
+  it('fills placeholders', () => {
+    expect(find(["make up one's mind"], 'He made up his mind.')).toEqual([{ phrase: "make up one's mind", words: 'made up mind' }]);
+  });
+
+  it('does not run across sentence punctuation', () => {
+    expect(find(['give up'], 'They will give. Up there it is cold.')).toEqual([]);
+  });
+
+  it('does not reach past another particle in the gap', () => {
+    expect(find(['turn off'], 'Turn on the off switch.')).toEqual([]);
+    expect(find(['turn off', 'turn on'], 'Turn on the off switch.')).toEqual([{ phrase: 'turn on', words: 'Turn on' }]);
+  });
+});
@@ -0,0 +1,190 @@
+import { lemmaCandidates } from "./lemmatizer";
+
+// Finds multi-word vocabulary ("give up", "turn off", "make up one's mind")
+// in tokenized text. Words may be inflected ("gave up"), separable phrasal
+// verbs may have an object in between ("turn the lights off"), and
+// placeholders in an entry stand for whatever fills them.
+
+// Particles that can be separated from their verb
+const PARTICLES = new Set([
+  'off', 'on', 'up', 'down', 'out', 'in', 'away', 'back', 'over', 'around', 'round', 'about', 'through', 'apart', 'aside', 'along', 'forward'
+]);
+const MAX_GAP = 3; // Words allowed between a verb and its particle
+const MAX_FILLER = 4; // Words a "someone"/"something" placeholder may stand for
+
+const ANY_PLACEHOLDERS = new Set(['someone', 'somebody', 'something', 'sb', 'sth', 'sb/sth', 'sth/sb']);
+const POSSESSIVE_PLACEHOLDERS = new Set(["one's", "someone's", "somebody's", "sb's"]);
+const POSSESSIVES = new Set(['my', 'your', 'his', 'her', 'its', 'our', 'their', "one's"]);
+const REFLEXIVE_PLACEHOLDERS = new Set(['oneself']);
+const REFLEXIVES = new Set(['myself', 'yourself', 'himself', 'herself', 'itself', 'ourselves', 'yourselves', 'themselves', 'oneself']);
+
+// A phrase never runs across sentence or clause punctuation
+const BREAKING_PUNCTUATION = /[.,!?;:…—–()\[\]]/;
+
+type PatternWord =
+  | { kind: 'word'; text: string; forms: Set<string> }
+  | { kind: 'any' | 'possessive' | 'reflexive' };
+
+interface Pattern<T> {
+  item: T;
+  words: PatternWord[];
+  separable: boolean; // verb + particle: the particle may come after the object
+}
+
+export interface PhraseMatch<T> {
+  item: T;
+  tokens: number[]; // Indices of the matched word tokens, placeholders and gaps excluded
+  start: number; // First and last token index of the whole span
+  end: number;
+}
+
+export interface PhraseMatcher<T> {
+  // tokens: a segment split into words and the text between them
+  match: (tokens: string[]) => PhraseMatch<T>[];
+}
+
+interface Part {
+  text: string;
+  forms: string[];
+  token: number;
+  firstOfToken: boolean;
+  lastOfToken: boolean;
+}
+
+const isWordToken = (token: string) => /[\p{L}\p{N}]/u.test(token);
+
+// "well-known" and "well known" are the same phrase
+const splitWords = (text: string) => text.toLowerCase().replace(/’/g, "'").split(/[\s-]+/).filter(Boolean);
+
+const patternWord = (word: string): PatternWord => {
+  if (ANY_PLACEHOLDERS.has(word)) return { kind: 'any' };
+  if (POSSESSIVE_PLACEHOLDERS.has(word)) return { kind: 'possessive' };
+  if (REFLEXIVE_PLACEHOLDERS.has(word)) return { kind: 'reflexive' };
+  return { kind: 'word', text: word, forms: new Set(lemmaCandidates(word)) };
+};
+
+const buildPattern = <T>(item: T, phrase: string): Pattern<T> | null => {
+  const words = splitWords(phrase).map(patternWord);
+  // Leading and trailing placeholders ("look after someone") add nothing to match on
+  while (words.length && words[0].kind !== 'word') words.shift();
+  while (words.length && words[words.length - 1].kind !== 'word') words.pop();
+  if (words.filter(word => word.kind === 'word').length < 2) return null;
+  const last = words[words.length - 1];
+  return { item, words, separable: words.length === 2 && last.kind === 'word' && PARTICLES.has(last.text) };
+};
+
+const toParts = (tokens: string[]): Part[] =>
+  tokens.flatMap((token, index) => {
+    if (!isWordToken(token)) return [];
+    const words = splitWords(token);
+    return words.map((text, i) => ({
+      text,
+      forms: lemmaCandidates(text),
+      token: index,
+      firstOfToken: i === 0,
+      lastOfToken: i === words.length - 1
+    }));
+  });
+
+const wordMatches = (word: PatternWord, part: Part) => {
+  switch (word.kind) {
+    case 'word':
+      return part.forms.some(form => word.forms.has(form));
+    case 'possessive':
+      return POSSESSIVES.has(part.text) || /'s$/.test(part.text);
+    case 'reflexive':
+      return REFLEXIVES.has(part.text);
+    default:
+      return true;
+  }
+};
+
+// Text between two parts, empty inside a hyphenated token
+const between = (tokens: string[], from: Part, to: Part) =>
+  from.token === to.token ? '' : tokens.slice(from.token + 1, to.token).join('');
+
+// Part indices of the pattern words that matched, or null. Tries the tightest reading first.
+const matchAt = <T>(pattern: Pattern<T>, tokens: string[], parts: Part[], start: number): number[] | null => {
+  const step = (wordIdx: number, partIdx: number, matched: number[]): number[] | null => {
+    if (wordIdx === pattern.words.length) return matched;
+    const word = pattern.words[wordIdx];
+
+    if (word.kind === 'any') {
+      for (let length = 1; length <= MAX_FILLER && partIdx + length <= parts.length; length++) {
+        const result = step(wordIdx + 1, partIdx + length, matched);
+        if (result) return result;
+      }
+      return null;
+    }
+
+    const maxGap = pattern.separable && wordIdx === 1 ? MAX_GAP : 0;
+    for (let gap = 0; gap <= maxGap && partIdx + gap < parts.length; gap++) {
+      const part = parts[partIdx + gap];
+      if (wordMatches(word, part)) {
+        const result = step(wordIdx + 1, partIdx + gap + 1, word.kind === 'word' ? [...matched, partIdx + gap] : matched);
+        if (result) return result;
+      }
+      // The gap holds the object, not another particle: "turn on the off switch" is no "turn off"
+      if (PARTICLES.has(part.text)) break;
+    }
+    return null;
+  };
+
+  if (!parts[start].firstOfToken) return null;
+  const matched = step(0, start, []);
+  if (!matched) return null;
+  const end = matched[matched.length - 1];
+  if (!parts[end].lastOfToken) return null;
+  for (let i = start; i < end; i++) {
+    if (BREAKING_PUNCTUATION.test(between(tokens, parts[i], parts[i + 1]))) return null;
+  }
+  return matched;
+};
+
+const conflicts = <T>(a: PhraseMatch<T>, b: PhraseMatch<T>) => {
+  if (a.tokens.some(token => b.tokens.includes(token))) return true;
+  if (a.end < b.start || b.end < a.start) return false;
+  // One may sit in the other's gap: "turn [the light switch] off"
+  const insideGap = (outer: PhraseMatch<T>, inner: PhraseMatch<T>) =>
+    outer.tokens.some((token, i) => i + 1 < outer.tokens.length && token < inner.start && inner.end < outer.tokens[i + 1]);
+  return !insideGap(a, b) && !insideGap(b, a);
+};
+
+// Indexes the multi-word entries among items; single words are left to the caller
+export const createPhraseMatcher = <T>(items: T[], wordOf: (item: T) => string): PhraseMatcher<T> => {
+  const byFirstWord = new Map<string, Pattern<T>[]>();
+  items.forEach(item => {
+    const pattern = buildPattern(item, wordOf(item));
+    if (!pattern) return;
+    const first = pattern.words[0];
+    if (first.kind !== 'word') return;
+    first.forms.forEach(form => byFirstWord.set(form, [...(byFirstWord.get(form) || []), pattern]));
+  });
+
+  return {
+    match: (tokens: string[]) => {
+      if (byFirstWord.size === 0) return [];
+      const parts = toParts(tokens);
+
+      // words: how many words of the entry matched, for ranking
+      const found: (PhraseMatch<T> & { words: number })[] = [];
+      parts.forEach((part, start) => {
+        const patterns = new Set(part.forms.flatMap(form => byFirstWord.get(form) || []));
+        patterns.forEach(pattern => {
+          const matched = matchAt(pattern, tokens, parts, start);
+          if (!matched) return;
+          const matchedTokens = Array.from(new Set(matched.map(i => parts[i].token)));
+          found.push({ item: pattern.item, tokens: matchedTokens, start: part.token, end: matchedTokens[matchedTokens.length - 1], words: matched.length });
+        });
+      });
+
+      // Longest phrase first, then the tightest span, then the earliest
+      found.sort((a, b) => b.words - a.words || (a.end - a.start) - (b.end - b.start) || a.start - b.start);
+      const accepted: PhraseMatch<T>[] = [];
+      found.forEach(({ words, ...candidate }) => {
+        if (!accepted.some(match => conflicts(match, candidate))) accepted.push(candidate);
+      });
+      return accepted.sort((a, b) => a.start - b.start);
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { TokenUsage } from "../../types";
+import { CompletionTransport } from "./types";
+import { postJson, postStream } from "./http";
+
+interface ChatCompletionsOptions {
+  label: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+}
+
+const toUsage = (usage: any): TokenUsage => ({
+  promptTokens: usage?.prompt_tokens || 0,
+  responseTokens: usage?.completion_tokens || 0,
+  totalTokens: usage?.total_tokens || 0
+});
+
+// Transport for the OpenAI chat completions protocol, used by DeepSeek and local model servers.
+export const chatCompletionsTransport = (options: ChatCompletionsOptions): CompletionTransport => async ({ system, user, onToken, signal }) => {
+  const headers: Record<string, string> = {};
+  if (options.apiKey) {
+    headers["Authorization"] = `Bearer ${options.apiKey}`;
+  }
+
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const body = {
+    model: options.model,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: user }
+    ],
+    response_format: { type: "json_object" },
+    temperature: options.temperature
+  };
+
+  if (!onToken) {
+    const data = await postJson(options.label, url, headers, { ...body, stream: false }, signal);
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      usage: toUsage(data.usage)
+    };
+  }
+
+  let text = '';
+  let usage = toUsage(undefined);
+  await postStream(options.label, url, headers, { ...body, stream: true, stream_options: { include_usage: true } }, chunk => {
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(text);
+    }
+    // Usage arrives on the final chunk
+    if (chunk.usage) usage = toUsage(chunk.usage);
+  }, signal);
+
+  return { text, usage };
+};
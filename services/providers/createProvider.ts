@@ -0,0 +1,211 @@
+import { AIProviderId, PromptConfig, DEFAULT_PROMPTS_BY_DIRECTION, ERROR_CATEGORIES, NATIVE_LANGUAGES, NativeLanguage, TokenUsage, TranslationDirection } from "../../types";
+import { AIProvider, CompletionTransport, RequestOptions } from "./types";
+import { AIResponseError, Validator, validatePracticeContent, validateLookup, validateEvaluation, toPartialContent, toPartialEvaluation } from "../validation";
+import { parsePartialJson } from "../partialJson";
+import { getSetting } from "../storage";
+
+// Each direction has its own set of customizable prompts
+const PROMPT_SETTING = { 'en-vi': 'prompts', 'vi-en': 'promptsViEn' } as const;
+
+const fillLanguage = (template: string, language: string) => template.split('{language}').join(language);
+
+// What {language} read as when the defaults were hard-wired to Vietnamese. Settings saves
+// every prompt, so an untouched default may be stored in that old form; it is swapped back
+// for the template so it follows the language setting.
+const LEGACY_LANGUAGE = { 'en-vi': 'VN', 'vi-en': 'Vietnamese' } as const;
+
+// Helper to get the user's customized prompts, with {language} filled in
+const getStoredPrompts = async (direction: TranslationDirection = 'en-vi', language: string = NATIVE_LANGUAGES.vi.name) => {
+  const storedPrompts = await getSetting<PromptConfig>(PROMPT_SETTING[direction]);
+  const defaults = DEFAULT_PROMPTS_BY_DIRECTION[direction];
+  const prompts = { ...defaults };
+  (Object.keys(defaults) as (keyof PromptConfig)[]).forEach(key => {
+    const stored = storedPrompts?.[key];
+    const template = stored && stored !== fillLanguage(defaults[key], LEGACY_LANGUAGE[direction]) ? stored : defaults[key];
+    prompts[key] = fillLanguage(template, language);
+  });
+  return { prompts };
+};
+
+const languageName = (native?: NativeLanguage) => NATIVE_LANGUAGES[native || 'vi'].name;
+
+const cleanJsonOutput = (text: string): string => {
+  // Remove markdown code blocks if present
+  let clean = text.trim();
+  if (clean.startsWith('```json')) {
+    clean = clean.replace(/^```json/, '').replace(/```$/, '');
+  } else if (clean.startsWith('```')) {
+    clean = clean.replace(/^```/, '').replace(/```$/, '');
+  }
+  return clean.trim();
+};
+
+const parseAndValidate = <T>(text: string, validate: Validator<T>): T => {
+  let data: unknown;
+  try {
+    data = JSON.parse(cleanJsonOutput(text));
+  } catch {
+    throw new AIResponseError('Response was not valid JSON', text);
+  }
+  try {
+    return validate(data);
+  } catch (error) {
+    if (error instanceof AIResponseError) throw new AIResponseError(error.message, text);
+    throw error;
+  }
+};
+
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  responseTokens: a.responseTokens + b.responseTokens,
+  totalTokens: a.totalTokens + b.totalTokens
+});
+
+const buildRepairPrompt = (originalPrompt: string, badOutput: string, problem: string) =>
+  `${originalPrompt}
+
+Your previous response could not be used: ${problem}.
+Previous response:
+${badOutput.substring(0, 4000)}
+
+Fix your JSON. Return ONLY the corrected JSON object with every requested field.`;
+
+const JSON_RULES = `You MUST return responses in valid JSON format strictly adhering to the requested structure.
+Ensure vocabulary types include: 'Noun', 'Verb', 'Adjective', 'Adverb', 'Phrasal Verb', 'Idiom', etc.
+CEFR levels should be: A1, A2, B1, B2, C1, or C2.`;
+
+const SYSTEM_PROMPTS: Record<TranslationDirection, (language: string) => string> = {
+  'en-vi': language => `You are an expert English language tutor for ${language} learners.
+Write definitions, translations and explanations in ${language}.
+${JSON_RULES}`,
+  'vi-en': language => `You are an expert English writing tutor for ${language} learners who practise translating ${language} texts into English.
+Source texts are in ${language}; translations are graded as English, judged on accuracy, grammar and natural phrasing.
+Vocabulary entries are ${language} words or phrases from the text, with their English equivalent and a short English explanation.
+${JSON_RULES}`
+};
+
+const buildLookupPrompt = (prompts: PromptConfig, word: string, fullContext: string) => {
+  const contextSnippet = fullContext.length > 500 ? fullContext.substring(0, 500) + "..." : fullContext;
+  return prompts.lookup
+    .replace("{word}", word)
+    .replace("{context}", contextSnippet);
+};
+
+// Rough token count (~4 characters per token for English prompts); only used for previews
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// A lookup reply is a small JSON object
+const LOOKUP_RESPONSE_TOKENS = 120;
+
+// Estimated total tokens for looking up each word, before any request is sent
+export const estimateLookupTokens = async (entries: { word: string; context: string }[], options?: Pick<RequestOptions, 'direction' | 'nativeLanguage'>): Promise<number> => {
+  const direction = options?.direction || 'en-vi';
+  const language = languageName(options?.nativeLanguage);
+  const { prompts } = await getStoredPrompts(direction, language);
+  const systemTokens = estimateTokens(SYSTEM_PROMPTS[direction](language));
+  return entries.reduce((sum, { word, context }) =>
+    sum + systemTokens + estimateTokens(buildLookupPrompt(prompts, word, context)) + LOOKUP_RESPONSE_TOKENS, 0);
+};
+
+// Appended to every evaluate prompt, so customized prompts still get tagged errors back
+const errorsInstruction = (language: string) => ` Also include "errors": one entry per mistake, each { "category": one of ${ERROR_CATEGORIES.map(c => `"${c}"`).join(', ')}, "sourceSpan": exact words from the original, "userSpan": exact words from the user's translation ("" if missing), "suggestion": corrected wording, "severity": "minor" | "major" | "critical", "explanation": short reason in ${language} }.`;
+
+// Builds the four tutor operations on top of a backend-specific transport,
+// so every provider shares the same prompts and JSON handling.
+export const createProvider = (id: AIProviderId, label: string, complete: CompletionTransport): AIProvider => {
+  // Parses and validates the reply; a malformed reply gets one "fix your JSON" re-prompt.
+  // With onPartial the reply is streamed and its partially parsed JSON reported as it grows.
+  const completeJson = async <T>(direction: TranslationDirection, language: string, userContent: string, validate: Validator<T>, signal?: AbortSignal, onPartial?: (data: unknown) => void) => {
+    const system = SYSTEM_PROMPTS[direction](language);
+    const onToken = onPartial && ((textSoFar: string) => {
+      const data = parsePartialJson(textSoFar);
+      if (data !== undefined) onPartial(data);
+    });
+
+    const first = await complete({ system, user: userContent, onToken, signal });
+    try {
+      return { content: parseAndValidate(first.text, validate), usage: first.usage };
+    } catch (error) {
+      if (!(error instanceof AIResponseError)) throw error;
+      console.warn(`${label} returned an invalid response (${error.message}), asking it to repair...`);
+
+      const repair = await complete({ system, user: buildRepairPrompt(userContent, first.text, error.message), signal });
+      const usage = addUsage(first.usage, repair.usage);
+      try {
+        return { content: parseAndValidate(repair.text, validate), usage };
+      } catch (repairError) {
+        if (!(repairError instanceof AIResponseError)) throw repairError;
+        throw new AIResponseError(`${label} returned an invalid response (${repairError.message}). Please try again.`, repairError.raw);
+      }
+    }
+  };
+
+  return {
+    id,
+    label,
+
+    generate: async (config, options) => {
+      const direction = config.direction || 'en-vi';
+      const language = languageName(options?.nativeLanguage);
+      const { prompts } = await getStoredPrompts(direction, language);
+
+      const lengthVal = config.length === 'Short' ? '60' : config.length === 'Medium' ? '150' : '250';
+
+      const userPrompt = prompts.generate
+        .replace("{topic}", config.topic)
+        .replace("{difficulty}", config.difficulty)
+        .replace("{length}", lengthVal);
+
+      const onPartial = options?.onPartial;
+      const result = await completeJson(direction, language, userPrompt, validatePracticeContent, options?.signal, onPartial && (data => {
+        const partial = toPartialContent(data);
+        if (partial?.text) onPartial(partial);
+      }));
+      return { ...result.content, usage: result.usage };
+    },
+
+    analyze: async (text, options) => {
+      const direction = options?.direction || 'en-vi';
+      const language = languageName(options?.nativeLanguage);
+      const { prompts } = await getStoredPrompts(direction, language);
+
+      const userPrompt = prompts.analyze + `\n\nTEXT TO ANALYZE: "${text}"`;
+
+      // Models often omit the echoed text, so validate against the original instead
+      const result = await completeJson(direction, language, userPrompt, data =>
+        validatePracticeContent(typeof data === 'object' && data !== null ? { ...data, text } : data), options?.signal);
+      // Ensure the original text is preserved exactly
+      return { ...result.content, text: text, usage: result.usage };
+    },
+
+    lookup: async (word, fullContext, options) => {
+      const direction = options?.direction || 'en-vi';
+      const language = languageName(options?.nativeLanguage);
+      const { prompts } = await getStoredPrompts(direction, language);
+
+      const userPrompt = buildLookupPrompt(prompts, word, fullContext);
+
+      const result = await completeJson(direction, language, userPrompt, validateLookup, options?.signal);
+      return { ...result.content, word, usage: result.usage };
+    },
+
+    evaluate: async (original, userTranslation, options) => {
+      const direction = options?.direction || 'en-vi';
+      const language = languageName(options?.nativeLanguage);
+      const { prompts } = await getStoredPrompts(direction, language);
+
+      const userPrompt = prompts.evaluate
+        .replace("{original}", original)
+        .replace("{translation}", userTranslation)
+        + " Ensure you include a 'score' (0-100) in the JSON response."
+        + errorsInstruction(language);
+
+      const onPartial = options?.onPartial;
+      const result = await completeJson(direction, language, userPrompt, validateEvaluation, options?.signal, onPartial && (data => {
+        const partial = toPartialEvaluation(data);
+        if (partial) onPartial(partial);
+      }));
+      return { ...result.content, usage: result.usage };
+    }
+  };
+};
@@ -0,0 +1,49 @@
+import { TokenUsage } from "../../types";
+import { CompletionTransport } from "./types";
+import { postJson, postStream } from "./http";
+
+interface GeminiOptions {
+  apiKey: string;
+  model: string;
+}
+
+const toUsage = (usage: any): TokenUsage => ({
+  promptTokens: usage?.promptTokenCount || 0,
+  responseTokens: usage?.candidatesTokenCount || 0,
+  totalTokens: usage?.totalTokenCount || 0
+});
+
+const candidateText = (data: any): string => {
+  const parts: { text?: string }[] = data.candidates?.[0]?.content?.parts || [];
+  return parts.map(part => part.text || '').join('');
+};
+
+// Transport for the Gemini generateContent REST endpoint.
+export const geminiTransport = (options: GeminiOptions): CompletionTransport => async ({ system, user, onToken, signal }) => {
+  const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${options.model}`;
+  const headers = { "x-goog-api-key": options.apiKey };
+  const body = {
+    systemInstruction: { parts: [{ text: system }] },
+    contents: [{ role: "user", parts: [{ text: user }] }],
+    generationConfig: { responseMimeType: "application/json" }
+  };
+
+  if (!onToken) {
+    const data = await postJson("Gemini", `${baseUrl}:generateContent`, headers, body, signal);
+    return { text: candidateText(data), usage: toUsage(data.usageMetadata) };
+  }
+
+  let text = '';
+  let usage = toUsage(undefined);
+  await postStream("Gemini", `${baseUrl}:streamGenerateContent?alt=sse`, headers, body, chunk => {
+    const delta = candidateText(chunk);
+    if (delta) {
+      text += delta;
+      onToken(text);
+    }
+    // Every chunk carries the running totals; the last one is final
+    if (chunk.usageMetadata) usage = toUsage(chunk.usageMetadata);
+  }, signal);
+
+  return { text, usage };
+};
@@ -0,0 +1,108 @@
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// Resolves after ms, or rejects as soon as the signal is aborted
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// POST a JSON body and return the successful response.
+// Rate limits (429), server overload (5xx) and network failures are retried; cancellation is not.
+const openRequest = async (label: string, url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal, retries = 3): Promise<Response> => {
+  const attempt = async (retryCount: number): Promise<Response> => {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...headers
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+
+      if (!response.ok) {
+        // Handle Rate Limits or Server Overload specifically
+        if (response.status === 429 || response.status >= 500) {
+            if (retryCount > 0) {
+                console.warn(`${label} Busy (${response.status}), retrying... attempts left: ${retryCount}`);
+                await wait(2000, signal); // Wait 2 seconds before retry
+                return attempt(retryCount - 1);
+            }
+        }
+
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `API Error: ${response.statusText}`);
+      }
+
+      return response;
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      if (retryCount > 0 && (error.message.includes('fetch') || error.message.includes('network'))) {
+         await wait(2000, signal);
+         return attempt(retryCount - 1);
+      }
+      throw error;
+    }
+  };
+
+  try {
+    return await attempt(retries);
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    console.error(`${label} Call Failed:`, error);
+    throw new Error(error.message || `Failed to connect to ${label}. Please try again.`);
+  }
+};
+
+// POST a JSON body and return the parsed JSON response.
+export const postJson = async (label: string, url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<any> => {
+  const response = await openRequest(label, url, headers, body, signal);
+  return response.json();
+};
+
+// POST a JSON body and feed every server-sent `data:` event to onData as parsed JSON.
+// Only opening the stream is retried; a connection dropped mid-stream is an error.
+export const postStream = async (label: string, url: string, headers: Record<string, string>, body: unknown, onData: (data: any) => void, signal?: AbortSignal): Promise<void> => {
+  const response = await openRequest(label, url, { Accept: "text/event-stream", ...headers }, body, signal);
+  if (!response.body) {
+    throw new Error(`${label} did not return a stream.`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return; // comments, keep-alives, event names
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    try {
+      onData(JSON.parse(payload));
+    } catch {
+      console.warn(`${label} sent an unreadable stream event:`, payload);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+};
@@ -0,0 +1,66 @@
+import { AIProviderId, ProviderConfig, DEFAULT_PROVIDER_CONFIG } from "../../types";
+import { AIProvider } from "./types";
+import { getSetting } from "../storage";
+import { createProvider } from "./createProvider";
+import { chatCompletionsTransport } from "./chatCompletions";
+import { geminiTransport } from "./gemini";
+
+export { isAbortError } from "./http";
+export { estimateLookupTokens } from "./createProvider";
+export type { AIProvider, RequestOptions, StreamOptions, PartialContent, PartialEvaluation } from "./types";
+
+export const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  'deepseek': 'DeepSeek',
+  'gemini': 'Gemini',
+  'openai-compatible': 'OpenAI-compatible'
+};
+
+export const getProviderConfig = async (): Promise<ProviderConfig> => {
+  const stored = await getSetting<Partial<ProviderConfig>>('provider');
+  return { ...DEFAULT_PROVIDER_CONFIG, ...stored };
+};
+
+const requireKey = (key: string, label: string) => {
+  if (!key) {
+    throw new Error(`Please enter your ${label} API Key in Settings.`);
+  }
+  return key;
+};
+
+export const createProviderFromConfig = (config: ProviderConfig): AIProvider => {
+  const label = PROVIDER_LABELS[config.provider];
+
+  switch (config.provider) {
+    case 'gemini':
+      return createProvider('gemini', label, request => geminiTransport({
+        apiKey: requireKey(config.geminiApiKey, label),
+        model: config.geminiModel
+      })(request));
+
+    case 'openai-compatible':
+      return createProvider('openai-compatible', label, request => {
+        if (!config.openaiBaseUrl || !config.openaiModel) {
+          throw new Error("Please enter the base URL and model name of your OpenAI-compatible server in Settings.");
+        }
+        return chatCompletionsTransport({
+          label,
+          baseUrl: config.openaiBaseUrl,
+          model: config.openaiModel,
+          apiKey: config.openaiApiKey
+        })(request);
+      });
+
+    case 'deepseek':
+    default:
+      return createProvider('deepseek', label, request => chatCompletionsTransport({
+        label,
+        baseUrl: "https://api.deepseek.com",
+        model: "deepseek-chat",
+        apiKey: requireKey(config.deepseekApiKey, label),
+        temperature: 1.1
+      })(request));
+  }
+};
+
+// Resolved on every call so Settings changes apply without a reload
+export const getActiveProvider = async (): Promise<AIProvider> => createProviderFromConfig(await getProviderConfig());
@@ -0,0 +1,48 @@
+import { AIContentConfig, AIProviderId, EvaluationResult, GeneratedContent, NativeLanguage, TokenUsage, TranslationDirection, VocabularyItem } from "../../types";
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  // When set, the transport streams the reply and reports the accumulated text as it grows
+  onToken?: (textSoFar: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  // Raw model output, expected to be a JSON document
+  text: string;
+  usage: TokenUsage;
+}
+
+// The only part a backend has to implement: send one system + user prompt, get text back.
+export type CompletionTransport = (request: CompletionRequest) => Promise<CompletionResult>;
+
+export interface RequestOptions {
+  // Aborting rejects the call with an AbortError; no usage is reported for it
+  signal?: AbortSignal;
+  // Which prompt set and tutor persona to use; defaults to 'en-vi'
+  direction?: TranslationDirection;
+  // Language of definitions, translations and feedback; defaults to 'vi'
+  nativeLanguage?: NativeLanguage;
+}
+
+export interface StreamOptions<T> extends RequestOptions {
+  // Called with a best-effort view of the response while it is still being written
+  onPartial?: (partial: T) => void;
+}
+
+export interface PartialContent {
+  title: string;
+  text: string;
+}
+
+export type PartialEvaluation = Partial<Omit<EvaluationResult, 'usage'>>;
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  generate: (config: AIContentConfig, options?: StreamOptions<PartialContent>) => Promise<GeneratedContent>;
+  analyze: (text: string, options?: RequestOptions) => Promise<GeneratedContent>;
+  lookup: (word: string, fullContext: string, options?: RequestOptions) => Promise<VocabularyItem & { usage: TokenUsage }>;
+  evaluate: (original: string, userTranslation: string, options?: StreamOptions<PartialEvaluation>) => Promise<EvaluationResult & { usage: TokenUsage }>;
+}
@@ -0,0 +1,60 @@
+import { SpeechRecognizer } from "./types";
+
+// Web Speech API recognition (Chrome, Edge, Safari). Not in TypeScript's DOM
+// typings yet, so only the members used here are declared.
+interface BrowserRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type RecognitionConstructor = new () => BrowserRecognition;
+
+const getConstructor = (): RecognitionConstructor | undefined =>
+  typeof window === 'undefined' ? undefined : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': "Microphone access was denied.",
+  'audio-capture': "No microphone was found.",
+  'network': "Speech recognition needs a network connection in this browser.",
+  'language-not-supported': "Speech recognition does not support this language."
+};
+
+export const browserRecognizer: SpeechRecognizer = {
+  id: 'browser',
+  label: 'Browser',
+  isAvailable: () => !!getConstructor(),
+  start: (locale, callbacks) => {
+    const Recognition = getConstructor();
+    if (!Recognition) throw new Error("Speech recognition is not supported in this browser.");
+
+    const recognition = new Recognition();
+    recognition.lang = locale;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) callbacks.onResult(result[0].transcript, true);
+        else interim += result[0].transcript;
+      }
+      callbacks.onResult(interim, false);
+    };
+    recognition.onerror = (event) => {
+      // 'no-speech' and 'aborted' just end the session
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      callbacks.onError(new Error(ERROR_MESSAGES[event.error] || `Speech recognition failed (${event.error}).`));
+    };
+    recognition.onend = () => callbacks.onEnd();
+
+    recognition.start();
+    return { stop: () => recognition.stop() };
+  }
+};
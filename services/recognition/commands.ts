@@ -0,0 +1,61 @@
+// Spoken punctuation ("comma", "dấu phẩy"...) turned into symbols, per
+// language of the recognized speech. Longer phrases are listed first so
+// "chấm hỏi" wins over "chấm".
+
+const NEW_LINE = '\n';
+
+const COMMANDS: Record<string, [string, string][]> = {
+  en: [
+    ['new paragraph', '\n\n'], ['new line', NEW_LINE],
+    ['question mark', '?'], ['exclamation mark', '!'], ['exclamation point', '!'],
+    ['full stop', '.'], ['period', '.'], ['comma', ','], ['colon', ':'], ['semicolon', ';']
+  ],
+  vi: [
+    ['xuống dòng', NEW_LINE], ['dấu chấm hỏi', '?'], ['chấm hỏi', '?'], ['dấu hỏi chấm', '?'],
+    ['dấu chấm than', '!'], ['chấm than', '!'], ['dấu hai chấm', ':'], ['dấu chấm phẩy', ';'],
+    ['dấu chấm', '.'], ['dấu phẩy', ',']
+  ],
+  th: [
+    ['ขึ้นบรรทัดใหม่', NEW_LINE], ['เครื่องหมายคำถาม', '?'], ['เครื่องหมายตกใจ', '!'],
+    ['มหัพภาค', '.'], ['จุลภาค', ',']
+  ],
+  id: [
+    ['baris baru', NEW_LINE], ['tanda tanya', '?'], ['tanda seru', '!'], ['titik dua', ':'],
+    ['titik koma', ';'], ['titik', '.'], ['koma', ',']
+  ],
+  es: [
+    ['nueva línea', NEW_LINE], ['signo de interrogación', '?'], ['signo de exclamación', '!'],
+    ['dos puntos', ':'], ['punto y coma', ';'], ['punto', '.'], ['coma', ',']
+  ]
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Thai is written without spaces, so its commands can't require word boundaries
+const commandPattern = (phrase: string, language: string) => language === 'th'
+  ? new RegExp(`\\s*${escapeRegExp(phrase)}\\s*`, 'giu')
+  : new RegExp(`\\s*(?<![\\p{L}\\p{M}])${escapeRegExp(phrase)}(?![\\p{L}\\p{M}])`, 'giu');
+
+const capitalizeAfterSentenceEnd = (text: string) =>
+  text.replace(/([.!?]\s+)(\p{Ll})/gu, (_, end: string, letter: string) => end + letter.toUpperCase());
+
+export const applyVoiceCommands = (transcript: string, locale: string): string => {
+  const language = locale.split('-')[0].toLowerCase();
+  const commands = COMMANDS[language] || [];
+  let text = transcript;
+  commands.forEach(([phrase, symbol]) => {
+    text = text.replace(commandPattern(phrase, language), symbol.startsWith(NEW_LINE) ? symbol : `${symbol} `);
+  });
+  return capitalizeAfterSentenceEnd(text.replace(/ *\n */g, '\n').replace(/ {2,}/g, ' ')).replace(/^ +| +$/g, '');
+};
+
+// Adds a recognized phrase to what is already typed, with spacing and capitals
+export const appendTranscript = (existing: string, addition: string): string => {
+  const piece = addition.replace(/^ +/, '');
+  if (!piece) return existing;
+  if (!existing) return piece.charAt(0).toUpperCase() + piece.slice(1);
+  const glued = /^[.,!?:;\n]/.test(piece) || /\s$/.test(existing);
+  const startsSentence = /[.!?]\s*$/.test(existing) || /\n$/.test(existing);
+  const next = startsSentence ? piece.charAt(0).toUpperCase() + piece.slice(1) : piece;
+  return existing + (glued ? '' : ' ') + next;
+};
@@ -0,0 +1,36 @@
+import { RecognizerId, RecognitionConfig, DEFAULT_RECOGNITION_CONFIG } from "../../types";
+import { SpeechRecognizer } from "./types";
+import { getSetting } from "../storage";
+import { browserRecognizer } from "./browser";
+import { createWhisperRecognizer } from "./whisper";
+
+export { applyVoiceCommands, appendTranscript } from "./commands";
+export type { SpeechRecognizer, RecognitionSession, RecognitionCallbacks } from "./types";
+
+export const RECOGNIZER_LABELS: Record<RecognizerId, string> = {
+  'browser': 'Browser',
+  'whisper': 'Whisper server'
+};
+
+export const getRecognitionConfig = async (): Promise<RecognitionConfig> => {
+  const stored = await getSetting<Partial<RecognitionConfig>>('recognition');
+  return { ...DEFAULT_RECOGNITION_CONFIG, ...stored };
+};
+
+export const createRecognizerFromConfig = (config: RecognitionConfig): SpeechRecognizer => {
+  switch (config.recognizer) {
+    case 'whisper':
+      return createWhisperRecognizer({
+        label: RECOGNIZER_LABELS.whisper,
+        baseUrl: config.whisperBaseUrl,
+        model: config.whisperModel
+      });
+
+    case 'browser':
+    default:
+      return browserRecognizer;
+  }
+};
+
+// Resolved on every call so Settings changes apply without a reload
+export const getActiveRecognizer = async (): Promise<SpeechRecognizer> => createRecognizerFromConfig(await getRecognitionConfig());
@@ -0,0 +1,23 @@
+import { RecognizerId } from "../../types";
+
+export interface RecognitionCallbacks {
+  // Final text is committed; interim text replaces the previous interim text
+  onResult: (text: string, isFinal: boolean) => void;
+  onError: (error: Error) => void;
+  // Fires once, after the last result
+  onEnd: () => void;
+}
+
+export interface RecognitionSession {
+  // Stops listening; results still being processed are delivered before onEnd
+  stop: () => void;
+}
+
+// A speech-to-text backend. Browser recognition streams interim results;
+// server recognizers may only report the final text.
+export interface SpeechRecognizer {
+  id: RecognizerId;
+  label: string;
+  isAvailable: () => boolean;
+  start: (locale: string, callbacks: RecognitionCallbacks) => RecognitionSession;
+}
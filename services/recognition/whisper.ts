@@ -0,0 +1,81 @@
+import { SpeechRecognizer } from "./types";
+
+interface WhisperOptions {
+  label: string;
+  baseUrl: string;
+  model: string;
+}
+
+// Records until stopped, then sends the clip to an OpenAI-style
+// /audio/transcriptions endpoint. Only the final text is reported.
+export const createWhisperRecognizer = (options: WhisperOptions): SpeechRecognizer => {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+
+  const transcribe = async (audio: Blob, locale: string) => {
+    const extension = audio.type.includes('mp4') ? 'mp4' : audio.type.includes('ogg') ? 'ogg' : 'webm';
+    const form = new FormData();
+    form.append('file', audio, `speech.${extension}`);
+    form.append('model', options.model);
+    form.append('language', locale.split('-')[0]);
+    form.append('response_format', 'json');
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'POST', body: form });
+    } catch {
+      throw new Error(`Could not reach the ${options.label} at ${options.baseUrl}. Check that it is running and allows requests from this page (CORS).`);
+    }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `${options.label} error: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return typeof data.text === 'string' ? data.text.trim() : '';
+  };
+
+  return {
+    id: 'whisper',
+    label: options.label,
+    isAvailable: () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+    start: (locale, callbacks) => {
+      let stopped = false;
+      let recorder: MediaRecorder | null = null;
+
+      navigator.mediaDevices.getUserMedia({ audio: true }).then(stream => {
+        const release = () => stream.getTracks().forEach(track => track.stop());
+        if (stopped) {
+          release();
+          callbacks.onEnd();
+          return;
+        }
+
+        const chunks: Blob[] = [];
+        const activeRecorder = new MediaRecorder(stream);
+        activeRecorder.ondataavailable = (event) => {
+          if (event.data.size) chunks.push(event.data);
+        };
+        activeRecorder.onstop = () => {
+          release();
+          const audio = new Blob(chunks, { type: activeRecorder.mimeType || 'audio/webm' });
+          transcribe(audio, locale)
+            .then(text => { if (text) callbacks.onResult(text, true); })
+            .catch(error => callbacks.onError(error))
+            .finally(callbacks.onEnd);
+        };
+        activeRecorder.start();
+        recorder = activeRecorder;
+      }).catch(() => {
+        callbacks.onError(new Error("Microphone access was denied."));
+        callbacks.onEnd();
+      });
+
+      return {
+        stop: () => {
+          if (stopped) return;
+          stopped = true;
+          if (recorder && recorder.state !== 'inactive') recorder.stop();
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { ReviewGrade, ReviewSchedule, VocabularyItem } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const EASY_BONUS = 1.3;
+
+const endOfDay = (now: number) => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+// SM-2 with three buttons: HARD counts as a failed recall, GOOD as a correct one
+// and EASY as a perfect one (which also raises the ease).
+export const scheduleReview = (schedule: ReviewSchedule | undefined, grade: ReviewGrade, now = Date.now()): ReviewSchedule => {
+  const current = schedule || { ease: DEFAULT_EASE, interval: 0, due: now, reps: 0, lapses: 0, lastReviewed: now };
+
+  if (grade === 'HARD') {
+    return {
+      ease: Math.max(MIN_EASE, current.ease - 0.2),
+      interval: 0,
+      due: now,
+      reps: 0,
+      // A new word that is not known yet has not been forgotten
+      lapses: current.reps > 0 ? current.lapses + 1 : current.lapses,
+      lastReviewed: now
+    };
+  }
+
+  const ease = grade === 'EASY' ? current.ease + 0.1 : current.ease;
+  let interval: number;
+  if (current.reps === 0) interval = grade === 'EASY' ? 4 : 1;
+  else if (current.reps === 1) interval = 6;
+  else interval = Math.round(current.interval * ease);
+  if (grade === 'EASY' && current.reps > 0) interval = Math.round(interval * EASY_BONUS);
+
+  return {
+    ease,
+    interval,
+    due: now + interval * DAY_MS,
+    reps: current.reps + 1,
+    lapses: current.lapses,
+    lastReviewed: now
+  };
+};
+
+// New words (never reviewed) are always due
+export const isDue = (item: VocabularyItem, now = Date.now()): boolean =>
+  !item.review || item.review.due <= endOfDay(now);
+
+export interface IntervalLabels {
+  today: string;
+  days: (n: number) => string;
+  months: (n: number) => string;
+  years: (n: string) => string;
+}
+
+export const formatInterval = (days: number, labels: IntervalLabels): string => {
+  if (days <= 0) return labels.today;
+  if (days < 30) return labels.days(days);
+  if (days < 365) return labels.months(Math.round(days / 30));
+  return labels.years((days / 365).toFixed(1));
+};
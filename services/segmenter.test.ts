@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { segmentSentences, sentenceAt } from './segmenter';
+
+const split = (text: string) => segmentSentences(text).map(sentence => sentence.text.trim());
+
+describe('segmentSentences', () => {
+  it('keeps titles with the name that follows', () => {
+    expect(split('Mr. Smith arrived. Dr. Jones left.')).toEqual(['Mr. Smith arrived.', 'Dr. Jones left.']);
+  });
+
+  it('does not split after e.g. and i.e.', () => {
+    expect(split('Bring fruit, e.g. apples. Then rest.')).toEqual(['Bring fruit, e.g. apples.', 'Then rest.']);
+    expect(split('Use a noun, i.e. A thing. Done.')).toEqual(['Use a noun, i.e. A thing.', 'Done.']);
+  });
+
+  it('does not split decimals, URLs or file names', () => {
+    expect(split('It costs 3.50 dollars. See example.com for notes.txt now.')).toEqual([
+      'It costs 3.50 dollars.',
+      'See example.com for notes.txt now.'
+    ]);
+  });
+
+  it('keeps initials together', () => {
+    expect(split('J. K. Rowling wrote it. Fans loved it.')).toEqual(['J. K. Rowling wrote it.', 'Fans loved it.']);
+  });
+
+  it('ends a sentence at an abbreviation that can end one', () => {
+    expect(split('He works at Acme Inc. He likes it.')).toEqual(['He works at Acme Inc.', 'He likes it.']);
+    expect(split('It opens on Jan. 5 every year.')).toEqual(['It opens on Jan. 5 every year.']);
+  });
+
+  it('treats number abbreviations as such only before a number', () => {
+    expect(split('See No. 5 and vol. 2 for details.')).toEqual(['See No. 5 and vol. 2 for details.']);
+  });
+
+  it('splits after ordinary words that look like abbreviations', () => {
+    expect(split('He said no. Then he left.')).toEqual(['He said no.', 'Then he left.']);
+    expect(split('I love art. It makes me happy.')).toEqual(['I love art.', 'It makes me happy.']);
+  });
+
+  it('splits after the pronoun I', () => {
+    expect(split('So did I. Then we went home.')).toEqual(['So did I.', 'Then we went home.']);
+  });
+
+  it('keeps a quoted sentence with what follows it in lower case', () => {
+    expect(split('"Stop!" she said. He froze.')).toEqual(['"Stop!" she said.', 'He froze.']);
+  });
+
+  it('keeps closing quotes with the sentence they end', () => {
+    expect(split('He said "Go." Then he left.')).toEqual(['He said "Go."', 'Then he left.']);
+    expect(split('“Really?” Yes.')).toEqual(['“Really?”', 'Yes.']);
+  });
+
+  it('handles ellipses', () => {
+    expect(split('Wait... What?')).toEqual(['Wait...', 'What?']);
+    expect(split('Wait... and see.')).toEqual(['Wait... and see.']);
+    expect(split('Well… Maybe.')).toEqual(['Well…', 'Maybe.']);
+  });
+
+  it('keeps a last sentence without final punctuation', () => {
+    expect(split('First one. No final punctuation')).toEqual(['First one.', 'No final punctuation']);
+  });
+
+  it('ends sentences at line breaks', () => {
+    expect(split('A title\nThe body starts here. It goes on.')).toEqual(['A title', 'The body starts here.', 'It goes on.']);
+  });
+
+  it('splits full-width punctuation without spaces', () => {
+    expect(split('你好。再见！')).toEqual(['你好。', '再见！']);
+  });
+
+  it('covers the whole text with its spans', () => {
+    const text = 'Mr. Smith came.  "Hi!" he said.\n\nThe end';
+    const spans = segmentSentences(text);
+    expect(spans.map(span => span.text).join('')).toBe(text);
+    spans.forEach(span => expect(text.slice(span.start, span.end)).toBe(span.text));
+  });
+});
+
+describe('sentenceAt', () => {
+  it('finds the sentence containing an offset', () => {
+    const text = 'He said no. Then he left.';
+    expect(sentenceAt(text, text.indexOf('left'))?.text).toBe('Then he left.');
+    expect(sentenceAt(text, 0)?.text.trim()).toBe('He said no.');
+  });
+});
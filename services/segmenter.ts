@@ -0,0 +1,148 @@
+// Sentence segmentation shared by the sentence view, sentence-by-sentence
+// translation, dictation, read-aloud and word-context extraction.
+//
+// A sentence ends at . ! ? or … (plus any closing quotes or brackets) when
+// whitespace and the start of a new sentence follow, and at every line break.
+// Handled on purpose:
+//   "Mr. Smith arrived."            one sentence (title abbreviation)
+//   "Bring fruit, e.g. apples."     one sentence (lower case after the dot)
+//   "It costs 3.50 dollars."        one sentence (no space after the dot)
+//   "J. K. Rowling wrote it."       one sentence (initials); "So did I. Then..." is two
+//   "See No. 5." / "He said no. Then..."  one / two (abbreviation only before a number)
+//   "He works at Acme Inc. He..."   two sentences (abbreviation that can end one)
+//   "\"Stop!\" she said."           one sentence (lower case after the quote)
+//   "He said \"Go.\" Then he left." two sentences, the quote stays with the first
+//   "Wait... What?"                 two sentences; "Wait... and see" is one
+//   "No final punctuation"          kept as a sentence
+// The cases are covered in segmenter.test.ts.
+
+export interface SentenceSpan {
+  text: string; // Includes the whitespace up to the next sentence
+  start: number;
+  end: number;
+}
+
+// Never end a sentence: they are always followed by a name
+const TITLES = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'ft', 'gen', 'col', 'capt', 'lt', 'sgt', 'rev', 'hon', 'gov', 'sen', 'rep', 'pres',
+  'approx', 'ca', 'cf', 'vs', 'v', 'e.g', 'i.e', 'viz', 'al'
+]);
+
+// Also ordinary words ("he said no.", "I love art."), so they only continue the sentence before a number
+const NUMBER_ABBREVIATIONS = new Set([
+  'no', 'nos', 'fig', 'figs', 'vol', 'vols', 'ch', 'p', 'pp', 'para', 'art', 'sec', 'ed', 'eds'
+]);
+
+// Can end a sentence, so what follows decides
+const SENTENCE_FINAL_ABBREVIATIONS = new Set([
+  'etc', 'inc', 'ltd', 'co', 'corp', 'llc', 'plc', 'bros', 'dept', 'univ', 'a.m', 'p.m', 'u.s', 'u.k', 'u.s.a', 'e.u', 'u.n', 'ph.d', 'b.a', 'm.a',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'mon', 'tue', 'tues', 'wed', 'thu', 'thur', 'thurs', 'fri', 'sat', 'sun'
+]);
+
+const TERMINATORS = /[.!?…]/;
+// Full-width punctuation ends a sentence even without a following space
+const FULL_WIDTH_TERMINATORS = /[。！？]/;
+const CLOSERS = /["'”’»)\]]/;
+const OPENERS = /["'“‘«(\[¿¡]/;
+
+// The word right before a dot, with inner dots kept ("e.g", "U.S")
+const wordBefore = (text: string, dot: number) => {
+  const match = text.slice(0, dot).match(/([\p{L}\p{N}]+(?:\.[\p{L}\p{N}]+)*)$/u);
+  return match ? match[1] : '';
+};
+
+// Whether what follows looks like the start of a sentence: a capital, a digit or a caseless script
+const startsSentence = (text: string, from: number) => {
+  let i = from;
+  while (i < text.length && OPENERS.test(text[i])) i++;
+  const char = text[i];
+  if (!char) return true;
+  if (/\p{Lu}|\p{N}/u.test(char)) return true;
+  return /\p{L}/u.test(char) && char.toLowerCase() === char.toUpperCase();
+};
+
+const isBoundary = (text: string, punctuationStart: number, punctuationEnd: number, next: number) => {
+  if (next >= text.length) return true;
+  const punctuation = text.slice(punctuationStart, punctuationEnd);
+  if (!startsSentence(text, next)) return false;
+  if (punctuation !== '.') return true;
+
+  const word = wordBefore(text, punctuationStart);
+  const lower = word.toLowerCase();
+  if (TITLES.has(lower)) return false;
+  // Initials: "J. K. Rowling", but not the pronoun in "So did I. Then..."
+  if (/^\p{Lu}$/u.test(word) && word !== 'I') return false;
+  // "No. 5", "Jan. 5", "Inc. 500"
+  if ((NUMBER_ABBREVIATIONS.has(lower) || SENTENCE_FINAL_ABBREVIATIONS.has(lower)) && /\p{N}/u.test(text[next])) return false;
+  return true;
+};
+
+export const segmentSentences = (text: string): SentenceSpan[] => {
+  const spans: SentenceSpan[] = [];
+  let start = 0;
+
+  const close = (end: number) => {
+    if (end > start) spans.push({ text: text.slice(start, end), start, end });
+    start = end;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      let end = i;
+      while (end < text.length && /\s/.test(text[end])) end++;
+      close(end);
+      i = end;
+      continue;
+    }
+
+    if (FULL_WIDTH_TERMINATORS.test(char)) {
+      let end = i + 1;
+      while (end < text.length && (FULL_WIDTH_TERMINATORS.test(text[end]) || CLOSERS.test(text[end]) || /[」』]/.test(text[end]))) end++;
+      while (end < text.length && /[ \t]/.test(text[end])) end++;
+      close(end);
+      i = end;
+      continue;
+    }
+
+    if (!TERMINATORS.test(char)) {
+      i++;
+      continue;
+    }
+
+    // A run like "?!", "..." or "." followed by closing quotes
+    const punctuationStart = i;
+    let punctuationEnd = i;
+    while (punctuationEnd < text.length && TERMINATORS.test(text[punctuationEnd])) punctuationEnd++;
+    let afterClosers = punctuationEnd;
+    while (afterClosers < text.length && CLOSERS.test(text[afterClosers])) afterClosers++;
+
+    // No space after it: a decimal, "e.g.", a URL or a file name
+    if (afterClosers < text.length && !/\s/.test(text[afterClosers])) {
+      i = afterClosers;
+      continue;
+    }
+
+    let next = afterClosers;
+    while (next < text.length && /[ \t\u00a0]/.test(text[next])) next++;
+    if (next < text.length && text[next] === '\n') {
+      // The line break closes the sentence anyway
+      i = next;
+      continue;
+    }
+
+    if (isBoundary(text, punctuationStart, punctuationEnd, next)) close(next);
+    i = next;
+  }
+  close(text.length);
+  return spans;
+};
+
+// The sentence containing a character offset
+export const sentenceAt = (text: string, offset: number): SentenceSpan | undefined => {
+  const spans = segmentSentences(text);
+  return spans.find(span => offset >= span.start && offset < span.end) || spans[spans.length - 1];
+};
+
@@ -0,0 +1,40 @@
+import { EvaluationResult, SentenceEvaluation, TokenUsage, VocabularyItem } from "../types";
+import { segmentSentences } from "./segmenter";
+
+// Splits a text into sentences, keeping the closing punctuation and trailing space.
+// InteractiveText's sentence view and the sentence-by-sentence mode share it so they stay aligned.
+export const splitSentences = (text: string): string[] => segmentSentences(text).map(sentence => sentence.text);
+
+export const sumUsage = (usages: (TokenUsage | undefined)[]): TokenUsage => usages.reduce<TokenUsage>((sum, usage) => ({
+  promptTokens: sum.promptTokens + (usage?.promptTokens || 0),
+  responseTokens: sum.responseTokens + (usage?.responseTokens || 0),
+  totalTokens: sum.totalTokens + (usage?.totalTokens || 0)
+}), { promptTokens: 0, responseTokens: 0, totalTokens: 0 });
+
+// Joins the per-sentence results into one overall result; the score is weighted by sentence length
+export const aggregateSentenceEvaluations = (entries: SentenceEvaluation[]): EvaluationResult => {
+  const scored = entries.filter(e => typeof e.evaluation.score === 'number');
+  const totalWeight = scored.reduce((sum, e) => sum + e.source.length, 0);
+  const score = totalWeight > 0
+    ? Math.round(scored.reduce((sum, e) => sum + e.evaluation.score! * e.source.length, 0) / totalWeight)
+    : undefined;
+
+  const seenWords = new Set<string>();
+  const difficultWords: VocabularyItem[] = [];
+  entries.forEach(e => e.evaluation.difficultWords.forEach(word => {
+    const key = word.word.toLowerCase();
+    if (seenWords.has(key)) return;
+    seenWords.add(key);
+    difficultWords.push(word);
+  }));
+
+  return {
+    correctedTranslation: entries.map(e => e.evaluation.correctedTranslation.trim()).join(' '),
+    keyImprovements: entries.flatMap((e, idx) =>
+      (e.evaluation.keyImprovements || []).map(imp => `Sentence ${idx + 1}: ${imp}`)),
+    difficultWords,
+    score,
+    errors: entries.flatMap(e => e.evaluation.errors || []),
+    usage: sumUsage(entries.map(e => e.evaluation.usage))
+  };
+};
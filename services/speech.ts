@@ -0,0 +1,142 @@
+import { DEFAULT_SPEECH_SETTINGS, ENGLISH_LOCALE, NATIVE_LANGUAGES, NativeLanguage, SpeechSettings, TranslationDirection } from "../types";
+import { getSetting, setSetting } from "./storage";
+import { segmentSentences } from "./segmenter";
+
+// Read-aloud on top of the Web Speech API (speechSynthesis).
+
+export interface SpeakOptions {
+  locale: string;
+  // Character range of the word being spoken, relative to the text passed in
+  onWord?: (start: number, end: number) => void;
+  // Fires once, when playback finishes or is interrupted by another speak()
+  onEnd?: () => void;
+}
+
+export const isSpeechSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+// Language part of a locale: 'en-US' -> 'en'
+export const localeLanguage = (locale: string) => locale.split('-')[0].toLowerCase();
+
+// Locale of the text the learner translates from
+export const sourceLocale = (direction: TranslationDirection = 'en-vi', native: NativeLanguage = 'vi') =>
+  direction === 'vi-en' ? NATIVE_LANGUAGES[native].locale : ENGLISH_LOCALE;
+
+// Locale the learner translates into
+export const targetLocale = (direction: TranslationDirection = 'en-vi', native: NativeLanguage = 'vi') =>
+  direction === 'vi-en' ? ENGLISH_LOCALE : NATIVE_LANGUAGES[native].locale;
+
+// Saved words carry no language; anything outside plain ASCII is read in the native language
+export const wordLocale = (word: string, native: NativeLanguage = 'vi') =>
+  /[^\x00-\x7F]/.test(word) ? NATIVE_LANGUAGES[native].locale : ENGLISH_LOCALE;
+
+export const getSpeechSettings = async (): Promise<SpeechSettings> => {
+  const stored = await getSetting<Partial<SpeechSettings>>('speech');
+  return { ...DEFAULT_SPEECH_SETTINGS, ...stored, voices: { ...stored?.voices } };
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => setSetting('speech', settings);
+
+// Chrome fills the voice list asynchronously
+let voicesPromise: Promise<SpeechSynthesisVoice[]> | null = null;
+
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSupported()) return Promise.resolve([]);
+  const available = window.speechSynthesis.getVoices();
+  if (available.length) return Promise.resolve(available);
+  if (!voicesPromise) {
+    voicesPromise = new Promise(resolve => {
+      const done = () => {
+        window.speechSynthesis.removeEventListener('voiceschanged', done);
+        voicesPromise = null;
+        resolve(window.speechSynthesis.getVoices());
+      };
+      window.speechSynthesis.addEventListener('voiceschanged', done);
+      // Some browsers have no voices at all and never fire the event
+      setTimeout(done, 1500);
+    });
+  }
+  return voicesPromise;
+};
+
+export const voicesForLocale = (voices: SpeechSynthesisVoice[], locale: string) =>
+  voices.filter(v => localeLanguage(v.lang.replace('_', '-')) === localeLanguage(locale));
+
+const pickVoice = (voices: SpeechSynthesisVoice[], locale: string, preferredURI?: string) => {
+  const matching = voicesForLocale(voices, locale);
+  return matching.find(v => v.voiceURI === preferredURI)
+    || matching.find(v => v.lang.replace('_', '-') === locale)
+    || matching.find(v => v.default)
+    || matching[0];
+};
+
+// Boundary events give the word start; charLength is missing in some engines
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}'-]+/u;
+
+const wordRangeAt = (text: string, charIndex: number, charLength?: number): [number, number] => {
+  if (charLength) return [charIndex, charIndex + charLength];
+  const match = text.slice(charIndex).match(WORD_PATTERN);
+  if (!match || match.index === undefined) return [charIndex, charIndex];
+  return [charIndex + match.index, charIndex + match.index + match[0].length];
+};
+
+// One utterance per sentence: long utterances get cut off in Chrome
+const sentenceChunks = (text: string) =>
+  segmentSentences(text).filter(chunk => chunk.text.trim());
+
+// Speaks the text, cancelling anything already playing. Returns a stop function.
+export const speak = (text: string, options: SpeakOptions): (() => void) => {
+  let stopped = false;
+  const finish = () => {
+    if (stopped) return;
+    stopped = true;
+    options.onEnd?.();
+  };
+
+  // onEnd always fires after speak() has returned
+  if (!isSpeechSupported() || !text.trim()) {
+    Promise.resolve().then(finish);
+    return () => { stopped = true; };
+  }
+
+  Promise.all([getSpeechSettings(), loadVoices()]).then(([settings, voices]) => {
+    if (stopped) return;
+    const synth = window.speechSynthesis;
+    synth.cancel();
+    const voice = pickVoice(voices, options.locale, settings.voices[localeLanguage(options.locale)]);
+    const chunks = sentenceChunks(text);
+
+    chunks.forEach((chunk, idx) => {
+      const utterance = new SpeechSynthesisUtterance(chunk.text);
+      utterance.lang = voice?.lang || options.locale;
+      if (voice) utterance.voice = voice;
+      utterance.rate = settings.rate;
+      utterance.onboundary = (event) => {
+        if (stopped || event.name !== 'word') return;
+        const [start, end] = wordRangeAt(chunk.text, event.charIndex, event.charLength);
+        options.onWord?.(chunk.start + start, chunk.start + end);
+      };
+      utterance.onerror = (event) => {
+        if (event.error !== 'interrupted' && event.error !== 'canceled') console.error('Speech failed', event.error);
+        finish();
+      };
+      if (idx === chunks.length - 1) utterance.onend = finish;
+      synth.speak(utterance);
+    });
+    // A paused engine keeps new utterances queued until resumed
+    synth.resume();
+  }).catch(error => {
+    console.error('Speech failed', error);
+    finish();
+  });
+
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    window.speechSynthesis.cancel();
+  };
+};
+
+export const pauseSpeaking = () => isSpeechSupported() && window.speechSynthesis.pause();
+
+export const resumeSpeaking = () => isSpeechSupported() && window.speechSynthesis.resume();
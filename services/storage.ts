@@ -0,0 +1,247 @@
+import { PracticeSession, VocabularyItem, LookupCacheEntry, DictionaryEntry } from "../types";
+
+// IndexedDB-backed repository for sessions, saved words and settings.
+// Every write touches only the records that changed.
+
+const DB_NAME = 'linguaflow';
+const DB_VERSION = 3;
+
+const SESSIONS = 'sessions'; // keyPath: id
+const WORDS = 'words'; // keyPath: word
+const SETTINGS = 'settings'; // out-of-line keys
+const LOOKUPS = 'lookups'; // keyPath: key, index: lemmaKey (added in version 2)
+const DICTIONARY = 'dictionary'; // keyPath: headword (added in version 3)
+
+export type SettingKey = 'prompts' | 'promptsViEn' | 'provider' | 'language' | 'speech' | 'recognition' | 'dictionary';
+
+// Keys used before the move to IndexedDB
+const LEGACY_KEYS = {
+  history: 'lf_history',
+  savedWords: 'lf_saved_words',
+  apiKey: 'ds_api_key',
+  prompts: 'ds_prompts',
+  provider: 'ds_provider'
+};
+const MIGRATED_FLAG = 'migratedFromLocalStorage';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const readLegacy = <T>(key: string): T | undefined => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // ds_api_key was stored as a bare string
+    return raw as unknown as T;
+  }
+};
+
+// Legacy records without a usable key would abort the whole migration; they are skipped and logged
+const validLegacyRecords = <T>(records: unknown, hasKey: (record: any) => boolean, kind: string): T[] => {
+  if (!Array.isArray(records)) return [];
+  return records.filter(record => {
+    if (record && typeof record === 'object' && hasKey(record)) return true;
+    console.error(`Skipping invalid legacy ${kind}`, record);
+    return false;
+  });
+};
+
+const hasSessionId = (session: any) => (typeof session.id === 'string' && session.id !== '') || Number.isFinite(session.id);
+const hasWord = (word: any) => typeof word.word === 'string' && word.word.trim() !== '';
+
+// Copies the old localStorage data into the database once, then frees the localStorage quota
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const tx = db.transaction([SESSIONS, WORDS, SETTINGS], 'readwrite');
+  const settings = tx.objectStore(SETTINGS);
+  if (await requestToPromise(settings.get(MIGRATED_FLAG))) return;
+
+  const history = validLegacyRecords<PracticeSession>(readLegacy(LEGACY_KEYS.history), hasSessionId, 'session');
+  const words = validLegacyRecords<VocabularyItem>(readLegacy(LEGACY_KEYS.savedWords), hasWord, 'word');
+  const prompts = readLegacy(LEGACY_KEYS.prompts);
+  const provider = readLegacy<object>(LEGACY_KEYS.provider);
+  const apiKey = readLegacy<string>(LEGACY_KEYS.apiKey);
+
+  history.forEach(session => tx.objectStore(SESSIONS).put(session));
+  // The old array was oldest-first; keep that order through savedAt
+  const now = Date.now();
+  words.forEach((word, idx) => tx.objectStore(WORDS).put({ savedAt: now - (words.length - idx), ...word }));
+  if (prompts) settings.put(prompts, 'prompts');
+  if (provider || apiKey) settings.put({ ...provider, ...(apiKey ? { deepseekApiKey: apiKey } : {}) }, 'provider');
+  settings.put(true, MIGRATED_FLAG);
+
+  await transactionDone(tx);
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(WORDS)) db.createObjectStore(WORDS, { keyPath: 'word' });
+        if (!db.objectStoreNames.contains(SETTINGS)) db.createObjectStore(SETTINGS);
+        if (!db.objectStoreNames.contains(LOOKUPS)) db.createObjectStore(LOOKUPS, { keyPath: 'key' }).createIndex('lemmaKey', 'lemmaKey');
+        if (!db.objectStoreNames.contains(DICTIONARY)) db.createObjectStore(DICTIONARY, { keyPath: 'headword' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const request = run(tx.objectStore(storeName));
+  const result = request ? await requestToPromise(request) : undefined;
+  await transactionDone(tx);
+  return result;
+};
+
+// --- Sessions ---
+
+// Newest first, like the in-memory history
+export const loadSessions = async (): Promise<PracticeSession[]> => {
+  const sessions = await withStore<PracticeSession[]>(SESSIONS, 'readonly', store => store.getAll());
+  return (sessions || []).sort((a, b) => b.date - a.date);
+};
+
+export const saveSession = async (session: PracticeSession) => {
+  await withStore(SESSIONS, 'readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (sessionId: string) => {
+  await withStore(SESSIONS, 'readwrite', store => store.delete(sessionId));
+};
+
+export const saveSessions = async (sessions: PracticeSession[]) => {
+  await withStore(SESSIONS, 'readwrite', store => { sessions.forEach(session => store.put(session)); });
+};
+
+// --- Saved words ---
+
+// Most recently saved first
+export const loadWords = async (): Promise<VocabularyItem[]> => {
+  const words = await withStore<VocabularyItem[]>(WORDS, 'readonly', store => store.getAll());
+  return (words || []).sort((a, b) => (b.savedAt || 0) - (a.savedAt || 0));
+};
+
+export const saveWord = async (word: VocabularyItem) => {
+  await withStore(WORDS, 'readwrite', store => store.put(word));
+};
+
+export const saveWords = async (words: VocabularyItem[]) => {
+  await withStore(WORDS, 'readwrite', store => { words.forEach(word => store.put(word)); });
+};
+
+export const deleteWord = async (word: string) => {
+  await withStore(WORDS, 'readwrite', store => store.delete(word));
+};
+
+// --- Settings ---
+
+export const getSetting = async <T>(key: SettingKey): Promise<T | undefined> => {
+  return withStore<T>(SETTINGS, 'readonly', store => store.get(key));
+};
+
+export const setSetting = async <T>(key: SettingKey, value: T) => {
+  await withStore(SETTINGS, 'readwrite', store => store.put(value, key));
+};
+
+// --- Lookup cache ---
+
+export const getLookup = async (key: string): Promise<LookupCacheEntry | undefined> => {
+  return withStore<LookupCacheEntry>(LOOKUPS, 'readonly', store => store.get(key));
+};
+
+// Every cached context of one lemma
+export const findLookupsByLemma = async (lemmaKey: string): Promise<LookupCacheEntry[]> => {
+  return (await withStore<LookupCacheEntry[]>(LOOKUPS, 'readonly', store => store.index('lemmaKey').getAll(lemmaKey))) || [];
+};
+
+export const saveLookup = async (entry: LookupCacheEntry) => {
+  await withStore(LOOKUPS, 'readwrite', store => store.put(entry));
+};
+
+export const loadLookups = async (): Promise<LookupCacheEntry[]> => {
+  return (await withStore<LookupCacheEntry[]>(LOOKUPS, 'readonly', store => store.getAll())) || [];
+};
+
+export const clearLookups = async () => {
+  await withStore(LOOKUPS, 'readwrite', store => store.clear());
+};
+
+// --- Imported dictionary ---
+
+export type StoredDictionaryEntry = DictionaryEntry & { headword: string };
+
+export const getDictionaryEntry = async (headword: string): Promise<StoredDictionaryEntry | undefined> => {
+  return withStore<StoredDictionaryEntry>(DICTIONARY, 'readonly', store => store.get(headword));
+};
+
+export const countDictionaryEntries = async (): Promise<number> => {
+  return (await withStore<number>(DICTIONARY, 'readonly', store => store.count())) || 0;
+};
+
+// Swaps the whole dictionary in one transaction
+export const replaceDictionary = async (entries: StoredDictionaryEntry[]) => {
+  await withStore(DICTIONARY, 'readwrite', store => {
+    store.clear();
+    entries.forEach(entry => store.put(entry));
+  });
+};
+
+export const clearDictionary = async () => {
+  await withStore(DICTIONARY, 'readwrite', store => store.clear());
+};
+
+// --- Bulk ---
+
+// Swap all sessions and saved words in one transaction, so a failed restore leaves the old data intact
+export const replaceAllData = async (sessions: PracticeSession[], words: VocabularyItem[]) => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, WORDS], 'readwrite');
+  const sessionStore = tx.objectStore(SESSIONS);
+  const wordStore = tx.objectStore(WORDS);
+  sessionStore.clear();
+  wordStore.clear();
+  sessions.forEach(session => sessionStore.put(session));
+  words.forEach(word => wordStore.put(word));
+  await transactionDone(tx);
+};
+
+// --- Usage ---
+
+// Bytes used by this origin (IndexedDB included), when the browser can tell
+export const estimateStorageBytes = async (): Promise<number> => {
+  if (!navigator.storage?.estimate) return 0;
+  const { usage } = await navigator.storage.estimate();
+  return usage || 0;
+};
+
+export const formatBytes = (totalBytes: number): string => {
+  if (totalBytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(totalBytes) / Math.log(k));
+  return parseFloat((totalBytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
@@ -0,0 +1,110 @@
+// Word-level diff between a learner's translation and the corrected one.
+// Vietnamese is written one syllable per space-separated token with stacked
+// diacritics, so tokens are Unicode letter/mark runs compared after NFC
+// normalization (typed "ế" may arrive precomposed or as e + two marks).
+
+export interface DiffToken {
+  text: string;
+  // Whitespace that preceded the token, kept so segments render with the original spacing
+  space: string;
+}
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete' | 'replace';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  // Text from the user's version ('' for insertions)
+  before: string;
+  // Text from the corrected version ('' for deletions)
+  after: string;
+}
+
+// Words (letters, combining marks, digits, inner apostrophes/hyphens) or single punctuation marks
+const TOKEN_PATTERN = /(\s*)([\p{L}\p{M}\p{N}]+(?:['’\-][\p{L}\p{M}\p{N}]+)*|[^\s])/gu;
+
+export const tokenize = (text: string): DiffToken[] => {
+  const tokens: DiffToken[] = [];
+  for (const match of text.normalize('NFC').matchAll(TOKEN_PATTERN)) {
+    tokens.push({ space: match[1], text: match[2] });
+  }
+  return tokens;
+};
+
+const join = (tokens: DiffToken[]) => tokens.map(t => t.space + t.text).join('');
+
+// Past this many LCS cells the texts are too different to be worth aligning
+const MAX_CELLS = 4_000_000;
+
+type Op = { type: 'equal' | 'insert' | 'delete'; token: DiffToken };
+
+// Classic LCS table, walked forwards so the ops come out in reading order
+const diffTokens = (a: DiffToken[], b: DiffToken[]): Op[] => {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > MAX_CELLS) {
+    return [...a.map(token => ({ type: 'delete' as const, token })), ...b.map(token => ({ type: 'insert' as const, token }))];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i].text === b[j].text
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i].text === b[j].text) {
+      ops.push({ type: 'equal', token: b[j] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      ops.push({ type: 'delete', token: a[i++] });
+    } else {
+      ops.push({ type: 'insert', token: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', token: a[i++] });
+  while (j < m) ops.push({ type: 'insert', token: b[j++] });
+  return ops;
+};
+
+// Groups the token ops into runs; a deletion next to an insertion becomes one substitution
+export const diffWords = (user: string, corrected: string): DiffSegment[] => {
+  const ops = diffTokens(tokenize(user), tokenize(corrected));
+  const segments: DiffSegment[] = [];
+
+  let idx = 0;
+  while (idx < ops.length) {
+    if (ops[idx].type === 'equal') {
+      const run: DiffToken[] = [];
+      while (idx < ops.length && ops[idx].type === 'equal') run.push(ops[idx++].token);
+      segments.push({ type: 'equal', before: join(run), after: join(run) });
+      continue;
+    }
+
+    const deleted: DiffToken[] = [];
+    const inserted: DiffToken[] = [];
+    while (idx < ops.length && ops[idx].type !== 'equal') {
+      (ops[idx].type === 'delete' ? deleted : inserted).push(ops[idx].token);
+      idx++;
+    }
+    const type: DiffSegmentType = deleted.length && inserted.length ? 'replace' : deleted.length ? 'delete' : 'insert';
+    segments.push({ type, before: join(deleted), after: join(inserted) });
+  }
+
+  return segments;
+};
+
+// Share of the corrected text the user already had, by token (1 = identical)
+export const similarity = (segments: DiffSegment[]): number => {
+  const count = (text: string) => tokenize(text).length;
+  const equal = segments.filter(s => s.type === 'equal').reduce((sum, s) => sum + count(s.after), 0);
+  const total = segments.reduce((sum, s) => sum + count(s.after), 0);
+  return total === 0 ? 1 : equal / total;
+};
@@ -0,0 +1,177 @@
+import { VocabularyItem, EvaluationResult, ErrorCategory, ErrorSeverity, TranslationError, ERROR_CATEGORIES } from "../types";
+
+// Thrown when a model response cannot be turned into the expected shape.
+export class AIResponseError extends Error {
+  constructor(message: string, public readonly raw: string = '') {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
+export type Validator<T> = (data: unknown) => T;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asObject = (value: unknown, what: string): JsonObject => {
+  if (!isObject(value)) throw new AIResponseError(`Expected ${what} to be a JSON object`);
+  return value;
+};
+
+// Numbers and booleans are stringified, anything else becomes the fallback
+const asString = (value: unknown, fallback = ''): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return fallback;
+};
+
+const optionalString = (value: unknown): string | undefined => asString(value) || undefined;
+
+const asNumber = (value: unknown): number | undefined => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+};
+
+export const normalizeCefr = (value: unknown): string | undefined => {
+  const cefr = asString(value).toUpperCase();
+  return /^[ABC][12]$/.test(cefr) ? cefr : undefined;
+};
+
+// Returns null for entries that cannot be used as a vocabulary card
+export const normalizeVocabularyItem = (value: unknown): VocabularyItem | null => {
+  if (!isObject(value)) return null;
+
+  const word = asString(value.word);
+  const definition = asString(value.definition);
+  const translation = asString(value.translation);
+  if (!word || (!definition && !translation)) return null;
+
+  return {
+    word,
+    definition,
+    translation,
+    pronunciation: optionalString(value.pronunciation)?.replace(/^\/|\/$/g, ''),
+    type: optionalString(value.type),
+    context: optionalString(value.context),
+    cefr: normalizeCefr(value.cefr)
+  };
+};
+
+const vocabularyList = (value: unknown): VocabularyItem[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(normalizeVocabularyItem)
+    .filter((item): item is VocabularyItem => item !== null);
+};
+
+const stringList = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value.map(item => asString(item)).filter(Boolean);
+};
+
+// Names models commonly use instead of the requested category ids
+const CATEGORY_ALIASES: Record<string, ErrorCategory> = {
+  'tenses': 'tense', 'verb-tense': 'tense', 'aspect': 'tense',
+  'order': 'word-order', 'syntax': 'word-order',
+  'vocabulary': 'word-choice', 'lexical': 'word-choice', 'collocation': 'word-choice', 'mistranslation': 'word-choice',
+  'classifiers': 'classifier', 'measure-word': 'classifier',
+  'idioms': 'idiom', 'set-phrase': 'idiom',
+  'preposition': 'preposition-article', 'article': 'preposition-article',
+  'plural': 'agreement', 'number': 'agreement',
+  'missing': 'omission', 'omitted': 'omission',
+  'extra': 'addition', 'redundancy': 'addition',
+  'diacritics': 'spelling', 'typo': 'spelling',
+  'naturalness': 'style', 'register': 'style', 'fluency': 'style'
+};
+
+const normalizeCategory = (value: unknown): ErrorCategory => {
+  const key = asString(value).toLowerCase().replace(/[\s_]+/g, '-');
+  if ((ERROR_CATEGORIES as string[]).includes(key)) return key as ErrorCategory;
+  return CATEGORY_ALIASES[key] || 'other';
+};
+
+const normalizeSeverity = (value: unknown): ErrorSeverity => {
+  const severity = asString(value).toLowerCase();
+  return severity === 'critical' || severity === 'major' ? severity : 'minor';
+};
+
+// Entries with neither span nor suggestion can't be shown and are dropped
+export const normalizeTranslationErrors = (value: unknown): TranslationError[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    if (!isObject(entry)) return [];
+    const error: TranslationError = {
+      category: normalizeCategory(entry.category),
+      sourceSpan: asString(entry.sourceSpan),
+      userSpan: asString(entry.userSpan),
+      suggestion: asString(entry.suggestion),
+      severity: normalizeSeverity(entry.severity),
+      explanation: optionalString(entry.explanation)
+    };
+    return error.sourceSpan || error.userSpan || error.suggestion ? [error] : [];
+  });
+};
+
+// generate / analyze
+export const validatePracticeContent: Validator<{ title: string; text: string; vocabulary: VocabularyItem[] }> = (data) => {
+  const obj = asObject(data, 'the response');
+  const text = asString(obj.text);
+  if (!text) throw new AIResponseError('Missing "text" field');
+
+  return {
+    title: asString(obj.title, 'Untitled Practice') || 'Untitled Practice',
+    text,
+    vocabulary: vocabularyList(obj.vocabulary)
+  };
+};
+
+// lookup (the word itself is supplied by the caller)
+export const validateLookup: Validator<Omit<VocabularyItem, 'word'>> = (data) => {
+  const obj = asObject(data, 'the response');
+  const definition = asString(obj.definition);
+  const translation = asString(obj.translation);
+  if (!definition && !translation) throw new AIResponseError('Missing "definition" and "translation" fields');
+
+  return {
+    definition,
+    translation,
+    pronunciation: optionalString(obj.pronunciation)?.replace(/^\/|\/$/g, ''),
+    type: asString(obj.type, 'Unknown') || 'Unknown',
+    cefr: normalizeCefr(obj.cefr)
+  };
+};
+
+// evaluate
+export const validateEvaluation: Validator<Omit<EvaluationResult, 'usage'> & { score: number }> = (data) => {
+  const obj = asObject(data, 'the response');
+  const correctedTranslation = asString(obj.correctedTranslation);
+  if (!correctedTranslation) throw new AIResponseError('Missing "correctedTranslation" field');
+
+  const score = asNumber(obj.score);
+  if (score === undefined) throw new AIResponseError('Missing numeric "score" field');
+
+  return {
+    correctedTranslation,
+    keyImprovements: stringList(obj.keyImprovements),
+    difficultWords: vocabularyList(obj.difficultWords),
+    score: Math.round(Math.min(100, Math.max(0, score))),
+    errors: normalizeTranslationErrors(obj.errors)
+  };
+};
+
+// Lenient views of a response that is still streaming: take whatever fields are usable so far
+export const toPartialContent = (data: unknown): { title: string; text: string } | null => {
+  if (!isObject(data)) return null;
+  return { title: asString(data.title), text: typeof data.text === 'string' ? data.text : '' };
+};
+
+export const toPartialEvaluation = (data: unknown): Partial<Omit<EvaluationResult, 'usage'>> | null => {
+  if (!isObject(data)) return null;
+  return {
+    correctedTranslation: typeof data.correctedTranslation === 'string' ? data.correctedTranslation : undefined,
+    keyImprovements: stringList(data.keyImprovements)
+  };
+};
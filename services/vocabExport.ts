@@ -0,0 +1,108 @@
+import { VocabularyItem } from "../types";
+
+// Export of saved vocabulary to spreadsheets (CSV/TSV) and to Anki.
+// Anki decks use Anki's plain-text import format (File → Import), whose
+// header lines pick the note type, deck and columns without any setup.
+
+export type ExportField = 'word' | 'pronunciation' | 'type' | 'cefr' | 'definition' | 'translation' | 'context';
+
+export const EXPORT_FIELDS: { field: ExportField; label: string }[] = [
+  { field: 'word', label: 'Word' },
+  { field: 'pronunciation', label: 'Pronunciation' },
+  { field: 'type', label: 'Type' },
+  { field: 'cefr', label: 'CEFR' },
+  { field: 'definition', label: 'Definition' },
+  { field: 'translation', label: 'Translation' },
+  { field: 'context', label: 'Context' }
+];
+
+export interface ExportColumn {
+  field: ExportField;
+  header: string;
+}
+
+export type Delimiter = ',' | '\t';
+
+// --- CSV / TSV ---
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// TSV has no quoting, so separators inside a value are flattened to spaces
+const escapeTsv = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+export const toDelimited = (items: VocabularyItem[], columns: ExportColumn[], delimiter: Delimiter, includeHeader = true): string => {
+  const escape = delimiter === ',' ? escapeCsv : escapeTsv;
+  const rows = items.map(item => columns.map(col => escape(item[col.field] || '')).join(delimiter));
+  if (includeHeader) rows.unshift(columns.map(col => escape(col.header)).join(delimiter));
+  return rows.join('\r\n');
+};
+
+// --- Anki ---
+
+export type AnkiNoteType = 'basic' | 'cloze';
+
+export interface AnkiOptions {
+  deckName: string;
+  noteType: AnkiNoteType;
+  frontTemplate: string;
+  backTemplate: string;
+}
+
+export const DEFAULT_ANKI_OPTIONS: AnkiOptions = {
+  deckName: 'LinguaFlow',
+  noteType: 'basic',
+  frontTemplate: '<div style="font-size:28px"><b>{{word}}</b></div>\n<div style="color:#888">{{pronunciation}}</div>\n<div><i>{{context}}</i></div>',
+  backTemplate: '<div style="font-size:22px">{{translation}}</div>\n<div>{{definition}}</div>\n<div style="color:#888">{{type}} {{cefr}}</div>'
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds the target word (any capitalization, whole words only) in an HTML-escaped sentence
+const wordPattern = (word: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])(${escapeRegExp(escapeHtml(word))})(?=$|[^\\p{L}\\p{N}])`, 'giu');
+
+export const highlightWord = (context: string, word: string): string =>
+  escapeHtml(context).replace(wordPattern(word), '$1<b>$2</b>');
+
+// Anki cloze syntax; the translation is shown as the hint
+export const clozeWord = (context: string, word: string, hint?: string): string => {
+  const cloze = (match: string) => `{{c1::${match}${hint ? `::${hint.replace(/}}/g, '')}` : ''}}}`;
+  const escaped = escapeHtml(context);
+  const pattern = wordPattern(word);
+  if (!context || !pattern.test(escaped)) return cloze(escapeHtml(word));
+  return escaped.replace(wordPattern(word), (_m, lead: string, target: string) => lead + cloze(target));
+};
+
+export const renderTemplate = (template: string, item: VocabularyItem): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => {
+    // Unknown placeholders are left for the user to spot
+    if (!EXPORT_FIELDS.some(f => f.field === key)) return placeholder;
+    if (key === 'context') return item.context ? highlightWord(item.context, item.word) : '';
+    return escapeHtml(item[key as ExportField] || '');
+  });
+
+const ankiTag = (value: string) => value.trim().replace(/\s+/g, '_');
+
+export const toAnkiDeck = (items: VocabularyItem[], options: AnkiOptions): string => {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#notetype:${options.noteType === 'cloze' ? 'Cloze' : 'Basic'}`,
+    `#deck:${options.deckName || DEFAULT_ANKI_OPTIONS.deckName}`,
+    '#tags column:3'
+  ];
+
+  const rows = items.map(item => {
+    const tags = ['LinguaFlow', item.cefr, item.type].filter(Boolean).map(tag => ankiTag(tag!)).join(' ');
+    const fields = options.noteType === 'cloze'
+      ? [clozeWord(item.context || '', item.word, item.translation), renderTemplate(options.backTemplate, item)]
+      : [renderTemplate(options.frontTemplate, item), renderTemplate(options.backTemplate, item)];
+    return [...fields, tags].map(escapeTsv).join('\t');
+  });
+
+  return [...header, ...rows].join('\n');
+};
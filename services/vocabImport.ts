@@ -0,0 +1,180 @@
+import { VocabularyItem } from "../types";
+import { ExportField } from "./vocabExport";
+import { normalizeCefr } from "./validation";
+
+// Bulk import of vocabulary from CSV/TSV files or plain word lists (one word per line).
+
+export type ImportFormat = 'csv' | 'tsv' | 'list';
+
+// null = ignore that column
+export type ColumnMapping = (ExportField | null)[];
+
+export interface ParsedTable {
+  format: ImportFormat;
+  rows: string[][];
+}
+
+// Splits CSV with RFC 4180 quoting ("a, b" and "" escapes, quoted line breaks)
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+};
+
+const detectFormat = (lines: string[]): ImportFormat => {
+  if (lines.some(line => line.includes('\t'))) return 'tsv';
+  // A list of phrases can contain the odd comma; a CSV has one on (nearly) every line
+  const withComma = lines.filter(line => line.includes(',')).length;
+  return withComma > 0 && withComma >= lines.length * 0.8 ? 'csv' : 'list';
+};
+
+export const parseImportText = (input: string, format?: ImportFormat): ParsedTable => {
+  const text = input.replace(/^\uFEFF/, '');
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const detected = format || detectFormat(lines);
+
+  let rows: string[][];
+  if (detected === 'csv') rows = parseCsv(text);
+  else if (detected === 'tsv') rows = lines.map(line => line.split('\t'));
+  else rows = lines.map(line => [line]);
+
+  return {
+    format: detected,
+    rows: rows
+      .map(row => row.map(cell => cell.trim()))
+      .filter(row => row.some(Boolean))
+  };
+};
+
+// Header names (lower case) we recognise for each field
+const HEADER_ALIASES: Record<ExportField, string[]> = {
+  word: ['word', 'term', 'english', 'vocabulary', 'front', 'từ'],
+  translation: ['translation', 'vietnamese', 'meaning', 'back', 'nghĩa', 'dịch'],
+  definition: ['definition', 'def', 'explanation', 'định nghĩa', 'giải thích'],
+  pronunciation: ['pronunciation', 'ipa', 'phonetic', 'phát âm'],
+  type: ['type', 'pos', 'part of speech', 'word type', 'loại từ'],
+  cefr: ['cefr', 'level', 'cấp độ'],
+  context: ['context', 'example', 'sentence', 'example sentence', 'ví dụ']
+};
+
+const fieldForHeader = (header: string): ExportField | null => {
+  const name = header.trim().toLowerCase();
+  const match = (Object.keys(HEADER_ALIASES) as ExportField[]).find(field => HEADER_ALIASES[field].includes(name));
+  return match || null;
+};
+
+// A first row is a header when it names the word column
+export const looksLikeHeader = (row: string[]): boolean => row.some(cell => fieldForHeader(cell) === 'word');
+
+// Without a header, columns are read in the same order as the default export
+const POSITIONAL_FIELDS: ExportField[] = ['word', 'translation', 'definition', 'type', 'cefr', 'pronunciation', 'context'];
+
+export const guessMapping = (table: ParsedTable, hasHeader: boolean): ColumnMapping => {
+  const columnCount = Math.max(0, ...table.rows.map(row => row.length));
+  if (hasHeader && table.rows.length > 0) {
+    const used = new Set<ExportField>();
+    return Array.from({ length: columnCount }, (_, idx) => {
+      const field = fieldForHeader(table.rows[0][idx] || '');
+      if (!field || used.has(field)) return null;
+      used.add(field);
+      return field;
+    });
+  }
+  return Array.from({ length: columnCount }, (_, idx) => POSITIONAL_FIELDS[idx] || null);
+};
+
+export const wordKey = (word: string) => word.trim().toLowerCase();
+
+export interface ImportCandidate {
+  item: VocabularyItem;
+  // Stored key of the saved word this one matches (compared case-insensitively)
+  duplicateOf?: string;
+  // Missing a translation or a definition
+  incomplete: boolean;
+}
+
+export const buildCandidates = (table: ParsedTable, mapping: ColumnMapping, hasHeader: boolean, existing: VocabularyItem[]): ImportCandidate[] => {
+  const existingKeys = new Map(existing.map(w => [wordKey(w.word), w.word]));
+  const seen = new Set<string>();
+  const candidates: ImportCandidate[] = [];
+
+  (hasHeader ? table.rows.slice(1) : table.rows).forEach(row => {
+    const fields: Partial<Record<ExportField, string>> = {};
+    mapping.forEach((field, idx) => {
+      if (field && row[idx]) fields[field] = row[idx];
+    });
+
+    const word = fields.word?.trim();
+    if (!word) return;
+    // Repeats inside the file: the first one wins
+    const key = wordKey(word);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const item: VocabularyItem = {
+      word,
+      translation: fields.translation || '',
+      definition: fields.definition || '',
+      pronunciation: fields.pronunciation?.replace(/^\/|\/$/g, '') || undefined,
+      type: fields.type || undefined,
+      cefr: normalizeCefr(fields.cefr),
+      context: fields.context || undefined
+    };
+    candidates.push({
+      item,
+      duplicateOf: existingKeys.get(key),
+      incomplete: !item.translation || !item.definition
+    });
+  });
+
+  return candidates;
+};
+
+// Fills only the fields the imported entry left empty
+export const fillMissing = (item: VocabularyItem, extra: Partial<VocabularyItem>): VocabularyItem => {
+  const filled: Record<string, unknown> = { ...item };
+  Object.entries(extra).forEach(([key, value]) => {
+    if (!filled[key] && value) filled[key] = value;
+  });
+  return filled as unknown as VocabularyItem;
+};
+
+// Updating a saved word keeps its key, review schedule and save time; non-empty imported fields win
+export const mergeIntoExisting = (existing: VocabularyItem, imported: VocabularyItem): VocabularyItem => {
+  const merged: Record<string, unknown> = { ...existing };
+  Object.entries(imported).forEach(([key, value]) => {
+    if (key !== 'word' && value) merged[key] = value;
+  });
+  return merged as unknown as VocabularyItem;
+};
@@ -5,6 +5,8 @@ export enum AppMode {
   PRACTICE = 'PRACTICE',
   REVIEW = 'REVIEW',
   VOCABULARY = 'VOCABULARY',
+  ANALYTICS = 'ANALYTICS',
+  DICTATION = 'DICTATION',
 }
 
 export enum ContentSource {
@@ -18,6 +20,18 @@ export interface TokenUsage {
   totalTokens: number;
 }
 
+export type ReviewGrade = 'HARD' | 'GOOD' | 'EASY';
+
+// SM-2 spaced repetition state of a saved word
+export interface ReviewSchedule {
+  ease: number; // Interval multiplier, never below 1.3
+  interval: number; // Days until the next review (0 = relearn today)
+  due: number; // Timestamp of the next review
+  reps: number; // Successful reviews in a row
+  lapses: number; // Times the word was forgotten
+  lastReviewed: number;
+}
+
 export interface VocabularyItem {
   word: string; 
   definition: string;
@@ -26,6 +40,40 @@ export interface VocabularyItem {
   translation: string;
   context?: string; // The full sentence containing the word
   cefr?: string; // B1, B2, C1, C2
+  review?: ReviewSchedule; // Only on saved words that have been studied
+  savedAt?: number; // When the word was added to the deck
+}
+
+export type ErrorCategory =
+  | 'tense'
+  | 'word-order'
+  | 'word-choice'
+  | 'classifier'
+  | 'idiom'
+  | 'preposition-article'
+  | 'agreement'
+  | 'omission'
+  | 'addition'
+  | 'spelling'
+  | 'punctuation'
+  | 'style'
+  | 'other';
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  'tense', 'word-order', 'word-choice', 'classifier', 'idiom', 'preposition-article', 'agreement',
+  'omission', 'addition', 'spelling', 'punctuation', 'style', 'other'
+];
+
+export type ErrorSeverity = 'minor' | 'major' | 'critical';
+
+// One tagged mistake in a learner's translation
+export interface TranslationError {
+  category: ErrorCategory;
+  sourceSpan: string; // Words in the original text the mistake relates to
+  userSpan: string; // The learner's wording ('' when something was left out)
+  suggestion: string; // Suggested replacement for userSpan
+  severity: ErrorSeverity;
+  explanation?: string;
 }
 
 export interface EvaluationResult {
@@ -34,6 +82,28 @@ export interface EvaluationResult {
   difficultWords: VocabularyItem[]; 
   usage?: TokenUsage;
   score?: number;
+  errors?: TranslationError[]; // Absent on evaluations made before errors were tagged
+}
+
+// One source sentence in sentence-by-sentence mode, graded on its own
+export interface SentenceEvaluation {
+  source: string;
+  userTranslation: string;
+  evaluation: EvaluationResult;
+}
+
+// One sentence of a dictation run: what was read aloud and what the learner typed
+export interface DictationEntry {
+  sentence: string;
+  typed: string;
+  wordAccuracy: number; // 0-100
+  charAccuracy: number; // 0-100
+  missedWords: string[]; // Words of the sentence that were missing or misspelled
+}
+
+export interface DictationResult {
+  entries: DictationEntry[];
+  score: number; // Word accuracy over the whole text
 }
 
 export interface PracticeSession {
@@ -42,19 +112,121 @@ export interface PracticeSession {
   text: string;
   vocabulary: VocabularyItem[];
   date: number;
+  config?: AIContentConfig; // Topic and difficulty of AI-generated texts; absent for custom texts
+  direction?: TranslationDirection; // Absent on sessions from before directions existed ('en-vi')
+  nativeLanguage?: NativeLanguage; // Language of the definitions and feedback; absent means 'vi'
   
   initialUsage: TokenUsage;
   lookupUsage: TokenUsage;
+  lookupSavedUsage?: TokenUsage; // What the lookups answered from the cache originally cost
   evaluationUsage?: TokenUsage;
 
   userTranslation?: string;
-  evaluation?: EvaluationResult;
+  evaluation?: EvaluationResult; // Overall result (aggregated in sentence mode)
+  sentenceEvaluations?: SentenceEvaluation[]; // Only for sessions translated sentence by sentence
+  dictation?: DictationResult; // Only for dictation runs, which have no translation or evaluation
+}
+
+// A word lookup kept across sessions, filed by lemma and the sentence it was looked up in
+export interface LookupCacheEntry {
+  key: string; // lemmaKey + context fingerprint
+  lemmaKey: string; // direction | native language | lemma
+  item: VocabularyItem;
+  usage: TokenUsage; // Cost of the original lookup
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+// One headword of the offline English–Vietnamese dictionary
+export interface DictionaryEntry {
+  word: string;
+  ipa?: string; // Without slashes
+  pos?: string; // Part of speech
+  meanings: string[]; // Vietnamese senses, most common first
+  definition?: string; // Short English definition
+}
+
+// 'first': answer from the dictionary when it has the word; 'fallback': only when the AI lookup fails
+export type DictionaryMode = 'first' | 'fallback' | 'off';
+
+export interface DictionarySettings {
+  mode: DictionaryMode;
+  customName?: string; // File name of an imported dictionary, which takes precedence over the bundled one
 }
 
+export const DEFAULT_DICTIONARY_SETTINGS: DictionarySettings = {
+  mode: 'fallback'
+};
+
+export interface GeneratedContent {
+  title: string;
+  text: string;
+  vocabulary: VocabularyItem[];
+  usage: TokenUsage;
+}
+
+// The learner's first language: definitions, translations and feedback are written in it
+export type NativeLanguage = 'vi' | 'th' | 'id' | 'es';
+
+// locale is the BCP 47 tag used for speech synthesis and recognition
+export const NATIVE_LANGUAGES: Record<NativeLanguage, { name: string; nativeName: string; locale: string }> = {
+  vi: { name: 'Vietnamese', nativeName: 'Tiếng Việt', locale: 'vi-VN' },
+  th: { name: 'Thai', nativeName: 'ภาษาไทย', locale: 'th-TH' },
+  id: { name: 'Indonesian', nativeName: 'Bahasa Indonesia', locale: 'id-ID' },
+  es: { name: 'Spanish', nativeName: 'Español', locale: 'es-ES' }
+};
+
+export interface LanguageSettings {
+  native: NativeLanguage;
+  // Show the interface in the native language instead of English
+  localizeInterface: boolean;
+}
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = { native: 'vi', localizeInterface: false };
+
+// Read-aloud preferences; voices are remembered per language ('en', 'vi', ...)
+export interface SpeechSettings {
+  voices: Record<string, string>; // language -> voiceURI
+  rate: number;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { voices: {}, rate: 1 };
+
+export const ENGLISH_LOCALE = 'en-US';
+
+export type RecognizerId = 'browser' | 'whisper';
+
+// Speech-to-text for spoken translations
+export interface RecognitionConfig {
+  recognizer: RecognizerId;
+  // Any server exposing the OpenAI /audio/transcriptions endpoint (faster-whisper-server, whisper.cpp...)
+  whisperBaseUrl: string;
+  whisperModel: string;
+}
+
+export const DEFAULT_RECOGNITION_CONFIG: RecognitionConfig = {
+  recognizer: 'browser',
+  whisperBaseUrl: 'http://localhost:8000/v1',
+  whisperModel: 'whisper-1'
+};
+
+// Which way the learner translates: source language first.
+// 'vi' stands for the learner's native language (the ids predate that setting).
+export type TranslationDirection = 'en-vi' | 'vi-en';
+
+export const TRANSLATION_DIRECTIONS: TranslationDirection[] = ['en-vi', 'vi-en'];
+
+export const directionLabel = (direction: TranslationDirection, native: NativeLanguage = 'vi') => {
+  const name = NATIVE_LANGUAGES[native].name;
+  return direction === 'en-vi' ? `English → ${name}` : `${name} → English`;
+};
+
 export interface AIContentConfig {
   topic: string;
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
   length: 'Short' | 'Medium' | 'Long';
+  direction?: TranslationDirection; // Defaults to 'en-vi'
 }
 
 export interface PromptConfig {
@@ -64,9 +236,46 @@ export interface PromptConfig {
   evaluate: string;
 }
 
+// {language} is filled in with the learner's native language (e.g. "Thai")
 export const DEFAULT_PROMPTS: PromptConfig = {
-  generate: `Write an engaging English text about "{topic}". Difficulty: {difficulty}. Length: {length} words. Return JSON: { "title": "...", "text": "...", "vocabulary": [{word, definition (VN), translation (VN), pronunciation, type, cefr}] }`,
-  analyze: `Analyze this English text. Return JSON: { "title": "...", "text": "...", "vocabulary": [{word, definition (VN), translation (VN), pronunciation, type, cefr}] }`,
-  lookup: `Define "{word}" in context: "{context}". Return JSON: { "definition": "VN definition", "translation": "VN word", "pronunciation": "...", "type": "...", "cefr": "..." }`,
-  evaluate: `Correct translation. Original: "{original}". User: "{translation}". Return JSON: { "score": 0-100, "correctedTranslation": "...", "keyImprovements": ["specific error 1", "specific error 2"], "difficultWords": [{word, definition, translation, type, cefr}] }`
-};
\ No newline at end of file
+  generate: `Write an engaging English text about "{topic}". Difficulty: {difficulty}. Length: {length} words. Return JSON: { "title": "...", "text": "...", "vocabulary": [{word, definition ({language}), translation ({language}), pronunciation, type, cefr}] }`,
+  analyze: `Analyze this English text. Return JSON: { "title": "...", "text": "...", "vocabulary": [{word, definition ({language}), translation ({language}), pronunciation, type, cefr}] }`,
+  lookup: `Define "{word}" in context: "{context}". Return JSON: { "definition": "{language} definition", "translation": "{language} word", "pronunciation": "...", "type": "...", "cefr": "..." }`,
+  evaluate: `Correct translation. Original: "{original}". User: "{translation}". Return JSON: { "score": 0-100, "correctedTranslation": "...", "keyImprovements": ["specific error 1", "specific error 2"], "errors": [{category, sourceSpan, userSpan, suggestion, severity, explanation}], "difficultWords": [{word, definition, translation, type, cefr}] }`
+};
+
+// Prompts for native-language source texts graded as English translations
+export const DEFAULT_PROMPTS_VI_EN: PromptConfig = {
+  generate: `Write an engaging {language} text about "{topic}". Difficulty: {difficulty}. Length: {length} words. Return JSON: { "title": "... (in {language})", "text": "...", "vocabulary": [{word ({language}), definition (EN), translation (EN), pronunciation, type, cefr}] }`,
+  analyze: `Analyze this {language} text. Return JSON: { "title": "...", "text": "...", "vocabulary": [{word ({language}), definition (EN), translation (EN), pronunciation, type, cefr}] }`,
+  lookup: `Define the {language} word "{word}" in context: "{context}". Return JSON: { "definition": "English explanation", "translation": "English word", "pronunciation": "...", "type": "...", "cefr": "..." }`,
+  evaluate: `Correct this English translation of a {language} text. Original: "{original}". User: "{translation}". Return JSON: { "score": 0-100, "correctedTranslation": "...", "keyImprovements": ["specific error 1", "specific error 2"], "errors": [{category, sourceSpan, userSpan, suggestion, severity, explanation}], "difficultWords": [{word, definition, translation, type, cefr}] }`
+};
+
+export const DEFAULT_PROMPTS_BY_DIRECTION: Record<TranslationDirection, PromptConfig> = {
+  'en-vi': DEFAULT_PROMPTS,
+  'vi-en': DEFAULT_PROMPTS_VI_EN
+};
+
+export type AIProviderId = 'deepseek' | 'gemini' | 'openai-compatible';
+
+export interface ProviderConfig {
+  provider: AIProviderId;
+  deepseekApiKey: string;
+  geminiApiKey: string;
+  geminiModel: string;
+  // Any server speaking the OpenAI chat completions protocol (Ollama, LM Studio, vLLM...)
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey: string;
+}
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  provider: 'deepseek',
+  deepseekApiKey: '',
+  geminiApiKey: '',
+  geminiModel: 'gemini-3-flash-preview',
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiModel: 'llama3.1',
+  openaiApiKey: ''
+};